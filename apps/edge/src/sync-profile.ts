@@ -20,7 +20,7 @@ serve(async (req) => {
       throw new AppError(ErrorCodes.MISSING_REQUIRED_FIELD, 'Missing profile_id or job_type.', 400);
     }
 
-    if (!['SYNC_FOLLOWERS', 'SYNC_MEDIA', 'SYNC_STORIES', 'DERIVE_METRICS'].includes(job_type)) {
+    if (!['SYNC_FOLLOWERS', 'SYNC_MEDIA', 'SYNC_INTERACTIONS', 'SYNC_STORIES', 'DERIVE_METRICS'].includes(job_type)) {
       throw new AppError(ErrorCodes.INVALID_INPUT, `Invalid job_type: ${job_type}`, 400);
     }
 
@@ -10,12 +10,15 @@ import DashboardLayout from "./components/DashboardLayout";
 import Overview from "./pages/Overview";
 import ConnectIG from "./pages/ConnectIG";
 import Followers from "./pages/Followers";
+import FollowerActivity from "./pages/FollowerActivity";
 import Content from "./pages/Content";
 import Hours from "./pages/Hours";
 import Hashtags from "./pages/Hashtags";
+import Collaborations from "./pages/Collaborations";
 import Demographics from "./pages/Demographics";
 import Export from "./pages/Export";
 import Settings from "./pages/Settings";
+import Jobs from "./pages/Jobs";
 
 function Router() {
   return (
@@ -48,6 +51,14 @@ function Router() {
         )}
       </Route>
       
+      <Route path={"/dashboard/follower-activity"}>
+        {() => (
+          <DashboardLayout>
+            <FollowerActivity />
+          </DashboardLayout>
+        )}
+      </Route>
+      
       <Route path={"/dashboard/content"}>
         {() => (
           <DashboardLayout>
@@ -72,6 +83,14 @@ function Router() {
         )}
       </Route>
       
+      <Route path={"/dashboard/collaborations"}>
+        {() => (
+          <DashboardLayout>
+            <Collaborations />
+          </DashboardLayout>
+        )}
+      </Route>
+      
       <Route path={"/dashboard/demographics"}>
         {() => (
           <DashboardLayout>
@@ -88,6 +107,14 @@ function Router() {
         )}
       </Route>
       
+      <Route path={"/dashboard/jobs"}>
+        {() => (
+          <DashboardLayout>
+            <Jobs />
+          </DashboardLayout>
+        )}
+      </Route>
+      
       <Route path={"/dashboard/settings"}>
         {() => (
           <DashboardLayout>
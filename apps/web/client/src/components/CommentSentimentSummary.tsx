@@ -0,0 +1,159 @@
+import { Badge } from '@/components/ui/badge';
+import { Frown, Meh, Smile } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  buildSentimentTrend,
+  countTopics,
+  findCommentsToReview,
+  summarizeSentiment,
+  topKeywords,
+  TOPIC_LABELS,
+  type CommentRecord,
+  type SentimentSummary,
+} from '@/lib/commentSentiment';
+
+function formatShare(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : '0%';
+}
+
+/**
+ * Compact positive / neutral / negative split of a post's comments, for media cards.
+ */
+export function SentimentBar({ summary }: { summary: SentimentSummary }) {
+  const { total, positive, neutral, negative } = summary;
+  return (
+    <div
+      className="flex h-1.5 w-full overflow-hidden rounded-full bg-gray-100"
+      title={`${total} comments: ${positive} positive, ${neutral} neutral, ${negative} negative`}
+    >
+      <div className="bg-green-500" style={{ width: formatShare(positive, total) }} />
+      <div className="bg-gray-300" style={{ width: formatShare(neutral, total) }} />
+      <div className="bg-red-500" style={{ width: formatShare(negative, total) }} />
+    </div>
+  );
+}
+
+/**
+ * Sentiment of a set of comments (one post or a period): the split, its weekly trend,
+ * the topics and words that come up most, and comments that may need a reply.
+ */
+export function CommentSentimentSummary({ comments }: { comments: CommentRecord[] }) {
+  if (comments.length === 0) {
+    return (
+      <p className="text-center text-gray-600 py-4">
+        No comments collected here yet. Comments of your newest posts are saved twice a day.
+      </p>
+    );
+  }
+
+  const summary = summarizeSentiment(comments);
+  const trend = buildSentimentTrend(comments);
+  const topics = countTopics(comments);
+  const keywords = topKeywords(comments);
+  const toReview = findCommentsToReview(comments);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-600">Comments</p>
+          <p className="text-2xl font-bold">{summary.total.toLocaleString()}</p>
+          <p className="text-xs text-gray-500">
+            Net sentiment {summary.net_sentiment > 0 ? '+' : ''}{Math.round(summary.net_sentiment)}
+          </p>
+        </div>
+        <div className="p-3 bg-green-50 rounded-lg">
+          <p className="flex items-center gap-1 text-sm text-green-700">
+            <Smile className="w-4 h-4" /> Positive
+          </p>
+          <p className="text-2xl font-bold text-green-700">{formatShare(summary.positive, summary.total)}</p>
+          <p className="text-xs text-gray-500">{summary.positive.toLocaleString()} comments</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <p className="flex items-center gap-1 text-sm text-gray-600">
+            <Meh className="w-4 h-4" /> Neutral
+          </p>
+          <p className="text-2xl font-bold">{formatShare(summary.neutral, summary.total)}</p>
+          <p className="text-xs text-gray-500">{summary.neutral.toLocaleString()} comments</p>
+        </div>
+        <div className="p-3 bg-red-50 rounded-lg">
+          <p className="flex items-center gap-1 text-sm text-red-700">
+            <Frown className="w-4 h-4" /> Negative
+          </p>
+          <p className="text-2xl font-bold text-red-700">{formatShare(summary.negative, summary.total)}</p>
+          <p className="text-xs text-gray-500">{summary.negative.toLocaleString()} comments</p>
+        </div>
+      </div>
+
+      {trend.length > 1 && (
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={trend}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="week" tick={{ fontSize: 12 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+            <Tooltip labelFormatter={(week) => `Week of ${week}`} />
+            <Legend />
+            <Bar dataKey="positive" name="Positive" stackId="sentiment" fill="#22c55e" />
+            <Bar dataKey="neutral" name="Neutral" stackId="sentiment" fill="#d1d5db" />
+            <Bar dataKey="negative" name="Negative" stackId="sentiment" fill="#ef4444" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Topics</p>
+          {topics.length === 0 ? (
+            <p className="text-sm text-gray-500">No questions, requests or complaints</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {topics.map(({ topic, count }) => (
+                <Badge key={topic} variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+                  {TOPIC_LABELS[topic]}: {count.toLocaleString()}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <p className="text-sm font-medium pt-2">Most used words</p>
+          <div className="flex flex-wrap gap-2">
+            {keywords.map(({ keyword, count, avg_score }) => (
+              <Badge
+                key={keyword}
+                variant="outline"
+                className={
+                  avg_score >= 0.2
+                    ? 'bg-green-50 text-green-700 border-green-200'
+                    : avg_score <= -0.2
+                      ? 'bg-red-50 text-red-700 border-red-200'
+                      : 'bg-gray-50 text-gray-700 border-gray-200'
+                }
+              >
+                {keyword} ({count})
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium">May need a reply</p>
+          {toReview.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing negative or unanswered stands out</p>
+          ) : (
+            <div className="space-y-2">
+              {toReview.map((comment) => (
+                <div key={comment.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                  <p className="text-gray-800">{comment.text}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    @{comment.author_username} • {new Date(comment.commented_at).toLocaleDateString()}
+                    {comment.topics.length > 0 && ` • ${comment.topics.map((topic) => TOPIC_LABELS[topic]).join(', ')}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,11 +5,14 @@ import { Button } from '@/components/ui/button';
 import {
   BarChart3,
   Users,
+  Activity,
   FileText,
   Clock,
   Hash,
+  AtSign,
   PieChart,
   Download,
+  History,
   Settings,
   LogOut,
   Menu,
@@ -36,11 +39,14 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
     { label: 'Overview', href: '/dashboard/overview', icon: <BarChart3 className="w-5 h-5" /> },
     { label: 'Connect IG', href: '/dashboard/connect-ig', icon: <Instagram className="w-5 h-5" /> },
     { label: 'Followers', href: '/dashboard/followers', icon: <Users className="w-5 h-5" /> },
+    { label: 'Follower Activity', href: '/dashboard/follower-activity', icon: <Activity className="w-5 h-5" /> },
     { label: 'Content', href: '/dashboard/content', icon: <FileText className="w-5 h-5" /> },
     { label: 'Hours', href: '/dashboard/hours', icon: <Clock className="w-5 h-5" /> },
     { label: 'Hashtags', href: '/dashboard/hashtags', icon: <Hash className="w-5 h-5" /> },
+    { label: 'Collaborations', href: '/dashboard/collaborations', icon: <AtSign className="w-5 h-5" /> },
     { label: 'Demographics', href: '/dashboard/demographics', icon: <PieChart className="w-5 h-5" /> },
     { label: 'Export', href: '/dashboard/export', icon: <Download className="w-5 h-5" /> },
+    { label: 'Sync Jobs', href: '/dashboard/jobs', icon: <History className="w-5 h-5" /> },
     { label: 'Settings', href: '/dashboard/settings', icon: <Settings className="w-5 h-5" /> },
   ];
 
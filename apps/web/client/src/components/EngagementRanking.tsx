@@ -0,0 +1,145 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Heart, MessageCircle, Sparkles, UserX } from 'lucide-react';
+import { PROSPECT_MIN_POSTS, type AccountEngagement } from '@/lib/engagement';
+
+// Accounts listed per ranking; the export has all of them
+const RANKING_SIZE = 25;
+
+function EngagementRow({ account, rank, trackedPosts }: { account: AccountEngagement; rank: number; trackedPosts: number }) {
+  return (
+    <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-3 min-w-0">
+        <span className="text-sm font-semibold text-gray-400 w-6">{rank}</span>
+        <a
+          href={`https://www.instagram.com/${account.account_username}/`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium hover:text-blue-600 truncate"
+        >
+          @{account.account_username}
+        </a>
+      </div>
+      <div className="flex items-center gap-4 text-sm text-gray-600 flex-shrink-0">
+        <span>{account.posts_engaged} of {trackedPosts} posts</span>
+        <span className="flex items-center gap-1">
+          <Heart className="w-3 h-3" />
+          {account.likes}
+        </span>
+        <span className="flex items-center gap-1">
+          <MessageCircle className="w-3 h-3" />
+          {account.comments}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Top fans, engaged non-followers (prospects) and followers who never engage, from the
+ * likes and comments collected on the profile's newest posts.
+ */
+export function EngagementRanking({
+  topFans,
+  prospects,
+  silentFollowers,
+  trackedPosts,
+}: {
+  topFans: AccountEngagement[];
+  prospects: AccountEngagement[];
+  silentFollowers: Array<{ id: string; follower_username: string }>;
+  trackedPosts: number;
+}) {
+  if (trackedPosts === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-center text-gray-600">
+          Likers and commenters are collected for your newest posts twice a day
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Heart className="w-5 h-5 text-pink-500" />
+              Top Fans
+            </CardTitle>
+            <CardDescription>Followers engaging with the most of your last {trackedPosts} posts</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {topFans.length === 0 ? (
+              <p className="text-center text-gray-600 py-4">No follower liked or commented yet</p>
+            ) : (
+              <div className="space-y-2">
+                {topFans.slice(0, RANKING_SIZE).map((account, index) => (
+                  <EngagementRow key={account.account_ig_id} account={account} rank={index + 1} trackedPosts={trackedPosts} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5 text-amber-500" />
+              Prospects
+            </CardTitle>
+            <CardDescription>
+              Accounts that don't follow you but engaged with {PROSPECT_MIN_POSTS}+ of your posts
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {prospects.length === 0 ? (
+              <p className="text-center text-gray-600 py-4">No repeat engagement from non-followers</p>
+            ) : (
+              <div className="space-y-2">
+                {prospects.slice(0, RANKING_SIZE).map((account, index) => (
+                  <EngagementRow key={account.account_ig_id} account={account} rank={index + 1} trackedPosts={trackedPosts} />
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserX className="w-5 h-5 text-gray-500" />
+            Never Engage ({silentFollowers.length.toLocaleString()})
+          </CardTitle>
+          <CardDescription>Followers without a like or comment on any of your last {trackedPosts} posts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {silentFollowers.length === 0 ? (
+            <p className="text-center text-gray-600 py-4">Every follower engaged at least once</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {silentFollowers.slice(0, 100).map((follower) => (
+                <a
+                  key={follower.id}
+                  href={`https://www.instagram.com/${follower.follower_username}/`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-2 py-1 text-sm bg-gray-50 border rounded-md hover:text-blue-600"
+                >
+                  @{follower.follower_username}
+                </a>
+              ))}
+              {silentFollowers.length > 100 && (
+                <span className="px-2 py-1 text-sm text-gray-500">
+                  and {(silentFollowers.length - 100).toLocaleString()} more in the export
+                </span>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
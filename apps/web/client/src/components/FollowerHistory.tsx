@@ -0,0 +1,197 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, History } from 'lucide-react';
+import { CHANGE_TYPE_LABELS, localDateKey, type FollowerChangeType } from '@/lib/followerActivity';
+import {
+  findSnapshotFor,
+  groupChanges,
+  type FollowerSetChange,
+  type FollowerSnapshotSummary,
+  type HistoricalFollower,
+} from '@/lib/followerHistory';
+
+// Accounts listed per set; the export has all of them
+const LIST_SIZE = 200;
+
+const CHANGE_COLORS: Record<FollowerChangeType, string> = {
+  NEW_FOLLOWER: 'text-green-700',
+  UNFOLLOWED: 'text-red-700',
+  STARTED_FOLLOWING: 'text-blue-700',
+  STOPPED_FOLLOWING: 'text-gray-700',
+};
+
+function AccountChips({ usernames }: { usernames: string[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {usernames.slice(0, LIST_SIZE).map((username) => (
+        <a
+          key={username}
+          href={`https://www.instagram.com/${username}/`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="px-2 py-1 text-sm bg-gray-50 border rounded-md hover:text-blue-600"
+        >
+          @{username}
+        </a>
+      ))}
+      {usernames.length > LIST_SIZE && (
+        <span className="px-2 py-1 text-sm text-gray-500">
+          and {(usernames.length - LIST_SIZE).toLocaleString()} more in the export
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Who followed the profile on any past date, and what changed between two dates, from the
+ * snapshot each followers sync leaves. A date is answered by the last sync on or before it.
+ */
+export function FollowerHistory({
+  snapshots,
+  date,
+  compareDate,
+  onDateChange,
+  onCompareDateChange,
+  followers,
+  changes,
+  isLoading,
+}: {
+  snapshots: FollowerSnapshotSummary[];
+  date: string;
+  compareDate: string;
+  onDateChange: (date: string) => void;
+  onCompareDateChange: (date: string) => void;
+  followers: HistoricalFollower[];
+  changes: FollowerSetChange[] | null;
+  isLoading: boolean;
+}) {
+  if (snapshots.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-center text-gray-600">
+          Every followers sync keeps a snapshot; history starts with the first one
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const firstDate = localDateKey(new Date(snapshots[0].captured_at));
+  const today = localDateKey(new Date());
+  const snapshot = findSnapshotFor(snapshots, date);
+  const compareSnapshot = compareDate ? findSnapshotFor(snapshots, compareDate) : null;
+  const [fromDate, toDate] = compareDate && compareDate < date ? [compareDate, date] : [date, compareDate];
+  const groups = changes ? groupChanges(changes) : null;
+  const followedBack = followers.filter((follower) => follower.is_following).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Browse History
+          </CardTitle>
+          <CardDescription>
+            Pick a date to see who followed you then, and optionally a second date to see what changed in between
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="history-date">Followers on</Label>
+              <Input
+                id="history-date"
+                type="date"
+                min={firstDate}
+                max={today}
+                value={date}
+                onChange={(e) => e.target.value && onDateChange(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="history-compare-date">Compare with (optional)</Label>
+              <Input
+                id="history-compare-date"
+                type="date"
+                min={firstDate}
+                max={today}
+                value={compareDate}
+                onChange={(e) => onCompareDateChange(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            {snapshot
+              ? `As of the sync on ${new Date(snapshot.captured_at).toLocaleString()}: ${snapshot.total_followers.toLocaleString()} followers, ${snapshot.total_following.toLocaleString()} following`
+              : `No followers sync on or before this date; history starts on ${new Date(`${firstDate}T00:00:00`).toLocaleDateString()}`}
+          </p>
+          {compareDate && !compareSnapshot && (
+            <p className="text-sm text-amber-700">
+              No followers sync on or before the comparison date, so there is nothing to compare with
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      ) : (
+        <>
+          {groups && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  Changes from {new Date(`${fromDate}T00:00:00`).toLocaleDateString()} to{' '}
+                  {new Date(`${toDate}T00:00:00`).toLocaleDateString()}
+                </CardTitle>
+                <CardDescription>Accounts that differ between the snapshots answering each date</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {changes!.length === 0 ? (
+                  <p className="text-center text-gray-600 py-4">No changes between these dates</p>
+                ) : (
+                  (Object.keys(groups) as FollowerChangeType[])
+                    .filter((type) => groups[type].length > 0)
+                    .map((type) => (
+                      <div key={type} className="space-y-2">
+                        <p className={`text-sm font-medium ${CHANGE_COLORS[type]}`}>
+                          {CHANGE_TYPE_LABELS[type]} ({groups[type].length.toLocaleString()})
+                        </p>
+                        <AccountChips usernames={groups[type].map((change) => change.follower_username)} />
+                      </div>
+                    ))
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {snapshot && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  Followers on {new Date(`${date}T00:00:00`).toLocaleDateString()}
+                  <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+                    {followers.length.toLocaleString()}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>{followedBack.toLocaleString()} of them you followed back at the time</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {followers.length === 0 ? (
+                  <p className="text-center text-gray-600 py-4">No followers match</p>
+                ) : (
+                  <AccountChips usernames={followers.map((follower) => follower.follower_username)} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
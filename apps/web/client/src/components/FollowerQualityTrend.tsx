@@ -0,0 +1,78 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  buildQualityTrend,
+  QUALITY_FLAG_LABELS,
+  type FollowerQualityFlag,
+  type FollowerQualitySnapshot,
+} from '@/lib/followerQuality';
+
+/**
+ * Audience quality over time: the share of followers scored as likely ghosts or low
+ * quality on each DERIVE_METRICS day, and which signals fired on the latest one.
+ */
+export function FollowerQualityTrend({ snapshots }: { snapshots: FollowerQualitySnapshot[] }) {
+  const trend = buildQualityTrend(snapshots);
+  const latest = snapshots.reduce<FollowerQualitySnapshot | null>(
+    (current, snapshot) => (!current || snapshot.date > current.date ? snapshot : current),
+    null
+  );
+  const methods = new Set(snapshots.map((snapshot) => snapshot.method));
+  const flagCounts = latest
+    ? (Object.entries(latest.flag_counts) as Array<[FollowerQualityFlag, number]>).sort((a, b) => b[1] - a[1])
+    : [];
+
+  if (!latest) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-center text-gray-600">
+          Followers are scored when metrics are derived after a followers sync
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audience Quality Over Time</CardTitle>
+        <CardDescription>
+          Share of your followers scored as likely ghosts or low quality ({latest.scored_followers.toLocaleString()} scored on{' '}
+          {new Date(`${latest.date}T00:00:00`).toLocaleDateString()})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {methods.size > 1 && (
+          <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            The scoring heuristics changed over this period, so earlier days aren't directly comparable
+          </div>
+        )}
+
+        {trend.length > 1 && (
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+              <YAxis unit="%" tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+              <Legend />
+              <Line type="monotone" dataKey="ghost_share" name="Likely ghosts" stroke="#ef4444" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="low_quality_share" name="Low quality" stroke="#f59e0b" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {flagCounts.map(([flag, count]) => (
+            <Badge key={flag} variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
+              {QUALITY_FLAG_LABELS[flag]}: {count.toLocaleString()}
+            </Badge>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, Copy, AlertTriangle } from 'lucide-react';
+import {
+  MIN_TAG_USES,
+  SET_MIN_SIZE,
+  type HashtagRecommendations as Recommendations,
+  type SaturationWarning,
+} from '@/lib/hashtagRecommendations';
+
+const SATURATION_LABELS: Record<SaturationWarning, string> = {
+  OVERUSED: 'Overused',
+  FADING: 'Fading',
+};
+
+const SATURATION_HINTS: Record<SaturationWarning, string> = {
+  OVERUSED: 'On so many of your posts that it no longer sets any of them apart',
+  FADING: 'Your recent posts with it do clearly worse than the earlier ones',
+};
+
+function formatLift(lift: number): string {
+  return `${lift.toFixed(1)}×`;
+}
+
+/**
+ * "Try these" hashtag sets per topic, the tags lifting engagement most, tags to rest, and
+ * the pairs used together most, all from the account's own posts.
+ */
+export function HashtagRecommendations({ recommendations }: { recommendations: Recommendations }) {
+  const [copiedTopic, setCopiedTopic] = useState<string | null>(null);
+  const { stats, pairs, sets } = recommendations;
+
+  const performers = stats.filter((stat) => stat.uses >= MIN_TAG_USES && !stat.saturation).slice(0, 10);
+  const saturated = stats.filter((stat) => stat.saturation).sort((a, b) => b.uses - a.uses);
+
+  const copySet = async (topic: string, tags: string[]) => {
+    await navigator.clipboard.writeText(tags.join(' '));
+    setCopiedTopic(topic);
+    setTimeout(() => setCopiedTopic((current) => (current === topic ? null : current)), 2000);
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Try These Sets</CardTitle>
+          <CardDescription>
+            Hashtags your posts use together, grouped by topic and ordered by how much they lift engagement
+            over your median post ({Math.round(recommendations.median_engagement).toLocaleString()} likes + comments)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sets.length === 0 ? (
+            <p className="text-center text-gray-600 py-8">
+              Not enough history yet: a set needs {SET_MIN_SIZE} hashtags you have used at least {MIN_TAG_USES} times
+              on the same topic.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {sets.map((set) => (
+                <div key={set.topic} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-semibold">Around {set.topic}</p>
+                      <p className="text-sm text-gray-600">
+                        {set.tags.length} hashtags · {formatLift(set.lift)} your median engagement on average
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => copySet(set.topic, set.tags)}>
+                      {copiedTopic === set.topic ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                      {copiedTopic === set.topic ? 'Copied' : 'Copy'}
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {set.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Highest Lift</CardTitle>
+            <CardDescription>Median engagement of posts with the hashtag, against your median post</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {performers.length === 0 ? (
+              <p className="text-center text-gray-600 py-4">No hashtag used at least {MIN_TAG_USES} times yet</p>
+            ) : (
+              <div className="space-y-2">
+                {performers.map((stat) => (
+                  <div key={stat.hashtag} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                    <span className="font-medium">{stat.hashtag}</span>
+                    <div className="flex items-center gap-3 text-sm">
+                      <span className="text-gray-500">{stat.uses} posts</span>
+                      <span className={`font-semibold ${stat.lift >= 1 ? 'text-green-600' : 'text-gray-600'}`}>
+                        {formatLift(stat.lift)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Give These a Rest</CardTitle>
+            <CardDescription>Overused or fading hashtags, left out of the suggested sets</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {saturated.length === 0 ? (
+              <p className="text-center text-gray-600 py-4">No saturated hashtags</p>
+            ) : (
+              <div className="space-y-2">
+                {saturated.slice(0, 10).map((stat) => (
+                  <div
+                    key={stat.hashtag}
+                    className="flex items-center justify-between p-2 bg-amber-50 rounded-lg"
+                    title={SATURATION_HINTS[stat.saturation!]}
+                  >
+                    <div className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 text-amber-600" />
+                      <span className="font-medium">{stat.hashtag}</span>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm">
+                      <span className="text-gray-500">on {Math.round(stat.usage_share * 100)}% of posts</span>
+                      <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                        {SATURATION_LABELS[stat.saturation!]}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {pairs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Often Used Together</CardTitle>
+            <CardDescription>Pairs sharing the most posts, with the lift of the posts that have both</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {pairs.slice(0, 10).map((pair) => (
+                <div key={pair.tags.join(' ')} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                  <span className="font-medium">{pair.tags.join(' + ')}</span>
+                  <div className="flex items-center gap-3 text-sm">
+                    <span className="text-gray-500">{pair.together} posts</span>
+                    <span className={`font-semibold ${pair.lift >= 1 ? 'text-green-600' : 'text-gray-600'}`}>
+                      {formatLift(pair.lift)}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
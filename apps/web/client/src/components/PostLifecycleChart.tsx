@@ -0,0 +1,84 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import {
+  formatAge,
+  LIFECYCLE_MAX_HOURS,
+  type AverageLifecyclePoint,
+  type LifecycleMetric,
+  type LifecyclePoint,
+} from '@/lib/postLifecycle';
+
+const AVERAGE_COLORS: Record<string, string> = {
+  IMAGE: '#3b82f6',
+  VIDEO: '#ef4444',
+  CAROUSEL: '#10b981',
+};
+
+const AGE_TICKS = [0, 24, 48, 72, 96, 120, 144, 168];
+
+export interface LifecycleSeries {
+  id: string;
+  label: string;
+  points: LifecyclePoint[];
+}
+
+/**
+ * Likes or comments against hours since publish: one bold average curve per media type,
+ * and thin curves for individual posts.
+ */
+export function PostLifecycleChart({
+  averages,
+  posts,
+  metric,
+}: {
+  averages: Array<{ mediaType: string; points: AverageLifecyclePoint[] }>;
+  posts: LifecycleSeries[];
+  metric: LifecycleMetric;
+}) {
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <LineChart>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="hours"
+          type="number"
+          domain={[0, LIFECYCLE_MAX_HOURS]}
+          ticks={AGE_TICKS}
+          tickFormatter={formatAge}
+          tick={{ fontSize: 12 }}
+          allowDuplicatedCategory={false}
+        />
+        <YAxis tick={{ fontSize: 12 }} />
+        <Tooltip
+          formatter={(value) => Number(value).toLocaleString()}
+          labelFormatter={(label) => `${formatAge(Number(label))} after publishing`}
+        />
+        <Legend />
+        {posts.map((post) => (
+          <Line
+            key={post.id}
+            data={post.points}
+            dataKey={metric}
+            name={post.label}
+            type="monotone"
+            stroke="#9ca3af"
+            strokeWidth={1}
+            dot={{ r: 2 }}
+            legendType="none"
+          />
+        ))}
+        {averages.map(({ mediaType, points }) => (
+          <Line
+            key={mediaType}
+            data={points}
+            dataKey={metric}
+            name={`Average ${mediaType.toLowerCase()}`}
+            type="monotone"
+            stroke={AVERAGE_COLORS[mediaType] || '#6366f1'}
+            strokeWidth={3}
+            dot={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
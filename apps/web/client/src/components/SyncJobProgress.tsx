@@ -0,0 +1,100 @@
+import { X } from 'lucide-react';
+import type { LiveSyncJob } from '@/hooks/useSyncJobs';
+
+const JOB_LABELS: Record<string, string> = {
+  LOGIN: 'Login',
+  RECONNECT: 'Reconnect',
+  SYNC_PROFILE: 'Profile',
+  SYNC_FOLLOWERS: 'Followers',
+  SYNC_MEDIA: 'Media',
+  SYNC_INTERACTIONS: 'Likers & commenters',
+  SYNC_STORIES: 'Stories',
+  DERIVE_METRICS: 'Metrics',
+};
+
+const BAR_COLORS: Record<string, string> = {
+  COMPLETED: 'bg-green-500',
+  FAILED: 'bg-red-500',
+  DEAD: 'bg-red-500',
+  SKIPPED: 'bg-gray-400',
+  CANCELLED: 'bg-gray-400',
+};
+
+function getPercent(job: LiveSyncJob): number | null {
+  if (job.status === 'PENDING') return 0;
+  if (job.status !== 'RUNNING') return 100;
+  const progress = job.progress;
+  if (!progress?.total_items) return null;
+  return Math.min(100, Math.round((progress.processed_items / progress.total_items) * 100));
+}
+
+function describeProgress(job: LiveSyncJob): string {
+  if (job.status === 'PENDING') {
+    // Deferred by the worker until the account's Instagram request budget refills
+    return job.error_message?.startsWith('JOB_DEFERRED') ? 'Paused (rate limit)' : 'Waiting';
+  }
+  if (job.status === 'COMPLETED') return `Done • ${job.processed_items.toLocaleString()} items`;
+  if (job.status !== 'RUNNING') return job.status.toLowerCase();
+  if (job.cancel_requested_at) return 'Cancelling...';
+
+  const progress = job.progress;
+  if (!progress) return 'Starting...';
+  const total = progress.total_items !== null ? ` / ${progress.total_items.toLocaleString()}` : '';
+  return `${progress.phase} • ${progress.processed_items.toLocaleString()}${total}`;
+}
+
+/**
+ * One progress bar per sync job, fed by `useSyncJobs`.
+ * Running jobs without an estimated total show an indeterminate (pulsing) bar.
+ * With `onCancel`, unfinished jobs get a cancel button.
+ */
+export function SyncJobProgress({
+  jobs,
+  onCancel,
+}: {
+  jobs: LiveSyncJob[];
+  onCancel?: (job: LiveSyncJob) => void;
+}) {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {jobs.map((job) => {
+        const percent = getPercent(job);
+        const cancellable = !!onCancel
+          && (job.status === 'PENDING' || job.status === 'RUNNING')
+          && !job.cancel_requested_at;
+        return (
+          <div key={job.id} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium">{JOB_LABELS[job.job_type] || job.job_type}</span>
+              <span className="flex items-center gap-2 text-gray-600">
+                {describeProgress(job)}
+                {cancellable && (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(job)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Cancel job"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            </div>
+            <div className="h-2 w-full overflow-hidden rounded-full bg-gray-200">
+              {percent === null ? (
+                <div className="h-full w-full animate-pulse bg-blue-300" />
+              ) : (
+                <div
+                  className={`h-full transition-all ${BAR_COLORS[job.status] || 'bg-blue-500'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
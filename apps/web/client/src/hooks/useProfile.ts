@@ -12,6 +12,9 @@ interface Profile {
   profile_pic_url: string | null;
   is_verified: boolean;
   connection_state: 'CONNECTED' | 'EXPIRED' | 'NEEDS_2FA' | 'DISCONNECTED';
+  connector: 'SCRAPER' | 'GRAPH_API';
+  account_type: 'PERSONAL' | 'BUSINESS' | 'CREATOR' | null;
+  timezone: string;
   last_sync_at: string | null;
   created_at: string;
   updated_at: string;
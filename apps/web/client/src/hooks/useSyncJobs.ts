@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+
+export interface JobProgress {
+  phase: string;
+  processed_items: number;
+  total_items: number | null;
+  cursor: string | null;
+  updated_at: string;
+}
+
+export interface LiveSyncJob {
+  id: string;
+  job_type: string;
+  status: string;
+  processed_items: number;
+  error_message: string | null;
+  cancel_requested_at: string | null;
+  progress: JobProgress | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+/**
+ * Queued and running jobs of a profile, kept up to date through Supabase Realtime.
+ * Jobs that finish while the page is open stay in the list with their final status.
+ * @param onJobChange Called for every job change received, e.g. to refetch the profile.
+ */
+export function useSyncJobs(
+  profileId: string | null | undefined,
+  onJobChange?: (job: LiveSyncJob) => void
+) {
+  const queryClient = useQueryClient();
+  const onJobChangeRef = useRef(onJobChange);
+  onJobChangeRef.current = onJobChange;
+
+  const query = useQuery({
+    queryKey: ['sync_jobs', 'live', profileId],
+    queryFn: async () => {
+      if (!profileId) return [];
+
+      const { data, error } = await supabase
+        .from('sync_jobs')
+        .select('id, job_type, status, processed_items, error_message, cancel_requested_at, progress, created_at, finished_at')
+        .eq('profile_id', profileId)
+        .in('status', ['PENDING', 'RUNNING'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as LiveSyncJob[];
+    },
+    enabled: !!profileId,
+  });
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const queryKey = ['sync_jobs', 'live', profileId];
+    const channel = supabase
+      .channel(`sync_jobs:${profileId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sync_jobs', filter: `profile_id=eq.${profileId}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const deletedId = (payload.old as Partial<LiveSyncJob>).id;
+            queryClient.setQueryData<LiveSyncJob[]>(queryKey, (jobs = []) =>
+              jobs.filter((job) => job.id !== deletedId)
+            );
+            return;
+          }
+
+          const changed = payload.new as LiveSyncJob;
+          queryClient.setQueryData<LiveSyncJob[]>(queryKey, (jobs = []) =>
+            jobs.some((job) => job.id === changed.id)
+              ? jobs.map((job) => (job.id === changed.id ? changed : job))
+              : [...jobs, changed]
+          );
+          onJobChangeRef.current?.(changed);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profileId, queryClient]);
+
+  return query;
+}
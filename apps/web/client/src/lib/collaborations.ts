@@ -0,0 +1,113 @@
+/**
+ * Collaborator analytics from `media.mentions`: which accounts the profile tags, how posts
+ * tagging each one do against the posts that don't, and how each account relates to the
+ * profile in the `followers` table.
+ */
+
+export interface MentionPost {
+  mentions: string[] | null;
+  likes_count: number;
+  comments_count: number;
+  timestamp: string;
+}
+
+export type Relationship = 'MUTUAL' | 'FOLLOWER' | 'FOLLOWING' | 'NONE';
+
+export interface FollowerRelation {
+  follower_username: string;
+  is_follower: boolean;
+  is_following: boolean;
+}
+
+export interface Collaborator {
+  username: string;
+  posts: number;
+  last_mentioned: string;
+  avg_engagement: number;
+  /** Average engagement of the posts not mentioning the account */
+  avg_engagement_without: number;
+  /** avg_engagement / avg_engagement_without; null when every post mentions the account */
+  lift: number | null;
+}
+
+export interface CollaborationSummary {
+  post_count: number;
+  posts_with_mentions: number;
+  avg_engagement_with_mentions: number;
+  avg_engagement_without_mentions: number;
+  collaborators: Collaborator[];
+}
+
+function engagementOf(post: MentionPost): number {
+  return (post.likes_count || 0) + (post.comments_count || 0);
+}
+
+export function normalizeUsername(username: string): string {
+  return username.replace(/^@/, '').toLowerCase();
+}
+
+/**
+ * Aggregates mentions per account, most mentioned first. Averages (not medians) keep the
+ * "without" side a simple subtraction from the account-wide totals.
+ */
+export function buildCollaborations(posts: MentionPost[]): CollaborationSummary {
+  const totalEngagement = posts.reduce((sum, post) => sum + engagementOf(post), 0);
+  const accounts = new Map<string, { posts: number; engagement: number; last: string }>();
+  let postsWithMentions = 0;
+  let engagementWithMentions = 0;
+
+  for (const post of posts) {
+    const mentions = Array.from(new Set((post.mentions || []).map(normalizeUsername))).filter(Boolean);
+    if (mentions.length === 0) continue;
+
+    postsWithMentions++;
+    engagementWithMentions += engagementOf(post);
+
+    for (const username of mentions) {
+      const account = accounts.get(username) || { posts: 0, engagement: 0, last: post.timestamp };
+      account.posts++;
+      account.engagement += engagementOf(post);
+      if (post.timestamp > account.last) account.last = post.timestamp;
+      accounts.set(username, account);
+    }
+  }
+
+  const collaborators = Array.from(accounts.entries()).map(([username, account]) => {
+    const withoutCount = posts.length - account.posts;
+    const average = account.engagement / account.posts;
+    const averageWithout = withoutCount > 0 ? (totalEngagement - account.engagement) / withoutCount : 0;
+    return {
+      username,
+      posts: account.posts,
+      last_mentioned: account.last,
+      avg_engagement: average,
+      avg_engagement_without: averageWithout,
+      lift: averageWithout > 0 ? average / averageWithout : null,
+    };
+  });
+  collaborators.sort((a, b) => b.posts - a.posts || b.last_mentioned.localeCompare(a.last_mentioned));
+
+  const withoutMentions = posts.length - postsWithMentions;
+  return {
+    post_count: posts.length,
+    posts_with_mentions: postsWithMentions,
+    avg_engagement_with_mentions: postsWithMentions > 0 ? engagementWithMentions / postsWithMentions : 0,
+    avg_engagement_without_mentions: withoutMentions > 0 ? (totalEngagement - engagementWithMentions) / withoutMentions : 0,
+    collaborators,
+  };
+}
+
+/**
+ * Relationship of each mentioned account, keyed by normalized username; accounts missing
+ * from the followers table are NONE.
+ */
+export function buildRelationships(relations: FollowerRelation[]): Map<string, Relationship> {
+  const relationships = new Map<string, Relationship>();
+  for (const relation of relations) {
+    const relationship: Relationship = relation.is_follower && relation.is_following
+      ? 'MUTUAL'
+      : relation.is_follower ? 'FOLLOWER' : relation.is_following ? 'FOLLOWING' : 'NONE';
+    relationships.set(normalizeUsername(relation.follower_username), relationship);
+  }
+  return relationships;
+}
@@ -0,0 +1,154 @@
+/**
+ * Sentiment and topic summaries of the comments SYNC_INTERACTIONS saves on the newest posts,
+ * each classified offline by the worker (Portuguese and English lexicon).
+ */
+
+export type CommentSentiment = 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE';
+
+export type CommentTopic = 'QUESTION' | 'PURCHASE_INTENT' | 'LOCATION' | 'REQUEST' | 'COMPLAINT';
+
+export interface CommentRecord {
+  id: string;
+  media_id: string;
+  author_username: string;
+  text: string;
+  commented_at: string;
+  language: 'pt' | 'en' | null;
+  sentiment: CommentSentiment;
+  /** PostgREST may return numeric columns as strings. */
+  sentiment_score: number | string;
+  topics: CommentTopic[];
+  keywords: string[];
+}
+
+export interface SentimentSummary {
+  total: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  /** Mean classifier score, -1 to 1. */
+  avg_score: number;
+  /** Share of positive minus share of negative comments, -100 to 100. */
+  net_sentiment: number;
+}
+
+export interface SentimentPeriod {
+  /** Monday of the week, YYYY-MM-DD in local time. */
+  week: string;
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+export const SENTIMENT_LABELS: Record<CommentSentiment, string> = {
+  POSITIVE: 'Positive',
+  NEUTRAL: 'Neutral',
+  NEGATIVE: 'Negative',
+};
+
+export const TOPIC_LABELS: Record<CommentTopic, string> = {
+  QUESTION: 'Questions',
+  PURCHASE_INTENT: 'Purchase intent',
+  LOCATION: 'Location',
+  REQUEST: 'Content requests',
+  COMPLAINT: 'Complaints',
+};
+
+export function summarizeSentiment(comments: CommentRecord[]): SentimentSummary {
+  const summary = { total: comments.length, positive: 0, neutral: 0, negative: 0, avg_score: 0, net_sentiment: 0 };
+  if (comments.length === 0) return summary;
+
+  let scoreSum = 0;
+  for (const comment of comments) {
+    if (comment.sentiment === 'POSITIVE') summary.positive++;
+    else if (comment.sentiment === 'NEGATIVE') summary.negative++;
+    else summary.neutral++;
+    scoreSum += Number(comment.sentiment_score);
+  }
+
+  summary.avg_score = scoreSum / comments.length;
+  summary.net_sentiment = ((summary.positive - summary.negative) / comments.length) * 100;
+  return summary;
+}
+
+/**
+ * One summary per post, keyed by media id.
+ */
+export function summarizeByPost(comments: CommentRecord[]): Map<string, SentimentSummary> {
+  const byPost = new Map<string, CommentRecord[]>();
+  for (const comment of comments) {
+    const postComments = byPost.get(comment.media_id) || [];
+    postComments.push(comment);
+    byPost.set(comment.media_id, postComments);
+  }
+  return new Map(Array.from(byPost.entries()).map(([mediaId, postComments]) => [mediaId, summarizeSentiment(postComments)]));
+}
+
+function weekStart(iso: string): string {
+  const date = new Date(iso);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Comments per sentiment for each week with comments, oldest first.
+ */
+export function buildSentimentTrend(comments: CommentRecord[]): SentimentPeriod[] {
+  const weeks = new Map<string, SentimentPeriod>();
+  for (const comment of comments) {
+    const week = weekStart(comment.commented_at);
+    const period = weeks.get(week) || { week, positive: 0, neutral: 0, negative: 0 };
+    if (comment.sentiment === 'POSITIVE') period.positive++;
+    else if (comment.sentiment === 'NEGATIVE') period.negative++;
+    else period.neutral++;
+    weeks.set(week, period);
+  }
+  return Array.from(weeks.values()).sort((a, b) => a.week.localeCompare(b.week));
+}
+
+/**
+ * Comments per topic, most frequent first. A comment can touch several topics.
+ */
+export function countTopics(comments: CommentRecord[]): Array<{ topic: CommentTopic; count: number }> {
+  const counts = new Map<CommentTopic, number>();
+  for (const comment of comments) {
+    for (const topic of comment.topics || []) counts.set(topic, (counts.get(topic) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([topic, count]) => ({ topic, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Words used across the most comments, with the mean score of the comments using them.
+ */
+export function topKeywords(comments: CommentRecord[], limit = 15): Array<{ keyword: string; count: number; avg_score: number }> {
+  const keywords = new Map<string, { count: number; scoreSum: number }>();
+  for (const comment of comments) {
+    for (const keyword of comment.keywords || []) {
+      const entry = keywords.get(keyword) || { count: 0, scoreSum: 0 };
+      entry.count++;
+      entry.scoreSum += Number(comment.sentiment_score);
+      keywords.set(keyword, entry);
+    }
+  }
+  return Array.from(keywords.entries())
+    .map(([keyword, entry]) => ({ keyword, count: entry.count, avg_score: entry.scoreSum / entry.count }))
+    .sort((a, b) => b.count - a.count || a.keyword.localeCompare(b.keyword))
+    .slice(0, limit);
+}
+
+/**
+ * Comments that may need a reply: complaints and questions first, then the most negative.
+ */
+export function findCommentsToReview(comments: CommentRecord[], limit = 5): CommentRecord[] {
+  const priority = (comment: CommentRecord) =>
+    (comment.topics?.includes('COMPLAINT') ? 2 : 0) +
+    (comment.topics?.includes('QUESTION') || comment.topics?.includes('PURCHASE_INTENT') ? 1 : 0);
+
+  return comments
+    .filter((comment) => comment.sentiment === 'NEGATIVE' || priority(comment) > 0)
+    .sort((a, b) => priority(b) - priority(a) || Number(a.sentiment_score) - Number(b.sentiment_score))
+    .slice(0, limit);
+}
@@ -0,0 +1,147 @@
+/**
+ * Audience demographics snapshots built from audience_demographics rows: one snapshot per
+ * source (Graph API or estimated from the followers list) and day.
+ */
+
+export type DemographicsSource = 'GRAPH_API' | 'ESTIMATED';
+export type DemographicsBreakdown = 'age' | 'gender' | 'city' | 'country' | 'language';
+
+export interface DemographicsRow {
+  date: string;
+  breakdown: DemographicsBreakdown;
+  dimension: string;
+  value: number;
+  source: DemographicsSource;
+  sample_size: number | null;
+  method: string | null;
+}
+
+export interface DemographicsShare {
+  dimension: string;
+  value: number;
+  /** Percentage of the snapshot's sample (estimates) or of the breakdown's total (Graph API). */
+  share: number;
+}
+
+export interface DemographicsSnapshot {
+  source: DemographicsSource;
+  date: string;
+  method: string | null;
+  sample_size: number | null;
+  breakdowns: Partial<Record<DemographicsBreakdown, DemographicsShare[]>>;
+}
+
+export interface ShareChange {
+  dimension: string;
+  share: number;
+  previousShare: number;
+  /** Percentage points */
+  change: number;
+}
+
+const GENDER_LABELS: Record<string, string> = { M: 'Male', F: 'Female', U: 'Unknown' };
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  pt: 'Portuguese',
+  es: 'Spanish',
+  en: 'English',
+  de: 'German',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+  ru: 'Russian',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  el: 'Greek',
+  th: 'Thai',
+  hi: 'Hindi',
+};
+
+/**
+ * Groups rows into snapshots, newest first. Shares are rounded to one decimal.
+ */
+export function groupSnapshots(rows: DemographicsRow[]): DemographicsSnapshot[] {
+  const snapshots = new Map<string, DemographicsSnapshot>();
+
+  for (const row of rows) {
+    const key = `${row.source}|${row.date}`;
+    const snapshot = snapshots.get(key) || {
+      source: row.source,
+      date: row.date,
+      method: row.method,
+      sample_size: row.sample_size,
+      breakdowns: {},
+    };
+    const shares = snapshot.breakdowns[row.breakdown] || [];
+    shares.push({ dimension: row.dimension, value: row.value, share: 0 });
+    snapshot.breakdowns[row.breakdown] = shares;
+    snapshots.set(key, snapshot);
+  }
+
+  snapshots.forEach((snapshot) => {
+    Object.values(snapshot.breakdowns).forEach((shares) => {
+      const total = snapshot.sample_size || shares.reduce((sum, item) => sum + item.value, 0);
+      shares.forEach((item) => {
+        item.share = total > 0 ? Math.round((item.value / total) * 1000) / 10 : 0;
+      });
+      shares.sort((a, b) => b.value - a.value);
+    });
+  });
+
+  return Array.from(snapshots.values()).sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Share of each dimension now against an earlier snapshot, biggest movers first.
+ */
+export function compareSnapshots(
+  current: DemographicsSnapshot,
+  previous: DemographicsSnapshot,
+  breakdown: DemographicsBreakdown
+): ShareChange[] {
+  const before = new Map((previous.breakdowns[breakdown] || []).map((item) => [item.dimension, item.share]));
+  const now = new Map((current.breakdowns[breakdown] || []).map((item) => [item.dimension, item.share]));
+  const dimensions = new Set([...Array.from(before.keys()), ...Array.from(now.keys())]);
+
+  return Array.from(dimensions)
+    .map((dimension) => {
+      const share = now.get(dimension) || 0;
+      const previousShare = before.get(dimension) || 0;
+      return { dimension, share, previousShare, change: Math.round((share - previousShare) * 10) / 10 };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
+
+/**
+ * Share of the top dimensions (by their latest share) in each snapshot, oldest first, as
+ * chart rows keyed by dimension.
+ */
+export function buildShareTrend(
+  snapshots: DemographicsSnapshot[],
+  breakdown: DemographicsBreakdown,
+  limit = 5
+): { dimensions: string[]; rows: Array<Record<string, number | string>> } {
+  const latest = snapshots[0]?.breakdowns[breakdown] || [];
+  const dimensions = latest.slice(0, limit).map((item) => item.dimension);
+
+  const rows = [...snapshots].reverse().map((snapshot) => {
+    const row: Record<string, number | string> = { date: snapshot.date };
+    const shares = snapshot.breakdowns[breakdown] || [];
+    dimensions.forEach((dimension) => {
+      row[dimension] = shares.find((item) => item.dimension === dimension)?.share || 0;
+    });
+    return row;
+  });
+
+  return { dimensions, rows };
+}
+
+/**
+ * Readable label of a dimension: gender codes and language codes are spelled out.
+ */
+export function formatDimension(breakdown: DemographicsBreakdown, dimension: string): string {
+  if (dimension === 'unknown') return 'Unknown';
+  if (breakdown === 'gender') return GENDER_LABELS[dimension] || dimension;
+  if (breakdown === 'language') return LANGUAGE_LABELS[dimension] || dimension.toUpperCase();
+  return dimension;
+}
@@ -0,0 +1,50 @@
+/**
+ * Who engages with the profile's posts, from the account_engagement view (likes and
+ * comments collected by SYNC_INTERACTIONS on the newest posts): top fans among followers,
+ * followers who never engage, and engaged accounts that don't follow (prospects).
+ */
+
+export interface AccountEngagement {
+  account_ig_id: string;
+  account_username: string;
+  likes: number;
+  comments: number;
+  posts_engaged: number;
+  last_interaction_at: string | null;
+  is_follower: boolean;
+}
+
+export interface FollowerIdentity {
+  follower_ig_id: string;
+  follower_username: string;
+  is_follower: boolean;
+}
+
+// A non-follower has to engage with at least this many posts to count as a prospect
+export const PROSPECT_MIN_POSTS = 2;
+
+/**
+ * Most engaged first: posts engaged with, then comments, then likes. Engaging across
+ * many posts says more about a fan than many comments on a single one.
+ */
+function compareEngagement(a: AccountEngagement, b: AccountEngagement): number {
+  return b.posts_engaged - a.posts_engaged || b.comments - a.comments || b.likes - a.likes;
+}
+
+export function rankTopFans(engagement: AccountEngagement[]): AccountEngagement[] {
+  return engagement.filter((account) => account.is_follower).sort(compareEngagement);
+}
+
+export function rankProspects(engagement: AccountEngagement[]): AccountEngagement[] {
+  return engagement
+    .filter((account) => !account.is_follower && account.posts_engaged >= PROSPECT_MIN_POSTS)
+    .sort(compareEngagement);
+}
+
+/**
+ * Current followers without a single like or comment on the tracked posts.
+ */
+export function findSilentFollowers<T extends FollowerIdentity>(followers: T[], engagement: AccountEngagement[]): T[] {
+  const engaged = new Set(engagement.map((account) => account.account_ig_id));
+  return followers.filter((follower) => follower.is_follower && !engaged.has(follower.follower_ig_id));
+}
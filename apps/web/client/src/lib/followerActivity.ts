@@ -0,0 +1,90 @@
+/**
+ * Follower activity from the follower_changes events recorded by every SYNC_FOLLOWERS:
+ * daily gained/lost counts and each account's follow history.
+ */
+
+export type FollowerChangeType = 'NEW_FOLLOWER' | 'UNFOLLOWED' | 'STARTED_FOLLOWING' | 'STOPPED_FOLLOWING';
+
+export interface FollowerChange {
+  id: string;
+  follower_ig_id: string;
+  follower_username: string;
+  change_type: FollowerChangeType;
+  detected_at: string;
+}
+
+export interface DailyActivity {
+  date: string;
+  gained: number;
+  /** Negative, so it charts below the axis */
+  lost: number;
+  net: number;
+  started_following: number;
+  stopped_following: number;
+}
+
+export const CHANGE_TYPE_LABELS: Record<FollowerChangeType, string> = {
+  NEW_FOLLOWER: 'Followed you',
+  UNFOLLOWED: 'Unfollowed you',
+  STARTED_FOLLOWING: 'You followed',
+  STOPPED_FOLLOWING: 'You unfollowed',
+};
+
+/**
+ * YYYY-MM-DD in the browser's timezone.
+ */
+export function localDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * One entry per day of the last `days` days (today included), days without events at 0.
+ */
+export function buildDailyActivity(changes: FollowerChange[], days: number): DailyActivity[] {
+  const byDate = new Map<string, DailyActivity>();
+  const today = new Date();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = localDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset));
+    byDate.set(date, { date, gained: 0, lost: 0, net: 0, started_following: 0, stopped_following: 0 });
+  }
+
+  for (const change of changes) {
+    const day = byDate.get(localDateKey(new Date(change.detected_at)));
+    if (!day) continue;
+
+    if (change.change_type === 'NEW_FOLLOWER') day.gained++;
+    else if (change.change_type === 'UNFOLLOWED') day.lost--;
+    else if (change.change_type === 'STARTED_FOLLOWING') day.started_following++;
+    else if (change.change_type === 'STOPPED_FOLLOWING') day.stopped_following++;
+    day.net = day.gained + day.lost;
+  }
+
+  return Array.from(byDate.values());
+}
+
+/**
+ * Sentence summing up how an account followed and unfollowed the profile, e.g. "Followed
+ * you on 3/1/2025, unfollowed on 4/2/2025, refollowed on 5/9/2025". `changes` must be
+ * oldest first.
+ */
+export function describeFollowHistory(changes: FollowerChange[]): string {
+  const parts: string[] = [];
+  let hasFollowed = false;
+
+  for (const change of changes) {
+    const date = new Date(change.detected_at).toLocaleDateString();
+    if (change.change_type === 'NEW_FOLLOWER') {
+      parts.push(`${hasFollowed ? 'refollowed' : 'followed you'} on ${date}`);
+      hasFollowed = true;
+    } else if (change.change_type === 'UNFOLLOWED') {
+      parts.push(`unfollowed on ${date}`);
+      hasFollowed = true;
+    }
+  }
+
+  if (parts.length === 0) return '';
+  const sentence = parts.join(', ');
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
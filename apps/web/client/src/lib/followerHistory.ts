@@ -0,0 +1,74 @@
+/**
+ * Follower sets at past dates, rebuilt from the follower and following ids every
+ * SYNC_FOLLOWERS stores in followers_snapshots (followers_at and followers_diff functions).
+ */
+
+import type { FollowerChangeType } from '@/lib/followerActivity';
+
+export interface FollowerSnapshotSummary {
+  captured_at: string;
+  total_followers: number;
+  total_following: number;
+}
+
+export interface HistoricalFollower {
+  snapshot_captured_at: string;
+  follower_ig_id: string;
+  follower_username: string;
+  /** Only known for accounts still in followers. */
+  follower_name: string | null;
+  follower_pic_url: string | null;
+  /** Followed back by the profile in that snapshot. */
+  is_following: boolean;
+}
+
+export interface FollowerSetChange {
+  change_type: FollowerChangeType;
+  follower_ig_id: string;
+  follower_username: string;
+  from_captured_at: string;
+  to_captured_at: string;
+}
+
+/**
+ * Last instant of a YYYY-MM-DD day in the browser's timezone, as ISO: a date's state is
+ * the one left by the last sync of that day.
+ */
+export function endOfLocalDay(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day, 23, 59, 59, 999).toISOString();
+}
+
+/**
+ * The snapshot that answers for a day: the latest captured by its end. Null before the
+ * first snapshot. `snapshots` must be sorted oldest first.
+ */
+export function findSnapshotFor(
+  snapshots: FollowerSnapshotSummary[],
+  dateKey: string
+): FollowerSnapshotSummary | null {
+  const end = endOfLocalDay(dateKey);
+  let found: FollowerSnapshotSummary | null = null;
+  for (const snapshot of snapshots) {
+    if (new Date(snapshot.captured_at).toISOString() > end) break;
+    found = snapshot;
+  }
+  return found;
+}
+
+/**
+ * Changes by type, each list sorted by username.
+ */
+export function groupChanges(changes: FollowerSetChange[]): Record<FollowerChangeType, FollowerSetChange[]> {
+  const groups: Record<FollowerChangeType, FollowerSetChange[]> = {
+    NEW_FOLLOWER: [],
+    UNFOLLOWED: [],
+    STARTED_FOLLOWING: [],
+    STOPPED_FOLLOWING: [],
+  };
+  for (const change of changes) groups[change.change_type].push(change);
+  for (const list of Object.values(groups)) {
+    list.sort((a, b) => a.follower_username.localeCompare(b.follower_username));
+  }
+  return groups;
+}
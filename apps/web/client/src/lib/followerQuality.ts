@@ -0,0 +1,83 @@
+/**
+ * Labels and explanations for the ghost/bot scores DERIVE_METRICS saves on each follower,
+ * and the audience quality history kept in follower_quality_snapshots.
+ */
+
+export type FollowerQualityFlag =
+  | 'NO_PROFILE_PIC'
+  | 'DIGIT_HEAVY_USERNAME'
+  | 'NO_DISPLAY_NAME'
+  | 'PRIVATE_MASS_FOLLOWING'
+  | 'NO_INTERACTIONS';
+
+export type FollowerQualityLevel = 'OK' | 'LOW_QUALITY' | 'GHOST';
+
+export interface ScoredFollower {
+  follower_username: string;
+  follower_following_count: number | null;
+  quality_score: number | null;
+  quality_level: FollowerQualityLevel | null;
+  quality_flags: FollowerQualityFlag[] | null;
+}
+
+export interface FollowerQualitySnapshot {
+  date: string;
+  method: string;
+  scored_followers: number;
+  low_quality_count: number;
+  ghost_count: number;
+  avg_score: number;
+  flag_counts: Partial<Record<FollowerQualityFlag, number>>;
+}
+
+export const QUALITY_LEVEL_LABELS: Record<FollowerQualityLevel, string> = {
+  OK: 'OK',
+  LOW_QUALITY: 'Low quality',
+  GHOST: 'Likely ghost',
+};
+
+export const QUALITY_FLAG_LABELS: Record<FollowerQualityFlag, string> = {
+  NO_PROFILE_PIC: 'No profile picture',
+  DIGIT_HEAVY_USERNAME: 'Digit-heavy username',
+  NO_DISPLAY_NAME: 'No display name',
+  PRIVATE_MASS_FOLLOWING: 'Private, follows thousands',
+  NO_INTERACTIONS: 'Never interacted',
+};
+
+/**
+ * One sentence per flag saying why it counts against the follower.
+ */
+export function explainQualityFlags(follower: ScoredFollower): string[] {
+  return (follower.quality_flags || []).map((flag) => {
+    switch (flag) {
+      case 'NO_PROFILE_PIC':
+        return 'Uses the default Instagram avatar';
+      case 'DIGIT_HEAVY_USERNAME':
+        return `@${follower.follower_username} looks auto-generated (long run of digits)`;
+      case 'NO_DISPLAY_NAME':
+        return 'Has no display name';
+      case 'PRIVATE_MASS_FOLLOWING':
+        return `Private account following ${follower.follower_following_count?.toLocaleString() ?? 'thousands of'} accounts`;
+      case 'NO_INTERACTIONS':
+        return 'Never liked or commented on your recent posts, nor viewed your stories';
+    }
+  });
+}
+
+export function isFlaggedFollower(follower: ScoredFollower): boolean {
+  return follower.quality_level === 'GHOST' || follower.quality_level === 'LOW_QUALITY';
+}
+
+/**
+ * Share of scored followers that are likely ghosts or low quality, per snapshot, oldest first.
+ */
+export function buildQualityTrend(snapshots: FollowerQualitySnapshot[]) {
+  return [...snapshots]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((snapshot) => ({
+      date: snapshot.date,
+      ghost_share: snapshot.scored_followers > 0 ? (snapshot.ghost_count / snapshot.scored_followers) * 100 : 0,
+      low_quality_share: snapshot.scored_followers > 0 ? (snapshot.low_quality_count / snapshot.scored_followers) * 100 : 0,
+      avg_score: Number(snapshot.avg_score),
+    }));
+}
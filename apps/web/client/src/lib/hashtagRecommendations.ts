@@ -0,0 +1,231 @@
+/**
+ * Hashtag suggestions for a new post, computed from the account's own post history
+ * (`media.hashtags` and engagement counts): how each tag performs against the account's
+ * median post, which tags are overused, and which tags go together by topic.
+ */
+
+export interface HashtagPost {
+  hashtags: string[] | null;
+  likes_count: number;
+  comments_count: number;
+  timestamp: string;
+}
+
+export interface HashtagStat {
+  hashtag: string;
+  uses: number;
+  /** Share of all posts using the tag, 0-1 */
+  usage_share: number;
+  median_engagement: number;
+  /** median_engagement / the account's median engagement */
+  lift: number;
+  saturation: SaturationWarning | null;
+}
+
+export type SaturationWarning = 'OVERUSED' | 'FADING';
+
+export interface HashtagPair {
+  tags: [string, string];
+  together: number;
+  /** Jaccard index: posts with both / posts with either */
+  affinity: number;
+  lift: number;
+}
+
+export interface HashtagSet {
+  /** Most used tag of the topic cluster, naming it */
+  topic: string;
+  tags: string[];
+  /** Average lift of the set's tags */
+  lift: number;
+}
+
+export interface HashtagRecommendations {
+  post_count: number;
+  median_engagement: number;
+  stats: HashtagStat[];
+  pairs: HashtagPair[];
+  sets: HashtagSet[];
+}
+
+// Tags used fewer times than this say too little to recommend
+export const MIN_TAG_USES = 2;
+// Tags on at least this share of posts are flagged as overused...
+export const OVERUSED_SHARE = 0.4;
+// ...and tags whose recent posts do this much worse than their earlier ones, and below the
+// account's median, as fading
+export const FADING_RATIO = 0.7;
+const FADING_MIN_USES = 6;
+// Two tags belong to the same topic when this share of their posts has both
+export const CLUSTER_AFFINITY = 0.25;
+export const SET_MIN_SIZE = 10;
+export const SET_MAX_SIZE = 20;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function normalizeTag(tag: string): string {
+  const clean = tag.trim().toLowerCase();
+  return clean.startsWith('#') ? clean : `#${clean}`;
+}
+
+function saturationOf(usageShare: number, engagements: number[], baseline: number): SaturationWarning | null {
+  if (usageShare >= OVERUSED_SHARE) return 'OVERUSED';
+
+  // engagements are oldest first: compare the recent half of the tag's posts with the rest
+  if (engagements.length >= FADING_MIN_USES) {
+    const split = Math.ceil(engagements.length / 2);
+    const earlier = median(engagements.slice(0, split));
+    const recent = median(engagements.slice(split));
+    if (earlier > 0 && recent < baseline && recent / earlier <= FADING_RATIO) return 'FADING';
+  }
+  return null;
+}
+
+/**
+ * Builds the per-tag stats, the tag pairs used together most, and "try these" sets of
+ * SET_MIN_SIZE-SET_MAX_SIZE tags per topic cluster.
+ */
+export function buildHashtagRecommendations(posts: HashtagPost[]): HashtagRecommendations {
+  const ordered = [...posts].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const engagementOf = (post: HashtagPost) => (post.likes_count || 0) + (post.comments_count || 0);
+  const baseline = median(ordered.map(engagementOf));
+
+  const tagPosts = new Map<string, number[]>(); // tag -> engagements, oldest first
+  const pairCounts = new Map<string, { together: number; engagements: number[] }>();
+
+  for (const post of ordered) {
+    const tags = Array.from(new Set((post.hashtags || []).map(normalizeTag))).sort();
+    const engagement = engagementOf(post);
+
+    tags.forEach((tag, index) => {
+      const engagements = tagPosts.get(tag) || [];
+      engagements.push(engagement);
+      tagPosts.set(tag, engagements);
+
+      for (const other of tags.slice(index + 1)) {
+        const key = `${tag} ${other}`;
+        const pair = pairCounts.get(key) || { together: 0, engagements: [] };
+        pair.together++;
+        pair.engagements.push(engagement);
+        pairCounts.set(key, pair);
+      }
+    });
+  }
+
+  const stats: HashtagStat[] = Array.from(tagPosts.entries()).map(([hashtag, engagements]) => {
+    const usageShare = ordered.length > 0 ? engagements.length / ordered.length : 0;
+    const tagMedian = median(engagements);
+    return {
+      hashtag,
+      uses: engagements.length,
+      usage_share: usageShare,
+      median_engagement: tagMedian,
+      lift: baseline > 0 ? tagMedian / baseline : 0,
+      saturation: saturationOf(usageShare, engagements, baseline),
+    };
+  });
+  stats.sort((a, b) => b.lift - a.lift || b.uses - a.uses);
+
+  const statsByTag = new Map(stats.map((stat) => [stat.hashtag, stat]));
+  const pairs: HashtagPair[] = [];
+  pairCounts.forEach(({ together, engagements }, key) => {
+    if (together < MIN_TAG_USES) return;
+    const [a, b] = key.split(' ') as [string, string];
+    const either = statsByTag.get(a)!.uses + statsByTag.get(b)!.uses - together;
+    pairs.push({
+      tags: [a, b],
+      together,
+      affinity: together / either,
+      lift: baseline > 0 ? median(engagements) / baseline : 0,
+    });
+  });
+  pairs.sort((a, b) => b.affinity - a.affinity || b.together - a.together);
+
+  return {
+    post_count: ordered.length,
+    median_engagement: baseline,
+    stats,
+    pairs,
+    sets: buildSets(stats, pairs),
+  };
+}
+
+/**
+ * Groups tags into topic clusters (connected by pairs with at least CLUSTER_AFFINITY; overused
+ * tags appear next to everything, so they don't connect topics), then
+ * fills each cluster's set with its best recommendable tags, topped up with the best tags
+ * used alongside the cluster when it is short of SET_MIN_SIZE.
+ */
+function buildSets(stats: HashtagStat[], pairs: HashtagPair[]): HashtagSet[] {
+  const statsByTag = new Map(stats.map((stat) => [stat.hashtag, stat]));
+  const recommendable = (tag: string) => {
+    const stat = statsByTag.get(tag);
+    return !!stat && stat.uses >= MIN_TAG_USES && !stat.saturation;
+  };
+
+  // Union-find over strongly associated pairs
+  const parent = new Map<string, string>();
+  const find = (tag: string): string => {
+    const root = parent.get(tag);
+    if (!root || root === tag) return tag;
+    const top = find(root);
+    parent.set(tag, top);
+    return top;
+  };
+  for (const pair of pairs) {
+    if (pair.affinity < CLUSTER_AFFINITY) continue;
+    if (pair.tags.some((tag) => statsByTag.get(tag)!.usage_share >= OVERUSED_SHARE)) continue;
+    const [a, b] = pair.tags.map(find);
+    if (a !== b) parent.set(b, a);
+  }
+
+  const clusters = new Map<string, string[]>();
+  stats.forEach((stat) => {
+    const root = find(stat.hashtag);
+    clusters.set(root, [...(clusters.get(root) || []), stat.hashtag]);
+  });
+
+  const neighbors = new Map<string, Map<string, number>>();
+  for (const pair of pairs) {
+    const [a, b] = pair.tags;
+    neighbors.set(a, (neighbors.get(a) || new Map()).set(b, pair.together));
+    neighbors.set(b, (neighbors.get(b) || new Map()).set(a, pair.together));
+  }
+
+  const byLift = (a: string, b: string) => statsByTag.get(b)!.lift - statsByTag.get(a)!.lift;
+  const sets: HashtagSet[] = [];
+
+  clusters.forEach((members) => {
+    if (members.length < 2) return;
+    const topic = [...members].sort((a, b) => statsByTag.get(b)!.uses - statsByTag.get(a)!.uses)[0];
+    const tags = members.filter(recommendable).sort(byLift).slice(0, SET_MAX_SIZE);
+
+    if (tags.length < SET_MIN_SIZE) {
+      const used = new Set(tags);
+      const alongside = new Map<string, number>();
+      members.forEach((member) => {
+        neighbors.get(member)?.forEach((together, other) => {
+          if (!used.has(other) && recommendable(other)) {
+            alongside.set(other, (alongside.get(other) || 0) + together);
+          }
+        });
+      });
+      tags.push(
+        ...Array.from(alongside.keys())
+          .sort((a, b) => alongside.get(b)! - alongside.get(a)! || byLift(a, b))
+          .slice(0, SET_MIN_SIZE - tags.length)
+      );
+    }
+
+    if (tags.length < SET_MIN_SIZE) return;
+    const lift = tags.reduce((sum, tag) => sum + statsByTag.get(tag)!.lift, 0) / tags.length;
+    sets.push({ topic, tags, lift });
+  });
+
+  return sets.sort((a, b) => b.lift - a.lift);
+}
@@ -0,0 +1,58 @@
+/**
+ * The worker stores job errors as `${ErrorCodes.X}: ${message}` (see packages/shared
+ * ErrorCodes); unexpected exceptions are stored as `Internal Error: ${message}`.
+ */
+
+export type JobErrorCategory = 'Auth' | 'Validation' | 'Instagram' | 'Job queue' | 'Database' | 'Server';
+
+// Mirrors the groups of ErrorCodes in packages/shared/src/types.ts
+const ERROR_CODE_CATEGORIES: Record<string, JobErrorCategory> = {
+  INVALID_CREDENTIALS: 'Auth',
+  SESSION_EXPIRED: 'Auth',
+  UNAUTHORIZED: 'Auth',
+  FORBIDDEN: 'Auth',
+  INVALID_INPUT: 'Validation',
+  MISSING_REQUIRED_FIELD: 'Validation',
+  IG_LOGIN_FAILED: 'Instagram',
+  IG_2FA_REQUIRED: 'Instagram',
+  IG_ACCOUNT_LOCKED: 'Instagram',
+  IG_RATE_LIMITED: 'Instagram',
+  IG_SCRAPE_FAILED: 'Instagram',
+  JOB_LEASE_EXPIRED: 'Job queue',
+  JOB_DEPENDENCY_FAILED: 'Job queue',
+  JOB_CANCELLED: 'Job queue',
+  JOB_DEFERRED: 'Job queue',
+  DATABASE_ERROR: 'Database',
+  NOT_FOUND: 'Database',
+  CONFLICT: 'Database',
+  INTERNAL_SERVER_ERROR: 'Server',
+  SERVICE_UNAVAILABLE: 'Server',
+};
+
+export const JOB_ERROR_CATEGORY_COLORS: Record<JobErrorCategory, string> = {
+  Auth: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  Validation: 'bg-orange-50 text-orange-800 border-orange-200',
+  Instagram: 'bg-pink-50 text-pink-800 border-pink-200',
+  'Job queue': 'bg-gray-50 text-gray-800 border-gray-200',
+  Database: 'bg-purple-50 text-purple-800 border-purple-200',
+  Server: 'bg-red-50 text-red-800 border-red-200',
+};
+
+export interface ParsedJobError {
+  code: string | null;
+  category: JobErrorCategory;
+  message: string;
+}
+
+/**
+ * Splits a job's error_message into its ErrorCodes code, category and message.
+ */
+export function parseJobError(errorMessage: string): ParsedJobError {
+  const match = errorMessage.match(/^([A-Z0-9_]+): ([\s\S]*)$/);
+  if (match && ERROR_CODE_CATEGORIES[match[1]]) {
+    return { code: match[1], category: ERROR_CODE_CATEGORIES[match[1]], message: match[2] };
+  }
+
+  const internal = errorMessage.match(/^Internal Error: ([\s\S]*)$/);
+  return { code: null, category: 'Server', message: internal ? internal[1] : errorMessage };
+}
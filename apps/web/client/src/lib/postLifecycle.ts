@@ -0,0 +1,179 @@
+/**
+ * Post lifecycle curves: likes and comments of a post against the hours since it was
+ * published, built from the media_metrics snapshots the worker appends on every media
+ * sync (read through the post_lifecycle_observations view).
+ */
+
+export type LifecycleMetric = 'likes' | 'comments';
+
+export interface LifecycleObservation {
+  media_id: string;
+  media_type: string;
+  /** PostgREST may return numeric columns as strings. */
+  hours_since_publish: number | string;
+  likes: number;
+  comments: number;
+}
+
+export interface LifecyclePoint {
+  hours: number;
+  likes: number;
+  comments: number;
+}
+
+export interface AverageLifecyclePoint extends LifecyclePoint {
+  /** Posts observed at (or past) this age. */
+  sample_size: number;
+}
+
+export interface Outperformer {
+  media_id: string;
+  metric: LifecycleMetric;
+  hours: number;
+  value: number;
+  typical: number;
+  /** value / typical */
+  ratio: number;
+}
+
+// Only the first week is charted: most posts stop growing well before that
+export const LIFECYCLE_MAX_HOURS = 168;
+// Ages the average curves are sampled at
+export const LIFECYCLE_CHECKPOINT_HOURS = [1, 2, 4, 6, 12, 24, 48, 72, 120, 168];
+// A post outperforms when it is this much above its type's average at the same age...
+export const OUTPERFORM_RATIO = 1.5;
+// ...and the average is built from at least this many posts
+export const MIN_TYPICAL_SAMPLE = 3;
+
+/**
+ * Groups observations into one curve per post, sorted by age.
+ */
+export function buildPostCurves(observations: LifecycleObservation[]): Map<string, LifecyclePoint[]> {
+  const curves = new Map<string, LifecyclePoint[]>();
+  for (const observation of observations) {
+    const hours = Number(observation.hours_since_publish);
+    if (hours < 0 || hours > LIFECYCLE_MAX_HOURS) continue;
+
+    const curve = curves.get(observation.media_id) || [];
+    curve.push({
+      hours: Math.round(hours * 10) / 10,
+      likes: observation.likes,
+      comments: observation.comments,
+    });
+    curves.set(observation.media_id, curve);
+  }
+
+  curves.forEach((curve) => curve.sort((a, b) => a.hours - b.hours));
+  return curves;
+}
+
+/**
+ * Value of a curve at `hours`, interpolated linearly between observations (a post starts
+ * at 0 when published). Null past the last observation, as the post wasn't seen that old.
+ */
+export function valueAtAge(curve: LifecyclePoint[], hours: number, metric: LifecycleMetric): number | null {
+  if (curve.length === 0 || hours > curve[curve.length - 1].hours) return null;
+
+  let previous: LifecyclePoint = { hours: 0, likes: 0, comments: 0 };
+  for (const point of curve) {
+    if (point.hours >= hours) {
+      const span = point.hours - previous.hours;
+      const progress = span > 0 ? (hours - previous.hours) / span : 1;
+      return previous[metric] + (point[metric] - previous[metric]) * progress;
+    }
+    previous = point;
+  }
+  return null;
+}
+
+/**
+ * Average curve of a set of posts, sampled at LIFECYCLE_CHECKPOINT_HOURS. Each checkpoint
+ * averages the posts observed at least that old; checkpoints no post reached are left out.
+ */
+export function buildAverageCurve(curves: LifecyclePoint[][]): AverageLifecyclePoint[] {
+  const points: AverageLifecyclePoint[] = [];
+
+  for (const hours of LIFECYCLE_CHECKPOINT_HOURS) {
+    let likes = 0;
+    let comments = 0;
+    let sampleSize = 0;
+
+    for (const curve of curves) {
+      const postLikes = valueAtAge(curve, hours, 'likes');
+      const postComments = valueAtAge(curve, hours, 'comments');
+      if (postLikes === null || postComments === null) continue;
+
+      likes += postLikes;
+      comments += postComments;
+      sampleSize++;
+    }
+
+    if (sampleSize > 0) {
+      points.push({
+        hours,
+        likes: Math.round(likes / sampleSize),
+        comments: Math.round(comments / sampleSize),
+        sample_size: sampleSize,
+      });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Interpolates an average curve at any age up to its last checkpoint.
+ */
+function typicalAtAge(average: AverageLifecyclePoint[], hours: number, metric: LifecycleMetric): { value: number; sample: number } | null {
+  const value = valueAtAge(average, hours, metric);
+  if (value === null) return null;
+
+  const checkpoint = average.find((point) => point.hours >= hours);
+  return { value, sample: checkpoint?.sample_size || 0 };
+}
+
+/**
+ * Posts doing better than the typical post of their media type at the same age, judged
+ * at their latest observation.
+ */
+export function findOutperformers(
+  curves: Map<string, LifecyclePoint[]>,
+  mediaTypes: Map<string, string>,
+  averages: Map<string, AverageLifecyclePoint[]>,
+  metric: LifecycleMetric
+): Map<string, Outperformer> {
+  const outperformers = new Map<string, Outperformer>();
+
+  curves.forEach((curve, mediaId) => {
+    const average = averages.get(mediaTypes.get(mediaId) || '');
+    const latest = curve[curve.length - 1];
+    if (!average || !latest) return;
+
+    const typical = typicalAtAge(average, latest.hours, metric);
+    if (!typical || typical.sample < MIN_TYPICAL_SAMPLE || typical.value <= 0) return;
+
+    const ratio = latest[metric] / typical.value;
+    if (ratio >= OUTPERFORM_RATIO) {
+      outperformers.set(mediaId, {
+        media_id: mediaId,
+        metric,
+        hours: latest.hours,
+        value: latest[metric],
+        typical: Math.round(typical.value),
+        ratio,
+      });
+    }
+  });
+
+  return outperformers;
+}
+
+/**
+ * "5h", "2d 4h" style age labels for chart axes.
+ */
+export function formatAge(hours: number): string {
+  if (hours < 24) return `${Math.round(hours)}h`;
+  const days = Math.floor(hours / 24);
+  const rest = Math.round(hours % 24);
+  return rest > 0 ? `${days}d ${rest}h` : `${days}d`;
+}
@@ -11,4 +11,24 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
   },
 });
 
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Loads every row of a query page by page; `.range()` is set on the query for each page.
+ * Order the query by a unique key so pages neither overlap nor skip rows.
+ */
+export async function fetchAllPages<T>(query: {
+  range(from: number, to: number): PromiseLike<{ data: unknown[] | null; error: unknown }>;
+}): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
 export type Database = any; // TODO: Generate types from Supabase schema
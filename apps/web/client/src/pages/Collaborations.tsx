@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useQuery } from '@tanstack/react-query';
+import { fetchAllPages, supabase } from '@/lib/supabase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, AtSign, TrendingUp, Users, Download } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { exportDataToCSV } from '@/lib/exportUtils';
+import {
+  buildCollaborations,
+  buildRelationships,
+  type FollowerRelation,
+  type MentionPost,
+  type Relationship,
+} from '@/lib/collaborations';
+
+// Usernames per followers lookup, to keep the request URL short
+const RELATION_CHUNK_SIZE = 100;
+
+const RELATIONSHIP_BADGES: Record<Relationship, { label: string; className: string }> = {
+  MUTUAL: { label: 'Mutual', className: 'bg-green-50 text-green-700 border-green-200' },
+  FOLLOWER: { label: 'Follows you', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  FOLLOWING: { label: 'You follow', className: 'bg-purple-50 text-purple-700 border-purple-200' },
+  NONE: { label: 'No connection', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+};
+
+function formatLift(lift: number | null): string {
+  return lift === null ? '—' : `${lift.toFixed(2)}×`;
+}
+
+export default function Collaborations() {
+  const { user } = useSupabaseAuth();
+  const { data: profile } = useProfile(user?.id);
+  const [sortBy, setSortBy] = useState<'posts' | 'lift'>('posts');
+
+  const { data: posts, isLoading } = useQuery({
+    queryKey: ['mention_posts', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      return fetchAllPages<MentionPost>(
+        supabase
+          .from('media')
+          .select('mentions, likes_count, comments_count, timestamp')
+          .eq('profile_id', profile.id)
+          .neq('media_type', 'STORY')
+          .order('timestamp', { ascending: true })
+      );
+    },
+    enabled: !!profile?.id,
+  });
+
+  const summary = useMemo(() => buildCollaborations(posts || []), [posts]);
+  const usernames = summary.collaborators.map((collaborator) => collaborator.username);
+  // The Graph API doesn't list followers, so relationships are unknown for those profiles
+  const hasFollowerLists = profile?.connector !== 'GRAPH_API';
+
+  const { data: relationships } = useQuery({
+    queryKey: ['mention_relationships', profile?.id, usernames],
+    queryFn: async () => {
+      if (!profile?.id) return new Map<string, Relationship>();
+
+      const relations: FollowerRelation[] = [];
+      for (let i = 0; i < usernames.length; i += RELATION_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('followers')
+          .select('follower_username, is_follower, is_following')
+          .eq('profile_id', profile.id)
+          .in('follower_username', usernames.slice(i, i + RELATION_CHUNK_SIZE));
+
+        if (error) throw error;
+        relations.push(...((data || []) as FollowerRelation[]));
+      }
+      return buildRelationships(relations);
+    },
+    enabled: !!profile?.id && hasFollowerLists && usernames.length > 0,
+  });
+
+  const collaborators = [...summary.collaborators].sort((a, b) =>
+    sortBy === 'lift' ? (b.lift ?? 0) - (a.lift ?? 0) || b.posts - a.posts : 0
+  );
+  const topCollaborators = summary.collaborators.slice(0, 10).map((collaborator) => ({
+    username: `@${collaborator.username}`,
+    posts: collaborator.posts,
+  }));
+  const mentionLift = summary.avg_engagement_without_mentions > 0
+    ? summary.avg_engagement_with_mentions / summary.avg_engagement_without_mentions
+    : null;
+  const connectedCount = relationships
+    ? usernames.filter((username) => {
+        const relationship = relationships.get(username);
+        return relationship === 'MUTUAL' || relationship === 'FOLLOWER';
+      }).length
+    : null;
+
+  const handleExport = () => {
+    exportDataToCSV(
+      collaborators.map((collaborator) => ({
+        ...collaborator,
+        avg_engagement: Math.round(collaborator.avg_engagement),
+        avg_engagement_without: Math.round(collaborator.avg_engagement_without),
+        lift: collaborator.lift === null ? '' : collaborator.lift.toFixed(2),
+        relationship: relationships?.get(collaborator.username) || '',
+      })),
+      ['username', 'posts', 'last_mentioned', 'avg_engagement', 'avg_engagement_without', 'lift', 'relationship'],
+      'collaborations.csv'
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Collaborations</h1>
+          <p className="text-gray-600 mt-2">Accounts you tag in your posts, and how those posts perform</p>
+        </div>
+        {collaborators.length > 0 && (
+          <Button variant="outline" onClick={handleExport}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        )}
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Accounts Mentioned</p>
+                <p className="text-3xl font-bold">{summary.collaborators.length}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  in {summary.posts_with_mentions} of {summary.post_count} posts
+                </p>
+              </div>
+              <AtSign className="w-8 h-8 text-blue-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Lift of Posts with Mentions</p>
+                <p className="text-3xl font-bold">{formatLift(mentionLift)}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {Math.round(summary.avg_engagement_with_mentions).toLocaleString()} vs{' '}
+                  {Math.round(summary.avg_engagement_without_mentions).toLocaleString()} avg engagement
+                </p>
+              </div>
+              <TrendingUp className="w-8 h-8 text-green-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Mentioned Accounts Following You</p>
+                <p className="text-3xl font-bold">{connectedCount ?? '—'}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {hasFollowerLists ? 'Followers and mutuals' : 'Follower lists are not available through the Graph API'}
+                </p>
+              </div>
+              <Users className="w-8 h-8 text-purple-500" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Top Collaborators Chart */}
+      {topCollaborators.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Most Tagged Accounts</CardTitle>
+            <CardDescription>Number of posts mentioning each account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={topCollaborators}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="username" angle={-45} textAnchor="end" height={100} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Bar dataKey="posts" name="Posts" fill="#3b82f6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Collaborators List */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>All Collaborators</CardTitle>
+            <CardDescription>
+              Lift compares the average engagement (likes + comments) of posts mentioning the account with your posts that don't
+            </CardDescription>
+          </div>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as 'posts' | 'lift')}
+            className="px-4 py-2 border border-gray-300 rounded-lg"
+          >
+            <option value="posts">Sort by Posts</option>
+            <option value="lift">Sort by Lift</option>
+          </select>
+        </CardHeader>
+        <CardContent>
+          {collaborators.length === 0 ? (
+            <p className="text-center text-gray-600 py-8">No mentions found in your synced posts</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-semibold">Account</th>
+                    <th className="text-right py-3 px-4 font-semibold">Posts</th>
+                    <th className="text-right py-3 px-4 font-semibold">Avg Engagement</th>
+                    <th className="text-right py-3 px-4 font-semibold">Lift</th>
+                    <th className="text-left py-3 px-4 font-semibold">Relationship</th>
+                    <th className="text-left py-3 px-4 font-semibold">Last Mentioned</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {collaborators.map((collaborator) => {
+                    const relationship = relationships?.get(collaborator.username) || (relationships ? 'NONE' : null);
+                    return (
+                      <tr key={collaborator.username} className="border-b hover:bg-gray-50">
+                        <td className="py-3 px-4">
+                          <a
+                            href={`https://instagram.com/${collaborator.username}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline font-medium"
+                          >
+                            @{collaborator.username}
+                          </a>
+                        </td>
+                        <td className="text-right py-3 px-4">{collaborator.posts}</td>
+                        <td className="text-right py-3 px-4">{Math.round(collaborator.avg_engagement).toLocaleString()}</td>
+                        <td
+                          className={`text-right py-3 px-4 font-semibold ${
+                            collaborator.lift !== null && collaborator.lift >= 1 ? 'text-green-600' : 'text-gray-600'
+                          }`}
+                        >
+                          {formatLift(collaborator.lift)}
+                        </td>
+                        <td className="py-3 px-4">
+                          {relationship ? (
+                            <Badge variant="outline" className={`text-xs ${RELATIONSHIP_BADGES[relationship].className}`}>
+                              {RELATIONSHIP_BADGES[relationship].label}
+                            </Badge>
+                          ) : (
+                            <span className="text-sm text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-600">
+                          {new Date(collaborator.last_mentioned).toLocaleDateString()}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,12 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
+import { useSyncJobs } from '@/hooks/useSyncJobs';
+import { SyncJobProgress } from '@/components/SyncJobProgress';
 import { Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 
+// Instagram app of the Graph API connector (Business/Creator accounts); the option is hidden without it
+const IG_APP_ID = import.meta.env.VITE_IG_APP_ID;
+const IG_AUTHORIZE_URL = import.meta.env.VITE_IG_AUTHORIZE_URL || 'https://www.instagram.com/oauth/authorize';
+const IG_OAUTH_SCOPES = 'instagram_business_basic,instagram_business_manage_insights';
+const OAUTH_STATE_KEY = 'ig_oauth_state';
+
+function getOAuthRedirectUri(): string {
+  return `${window.location.origin}/dashboard/connect-ig`;
+}
+
 export default function ConnectIG() {
   const { user } = useSupabaseAuth();
   const { data: profile, isLoading: profileLoading, refetch } = useProfile(user?.id);
@@ -16,34 +28,30 @@ export default function ConnectIG() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const [isPolling, setIsPolling] = useState(false);
 
   // Auto-detect 2FA needed state
   const needs2FA = profile?.connection_state === 'NEEDS_2FA';
   const isConnected = profile?.connection_state === 'CONNECTED';
   const isDisconnected = !profile || profile?.connection_state === 'DISCONNECTED';
-
-  // Poll profile status when waiting for worker to process login
-  useEffect(() => {
-    if (!isPolling) return;
-
-    const interval = setInterval(() => {
+  // Graph API tokens can't be renewed with a password, only by authorizing the app again
+  const canAuthorizeGraphApi = !!IG_APP_ID && (isDisconnected
+    || (profile?.connector === 'GRAPH_API' && profile.connection_state === 'EXPIRED'));
+  const oauthHandled = useRef(false);
+
+  // The worker updates the profile before finishing a job, so refetch it whenever one
+  // of its jobs settles (LOGIN -> CONNECTED / NEEDS_2FA, SYNC_PROFILE -> last_sync_at)
+  const { data: syncJobs } = useSyncJobs(profile?.id, (job) => {
+    if (job.status !== 'PENDING' && job.status !== 'RUNNING') {
       refetch();
-    }, 2000); // Poll every 2 seconds
-
-    return () => clearInterval(interval);
-  }, [isPolling, refetch]);
+    }
+  });
 
-  // Stop polling when we reach a final state
+  // Clear password when connected successfully
   useEffect(() => {
-    if (needs2FA || isConnected) {
-      setIsPolling(false);
-      // Clear password when connected successfully
-      if (isConnected) {
-        setPassword('');
-      }
+    if (isConnected) {
+      setPassword('');
     }
-  }, [needs2FA, isConnected]);
+  }, [isConnected]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -112,7 +120,7 @@ export default function ConnectIG() {
       setSuccessMessage('Login job created! Worker will process it shortly...');
       setUsername('');
       // Don't clear password yet - we need it for 2FA
-      setIsPolling(true); // Start polling for status updates
+      refetch(); // Picks up a newly created profile so its jobs are subscribed to
       
     } catch (err) {
       console.error('Connect IG Error:', err);
@@ -127,6 +135,96 @@ export default function ConnectIG() {
     }
   };
 
+  const handleGraphApiConnect = () => {
+    // Checked on return so a forged redirect can't attach another Instagram account
+    const state = crypto.randomUUID();
+    sessionStorage.setItem(OAUTH_STATE_KEY, state);
+
+    const params = new URLSearchParams({
+      client_id: IG_APP_ID,
+      redirect_uri: getOAuthRedirectUri(),
+      response_type: 'code',
+      scope: IG_OAUTH_SCOPES,
+      state,
+    });
+    window.location.href = `${IG_AUTHORIZE_URL}?${params}`;
+  };
+
+  // Instagram redirects back here with ?code&state (or ?error) after the user authorizes the app
+  useEffect(() => {
+    if (!user || profileLoading || oauthHandled.current) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('code');
+    const oauthError = params.get('error_description') || params.get('error');
+    if (!code && !oauthError) return;
+
+    oauthHandled.current = true;
+    window.history.replaceState(null, '', window.location.pathname);
+    const expectedState = sessionStorage.getItem(OAUTH_STATE_KEY);
+    sessionStorage.removeItem(OAUTH_STATE_KEY);
+
+    if (oauthError) {
+      setError(`Instagram authorization failed: ${oauthError}`);
+      return;
+    }
+    if (!expectedState || params.get('state') !== expectedState) {
+      setError('Instagram authorization could not be verified. Please try again.');
+      return;
+    }
+
+    const createGraphLoginJob = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        let profileId = profile?.id;
+        if (!profileId) {
+          // The username is only known once the worker exchanges the code, which updates it
+          const placeholder = `pending_${Date.now()}`;
+          const { data: newProfile, error: profileError } = await supabase
+            .from('profiles')
+            .insert({
+              user_id: user.id,
+              ig_username: placeholder,
+              ig_user_id: `temp_${Date.now()}`,
+              connection_state: 'DISCONNECTED',
+            })
+            .select()
+            .single();
+
+          if (profileError) throw profileError;
+          profileId = newProfile.id;
+        }
+
+        const { error: jobError } = await supabase
+          .from('sync_jobs')
+          .insert({
+            profile_id: profileId,
+            user_id: user.id,
+            job_type: 'LOGIN',
+            status: 'PENDING',
+            metadata: {
+              connector: 'GRAPH_API',
+              oauth_code: code,
+              redirect_uri: getOAuthRedirectUri(),
+            },
+          });
+
+        if (jobError) throw jobError;
+
+        setSuccessMessage('Instagram authorized! Worker will finish connecting your account shortly...');
+        refetch();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to connect through the Instagram API');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    createGraphLoginJob();
+  }, [user, profile, profileLoading, refetch]);
+
   const handleVerify2FA = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -156,7 +254,6 @@ export default function ConnectIG() {
 
       setSuccessMessage('2FA code submitted! Worker will verify it...');
       setTwoFaCode('');
-      setIsPolling(true); // Start polling for status updates
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -171,11 +268,15 @@ export default function ConnectIG() {
     setError(null);
 
     try {
-      // Delete Instagram session
+      // Delete Instagram session and Graph API token
       await supabase
         .from('ig_sessions')
         .delete()
         .eq('profile_id', profile.id);
+      await supabase
+        .from('ig_graph_tokens')
+        .delete()
+        .eq('profile_id', profile.id);
 
       // Delete all sync jobs
       await supabase
@@ -258,6 +359,7 @@ export default function ConnectIG() {
                   <p className="font-semibold">Session Status</p>
                   <p className={`text-sm ${getStatusColor(profile.connection_state)}`}>
                     {profile.connection_state}
+                    {profile.connector === 'GRAPH_API' && ' • Instagram Graph API'}
                   </p>
                 </div>
               </div>
@@ -318,6 +420,30 @@ export default function ConnectIG() {
             </form>
           )}
 
+          {canAuthorizeGraphApi && (
+            <div className="space-y-2">
+              {isDisconnected && (
+                <div className="flex items-center gap-3 text-xs text-gray-500">
+                  <div className="h-px flex-1 bg-gray-200" />
+                  or
+                  <div className="h-px flex-1 bg-gray-200" />
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleGraphApiConnect}
+                disabled={loading}
+                className="w-full"
+              >
+                Connect with Instagram API (Business/Creator)
+              </Button>
+              <p className="text-xs text-gray-500 text-center">
+                No password needed. Adds reach, impressions and audience demographics, but follower lists are not available.
+              </p>
+            </div>
+          )}
+
           {needs2FA && (
             <div className="space-y-4">
               <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -367,6 +493,8 @@ export default function ConnectIG() {
             </div>
           )}
 
+          {syncJobs && <SyncJobProgress jobs={syncJobs} />}
+
           {profile && (
             <div className="pt-4 border-t border-gray-200">
               <Button
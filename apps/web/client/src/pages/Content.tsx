@@ -1,11 +1,26 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
+import { fetchAllPages, supabase } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Loader2, Heart, MessageCircle, Share2, Eye } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PostLifecycleChart, type LifecycleSeries } from '@/components/PostLifecycleChart';
+import { CommentSentimentSummary, SentimentBar } from '@/components/CommentSentimentSummary';
+import { summarizeByPost, type CommentRecord } from '@/lib/commentSentiment';
+import {
+  buildAverageCurve,
+  buildPostCurves,
+  findOutperformers,
+  formatAge,
+  LIFECYCLE_MAX_HOURS,
+  type AverageLifecyclePoint,
+  type LifecycleMetric,
+  type LifecycleObservation,
+} from '@/lib/postLifecycle';
+import { Loader2, Heart, MessageCircle, Share2, Eye, Clock, TrendingUp, Wand } from 'lucide-react';
 
 interface Media {
   id: string;
@@ -14,9 +29,25 @@ interface Media {
   caption: string | null;
   media_url: string | null;
   timestamp: string;
+  expires_at: string | null;
+  viewer_count: number | null;
+  storage_path: string | null;
   created_at: string;
 }
 
+// Story assets are copied to this private bucket by the worker; Instagram's URLs expire with the story
+const STORY_ASSETS_BUCKET = 'stories';
+const SIGNED_URL_TTL_SECONDS = 3600;
+// Individual post curves drawn next to the average of one media type
+const LIFECYCLE_MAX_POST_CURVES = 8;
+const POST_MEDIA_TYPES = ['IMAGE', 'VIDEO', 'CAROUSEL'];
+
+function describeStoryExpiry(expiresAt: string): string {
+  const hoursLeft = (new Date(expiresAt).getTime() - Date.now()) / 3600000;
+  if (hoursLeft <= 0) return 'Expired';
+  return hoursLeft < 1 ? 'Expires in <1h' : `Expires in ${Math.floor(hoursLeft)}h`;
+}
+
 interface MediaMetrics {
   id: string;
   media_id: string;
@@ -34,6 +65,14 @@ export default function Content() {
   const { user } = useSupabaseAuth();
   const { data: profile } = useProfile(user?.id);
   const [mediaType, setMediaType] = useState<'all' | 'IMAGE' | 'VIDEO' | 'CAROUSEL' | 'STORY'>('all');
+  const [lifecycleMetric, setLifecycleMetric] = useState<LifecycleMetric>('likes');
+  const [commentPeriod, setCommentPeriod] = useState<'30' | '90' | '365' | 'all'>('30');
+  const [commentPost, setCommentPost] = useState<string>('all');
+  const [commentSummary, setCommentSummary] = useState<{ text: string | null; error: string | null; loading: boolean }>({
+    text: null,
+    error: null,
+    loading: false,
+  });
 
   const { data: media, isLoading: mediaLoading } = useQuery({
     queryKey: ['media', profile?.id],
@@ -77,6 +116,145 @@ export default function Content() {
     enabled: !!profile?.id && !!media?.length,
   });
 
+  const { data: storyAssetUrls } = useQuery({
+    queryKey: ['story_assets', profile?.id, media?.length],
+    queryFn: async () => {
+      const stories = (media || []).filter((m) => m.media_type === 'STORY' && m.storage_path);
+      if (stories.length === 0) return {};
+
+      const { data, error } = await supabase.storage
+        .from(STORY_ASSETS_BUCKET)
+        .createSignedUrls(stories.map((m) => m.storage_path!), SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+
+      const map: Record<string, string> = {};
+      (data || []).forEach((signed, i) => {
+        if (signed.signedUrl) map[stories[i].id] = signed.signedUrl;
+      });
+      return map;
+    },
+    enabled: !!profile?.id && !!media?.some((m) => m.media_type === 'STORY'),
+    staleTime: (SIGNED_URL_TTL_SECONDS / 2) * 1000,
+  });
+
+  // Snapshots of every post's first week, paged as a profile can have thousands of them
+  const { data: lifecycleObservations } = useQuery({
+    queryKey: ['post_lifecycle', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      return fetchAllPages<LifecycleObservation>(
+        supabase
+          .from('post_lifecycle_observations')
+          .select('media_id, media_type, hours_since_publish, likes, comments')
+          .eq('profile_id', profile.id)
+          .lte('hours_since_publish', LIFECYCLE_MAX_HOURS)
+          .order('captured_at', { ascending: true })
+      );
+    },
+    enabled: !!profile?.id,
+  });
+
+  // Comments of the newest posts with the worker's sentiment and topics, paged like the observations
+  const { data: comments } = useQuery({
+    queryKey: ['comments', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      return fetchAllPages<CommentRecord>(
+        supabase
+          .from('comments')
+          .select('id, media_id, author_username, text, commented_at, language, sentiment, sentiment_score, topics, keywords')
+          .eq('profile_id', profile.id)
+          .order('commented_at', { ascending: false })
+      );
+    },
+    enabled: !!profile?.id,
+  });
+
+  // LLM summaries are served by the web server only when an LLM key is configured
+  const { data: llmSummaryEnabled } = useQuery({
+    queryKey: ['comment_summary_status'],
+    queryFn: async () => {
+      const response = await fetch('/api/comment-summary/status');
+      if (!response.ok) return false;
+      const data = await response.json();
+      return data.enabled === true;
+    },
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const commentsSince = useMemo(
+    () => (commentPeriod === 'all' ? null : new Date(Date.now() - Number(commentPeriod) * 86400000).toISOString()),
+    [commentPeriod]
+  );
+  const scopedComments = useMemo(
+    () =>
+      (comments || []).filter(
+        (comment) =>
+          (commentPost === 'all' || comment.media_id === commentPost) &&
+          (!commentsSince || comment.commented_at >= commentsSince)
+      ),
+    [comments, commentPost, commentsSince]
+  );
+  const commentsByPost = useMemo(() => summarizeByPost(comments || []), [comments]);
+
+  const handleSummarizeComments = async () => {
+    if (!profile?.id) return;
+
+    setCommentSummary({ text: null, error: null, loading: true });
+    try {
+      const response = await fetch('/api/comment-summary', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+        body: JSON.stringify({
+          profile_id: profile.id,
+          media_id: commentPost === 'all' ? undefined : commentPost,
+          since: commentsSince ?? undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Summary failed');
+      }
+
+      setCommentSummary({ text: data.summary || 'No comments to summarise.', error: null, loading: false });
+    } catch (error) {
+      setCommentSummary({
+        text: null,
+        error: error instanceof Error ? error.message : 'Summary failed. Please try again.',
+        loading: false,
+      });
+    }
+  };
+
+  const lifecycle = useMemo(() => {
+    const curves = buildPostCurves(lifecycleObservations || []);
+    const mediaTypes = new Map((media || []).map((m) => [m.id, m.media_type as string]));
+
+    const averages = new Map<string, AverageLifecyclePoint[]>();
+    for (const type of POST_MEDIA_TYPES) {
+      const typeCurves = Array.from(curves.entries())
+        .filter(([mediaId]) => mediaTypes.get(mediaId) === type)
+        .map(([, curve]) => curve);
+      const average = buildAverageCurve(typeCurves);
+      if (average.length > 0) averages.set(type, average);
+    }
+
+    return {
+      curves,
+      averages,
+      outperformers: findOutperformers(curves, mediaTypes, averages, lifecycleMetric),
+    };
+  }, [lifecycleObservations, media, lifecycleMetric]);
+
   const filteredMedia = media?.filter((m) => mediaType === 'all' || m.media_type === mediaType) || [];
 
   const topMedia = filteredMedia
@@ -97,12 +275,18 @@ export default function Content() {
 
   const MediaCard = ({ item }: { item: (typeof filteredMedia)[0] & { metrics?: MediaMetrics } }) => {
     const metrics = metricsMap?.[item.id];
+    const isStory = item.media_type === 'STORY';
+    const outperformer = lifecycle.outperformers.get(item.id);
+    const storyAssetUrl = storyAssetUrls?.[item.id];
+    const commentSentiment = commentsByPost.get(item.id);
 
     return (
       <Card className="overflow-hidden hover:shadow-lg transition-shadow">
         <div className="aspect-square bg-gray-100 relative overflow-hidden">
-          {item.media_url ? (
-            <img src={item.media_url} alt="Media" className="w-full h-full object-cover" />
+          {storyAssetUrl && item.storage_path?.endsWith('.mp4') ? (
+            <video src={storyAssetUrl} className="w-full h-full object-cover" muted controls />
+          ) : storyAssetUrl || item.media_url ? (
+            <img src={storyAssetUrl || item.media_url!} alt="Media" className="w-full h-full object-cover" />
           ) : (
             <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-gray-200 to-gray-300">
               <span className="text-gray-500 text-sm">{item.media_type}</span>
@@ -111,9 +295,32 @@ export default function Content() {
           <div className="absolute top-2 right-2 bg-black/50 text-white px-2 py-1 rounded text-xs font-medium">
             {item.media_type}
           </div>
+          {outperformer && (
+            <div
+              className="absolute top-2 left-2 flex items-center gap-1 bg-green-600 text-white px-2 py-1 rounded text-xs font-medium"
+              title={`${outperformer.value.toLocaleString()} ${outperformer.metric} at ${formatAge(outperformer.hours)}, typical ${item.media_type.toLowerCase()} has ${outperformer.typical.toLocaleString()}`}
+            >
+              <TrendingUp className="w-3 h-3" />
+              {outperformer.ratio.toFixed(1)}× typical
+            </div>
+          )}
         </div>
         <CardContent className="p-4">
           {item.caption && <p className="text-sm text-gray-700 line-clamp-2 mb-3">{item.caption}</p>}
+          {isStory && (
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <div className="flex items-center gap-1">
+                <Eye className="w-4 h-4 text-purple-500" />
+                <span>{item.viewer_count !== null ? `${item.viewer_count.toLocaleString()} viewers` : '—'}</span>
+              </div>
+              {item.expires_at && (
+                <div className="flex items-center gap-1">
+                  <Clock className="w-4 h-4 text-gray-500" />
+                  <span>{describeStoryExpiry(item.expires_at)}</span>
+                </div>
+              )}
+            </div>
+          )}
           {metrics && (
             <div className="grid grid-cols-2 gap-2 text-xs">
               <div className="flex items-center gap-1">
@@ -134,8 +341,17 @@ export default function Content() {
               </div>
             </div>
           )}
+          {commentSentiment && (
+            <div className="mt-3 space-y-1">
+              <SentimentBar summary={commentSentiment} />
+              <p className="text-xs text-gray-500">
+                {Math.round((commentSentiment.positive / commentSentiment.total) * 100)}% positive,{' '}
+                {Math.round((commentSentiment.negative / commentSentiment.total) * 100)}% negative comments
+              </p>
+            </div>
+          )}
           <p className="text-xs text-gray-500 mt-3">
-            {new Date(item.timestamp).toLocaleDateString()}
+            {isStory ? new Date(item.timestamp).toLocaleString() : new Date(item.timestamp).toLocaleDateString()}
           </p>
         </CardContent>
       </Card>
@@ -166,6 +382,124 @@ export default function Content() {
         </Card>
       )}
 
+      {/* Post Lifecycle */}
+      {mediaType !== 'STORY' && lifecycle.curves.size > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Post Lifecycle</CardTitle>
+                <CardDescription>
+                  {lifecycleMetric === 'likes' ? 'Likes' : 'Comments'} by hours since publishing.{' '}
+                  {mediaType === 'all'
+                    ? 'Average curve per media type.'
+                    : `Average ${mediaType.toLowerCase()} curve and your ${LIFECYCLE_MAX_POST_CURVES} most recent ${mediaType.toLowerCase()} posts.`}
+                  {lifecycle.outperformers.size > 0 &&
+                    ` ${lifecycle.outperformers.size} post${lifecycle.outperformers.size !== 1 ? 's are' : ' is'} outperforming the typical curve.`}
+                </CardDescription>
+              </div>
+              <Select value={lifecycleMetric} onValueChange={(v) => setLifecycleMetric(v as LifecycleMetric)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="likes">Likes</SelectItem>
+                  <SelectItem value="comments">Comments</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <PostLifecycleChart
+              metric={lifecycleMetric}
+              averages={Array.from(lifecycle.averages.entries())
+                .filter(([type]) => mediaType === 'all' || type === mediaType)
+                .map(([type, points]) => ({ mediaType: type, points }))}
+              posts={mediaType === 'all' ? [] : filteredMedia
+                .filter((m) => lifecycle.curves.has(m.id))
+                .slice(0, LIFECYCLE_MAX_POST_CURVES)
+                .map((m): LifecycleSeries => ({
+                  id: m.id,
+                  label: m.caption?.slice(0, 30) || new Date(m.timestamp).toLocaleDateString(),
+                  points: lifecycle.curves.get(m.id)!,
+                }))}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Comment Sentiment */}
+      {mediaType !== 'STORY' && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Comment Sentiment</CardTitle>
+                <CardDescription>
+                  How people react in the comments of your newest posts, classified offline in Portuguese and English
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Select
+                  value={commentPost}
+                  onValueChange={(value) => {
+                    setCommentPost(value);
+                    setCommentSummary({ text: null, error: null, loading: false });
+                  }}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All posts</SelectItem>
+                    {(media || [])
+                      .filter((m) => commentsByPost.has(m.id))
+                      .map((m) => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {m.caption?.slice(0, 30) || new Date(m.timestamp).toLocaleDateString()}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={commentPeriod}
+                  onValueChange={(value) => {
+                    setCommentPeriod(value as typeof commentPeriod);
+                    setCommentSummary({ text: null, error: null, loading: false });
+                  }}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="30">Last 30 days</SelectItem>
+                    <SelectItem value="90">Last 90 days</SelectItem>
+                    <SelectItem value="365">Last year</SelectItem>
+                    <SelectItem value="all">All time</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <CommentSentimentSummary comments={scopedComments} />
+
+            {llmSummaryEnabled && scopedComments.length > 0 && (
+              <div className="space-y-3 border-t pt-4">
+                <Button variant="outline" onClick={handleSummarizeComments} disabled={commentSummary.loading}>
+                  {commentSummary.loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand className="w-4 h-4 mr-2" />}
+                  Summarize with AI
+                </Button>
+                {commentSummary.error && <p className="text-sm text-red-600">{commentSummary.error}</p>}
+                {commentSummary.text && (
+                  <p className="p-3 bg-gray-50 rounded-lg text-sm text-gray-800 whitespace-pre-line">{commentSummary.text}</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* All Content */}
       <div>
         <div className="mb-6">
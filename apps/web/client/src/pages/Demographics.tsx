@@ -1,50 +1,93 @@
+import { useMemo, useState } from 'react';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
+import { fetchAllPages, supabase } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  buildShareTrend,
+  compareSnapshots,
+  formatDimension,
+  groupSnapshots,
+  type DemographicsBreakdown,
+  type DemographicsRow,
+  type DemographicsSource,
+} from '@/lib/demographics';
 import { Loader2 } from 'lucide-react';
-import { PieChart, Pie, Cell, Legend, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-
-interface Demographics {
-  id: string;
-  profile_id: string;
-  gender_male_percentage: number;
-  gender_female_percentage: number;
-  gender_unknown_percentage: number;
-  age_13_17: number;
-  age_18_24: number;
-  age_25_34: number;
-  age_35_44: number;
-  age_45_54: number;
-  age_55_plus: number;
-  top_locations: string[];
-  captured_at: string;
-}
+import {
+  PieChart,
+  Pie,
+  Cell,
+  Legend,
+  Tooltip,
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+} from 'recharts';
+
+// How far back estimates are loaded for comparison
+const HISTORY_DAYS = 365;
+
+const SOURCE_LABELS: Record<DemographicsSource, string> = {
+  GRAPH_API: 'Instagram insights',
+  ESTIMATED: 'Estimated from followers',
+};
+
+const BREAKDOWN_LABELS: Record<DemographicsBreakdown, string> = {
+  gender: 'Gender',
+  age: 'Age',
+  language: 'Language',
+  country: 'Country',
+  city: 'City',
+};
+
+const COLORS = ['#ec4899', '#f43f5e', '#fb7185', '#fda4af', '#fbcfe8', '#fce7f3'];
+const TREND_COLORS = ['#ec4899', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6'];
 
 export default function Demographics() {
   const { user } = useSupabaseAuth();
   const { data: profile } = useProfile(user?.id);
+  const [selectedSource, setSelectedSource] = useState<DemographicsSource | null>(null);
+  const [trendBreakdown, setTrendBreakdown] = useState<DemographicsBreakdown>('gender');
+  const [compareDate, setCompareDate] = useState<string | null>(null);
 
-  const { data: demographics, isLoading } = useQuery({
+  const { data: rows, isLoading } = useQuery({
     queryKey: ['demographics', profile?.id],
     queryFn: async () => {
-      if (!profile?.id) return null;
-
-      const { data, error } = await supabase
-        .from('audience_demographics')
-        .select('*')
-        .eq('profile_id', profile.id)
-        .order('captured_at', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-      return data as Demographics | null;
+      if (!profile?.id) return [];
+
+      const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      // A year of daily snapshots spans many pages (20-100 rows a day per source)
+      return fetchAllPages<DemographicsRow>(
+        supabase
+          .from('audience_demographics')
+          .select('date, breakdown, dimension, value, source, sample_size, method')
+          .eq('profile_id', profile.id)
+          .gte('date', since)
+          .order('date', { ascending: false })
+          .order('source', { ascending: true })
+          .order('breakdown', { ascending: true })
+          .order('dimension', { ascending: true })
+      );
     },
     enabled: !!profile?.id,
   });
 
+  const snapshots = useMemo(() => groupSnapshots(rows || []), [rows]);
+  const sources = Array.from(new Set(snapshots.map((snapshot) => snapshot.source)));
+  // Instagram's own numbers are preferred when the account has them
+  const source = selectedSource && sources.includes(selectedSource)
+    ? selectedSource
+    : sources.includes('GRAPH_API') ? 'GRAPH_API' : sources[0];
+  const sourceSnapshots = snapshots.filter((snapshot) => snapshot.source === source);
+  const latest = sourceSnapshots[0];
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -53,7 +96,7 @@ export default function Demographics() {
     );
   }
 
-  if (!demographics) {
+  if (!latest) {
     return (
       <div className="max-w-6xl mx-auto space-y-8">
         <div>
@@ -69,118 +112,257 @@ export default function Demographics() {
     );
   }
 
-  const genderData = [
-    { name: 'Male', value: demographics.gender_male_percentage },
-    { name: 'Female', value: demographics.gender_female_percentage },
-    { name: 'Unknown', value: demographics.gender_unknown_percentage },
-  ];
+  const genderData = (latest.breakdowns.gender || []).map((item) => ({
+    name: formatDimension('gender', item.dimension),
+    value: item.share,
+  }));
+  const ageData = (latest.breakdowns.age || [])
+    .map((item) => ({ name: item.dimension, value: item.share }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const languageData = (latest.breakdowns.language || []).map((item) => ({
+    name: formatDimension('language', item.dimension),
+    value: item.share,
+  }));
+  const locations = [...(latest.breakdowns.country || []), ...(latest.breakdowns.city || [])]
+    .filter((item) => item.dimension !== 'unknown')
+    .slice(0, 10);
 
-  const ageData = [
-    { name: '13-17', value: demographics.age_13_17 },
-    { name: '18-24', value: demographics.age_18_24 },
-    { name: '25-34', value: demographics.age_25_34 },
-    { name: '35-44', value: demographics.age_35_44 },
-    { name: '45-54', value: demographics.age_45_54 },
-    { name: '55+', value: demographics.age_55_plus },
-  ];
-
-  const COLORS = ['#ec4899', '#f43f5e', '#fb7185', '#fda4af', '#fbcfe8', '#fce7f3'];
+  const trendBreakdowns = (['gender', 'language', 'country', 'age', 'city'] as DemographicsBreakdown[]).filter(
+    (breakdown) => latest.breakdowns[breakdown]
+  );
+  const breakdown = trendBreakdowns.includes(trendBreakdown) ? trendBreakdown : trendBreakdowns[0];
+  const olderSnapshots = sourceSnapshots.slice(1);
+  const previous = olderSnapshots.find((snapshot) => snapshot.date === compareDate) || olderSnapshots[olderSnapshots.length - 1];
+  const trend = buildShareTrend(sourceSnapshots, breakdown);
+  const changes = previous ? compareSnapshots(latest, previous, breakdown).slice(0, 8) : [];
 
   return (
     <div className="max-w-6xl mx-auto space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold">Audience Demographics</h1>
-        <p className="text-gray-600 mt-2">Understand your audience composition and characteristics</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Audience Demographics</h1>
+          <p className="text-gray-600 mt-2">
+            {SOURCE_LABELS[latest.source]} on {new Date(`${latest.date}T00:00:00`).toLocaleDateString()}
+            {latest.sample_size ? ` · ${latest.sample_size.toLocaleString()} followers analyzed` : ''}
+          </p>
+        </div>
+        {sources.length > 1 && (
+          <Select value={source} onValueChange={(v) => setSelectedSource(v as DemographicsSource)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sources.map((item) => (
+                <SelectItem key={item} value={item}>{SOURCE_LABELS[item]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* Gender Distribution */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Gender Distribution</CardTitle>
-          <CardDescription>Estimated breakdown of your audience by gender</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            <div>
-              <ResponsiveContainer width="100%" height={300}>
-                <PieChart>
-                  <Pie
-                    data={genderData}
-                    cx="50%"
-                    cy="50%"
-                    labelLine={false}
-                    label={({ name, value }) => `${name}: ${value}%`}
-                    outerRadius={100}
-                    fill="#8884d8"
-                    dataKey="value"
-                  >
-                    {genderData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                    ))}
-                  </Pie>
-                  <Tooltip formatter={(value) => `${value}%`} />
-                </PieChart>
-              </ResponsiveContainer>
-            </div>
-            <div className="space-y-4">
-              {genderData.map((item, index) => (
-                <div key={item.name} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
-                  <div className="flex items-center gap-3">
-                    <div
-                      className="w-4 h-4 rounded"
-                      style={{ backgroundColor: COLORS[index % COLORS.length] }}
-                    />
-                    <span className="font-medium">{item.name}</span>
+      {genderData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Gender Distribution</CardTitle>
+            <CardDescription>
+              {latest.source === 'ESTIMATED'
+                ? 'Guessed from follower first names; names not in the dictionary count as unknown'
+                : 'Breakdown of your followers by gender'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <div>
+                <ResponsiveContainer width="100%" height={300}>
+                  <PieChart>
+                    <Pie
+                      data={genderData}
+                      cx="50%"
+                      cy="50%"
+                      labelLine={false}
+                      label={({ name, value }) => `${name}: ${value}%`}
+                      outerRadius={100}
+                      fill="#8884d8"
+                      dataKey="value"
+                    >
+                      {genderData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value) => `${value}%`} />
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-4">
+                {genderData.map((item, index) => (
+                  <div key={item.name} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-3">
+                      <div
+                        className="w-4 h-4 rounded"
+                        style={{ backgroundColor: COLORS[index % COLORS.length] }}
+                      />
+                      <span className="font-medium">{item.name}</span>
+                    </div>
+                    <span className="text-2xl font-bold">{item.value}%</span>
                   </div>
-                  <span className="text-2xl font-bold">{item.value}%</span>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Age Distribution */}
+      {ageData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Age Distribution</CardTitle>
+            <CardDescription>Breakdown of your followers by age group</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={ageData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip formatter={(value) => `${value}%`} />
+                <Bar dataKey="value" fill="#ec4899" />
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="mt-6 grid grid-cols-2 md:grid-cols-3 gap-4">
+              {ageData.map((item) => (
+                <div key={item.name} className="p-4 bg-gradient-to-br from-pink-50 to-rose-50 rounded-lg border border-pink-200">
+                  <p className="text-sm text-gray-600">{item.name} years</p>
+                  <p className="text-2xl font-bold text-pink-600 mt-1">{item.value}%</p>
                 </div>
               ))}
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
 
-      {/* Age Distribution */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Age Distribution</CardTitle>
-          <CardDescription>Estimated breakdown of your audience by age group</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={ageData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" />
-              <YAxis />
-              <Tooltip />
-              <Bar dataKey="value" fill="#ec4899" />
-            </BarChart>
-          </ResponsiveContainer>
-          <div className="mt-6 grid grid-cols-2 md:grid-cols-3 gap-4">
-            {ageData.map((item) => (
-              <div key={item.name} className="p-4 bg-gradient-to-br from-pink-50 to-rose-50 rounded-lg border border-pink-200">
-                <p className="text-sm text-gray-600">{item.name} years</p>
-                <p className="text-2xl font-bold text-pink-600 mt-1">{item.value}%</p>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+      {/* Languages */}
+      {languageData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Languages</CardTitle>
+            <CardDescription>Hinted by the writing system and accents of follower names</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={languageData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip formatter={(value) => `${value}%`} />
+                <Bar dataKey="value" fill="#8b5cf6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Top Locations */}
-      {demographics.top_locations && demographics.top_locations.length > 0 && (
+      {locations.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle>Top Locations</CardTitle>
-            <CardDescription>Countries and regions where your audience is located</CardDescription>
+            <CardDescription>
+              {latest.source === 'ESTIMATED'
+                ? 'Countries hinted by flags, places and country codes in follower names and usernames'
+                : 'Countries and cities where your followers are located'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
-              {demographics.top_locations.map((location, index) => (
-                <div key={location} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              {locations.map((location, index) => (
+                <div key={location.dimension} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                   <div className="flex items-center gap-3">
                     <span className="font-semibold text-gray-600">#{index + 1}</span>
-                    <span className="font-medium">{location}</span>
+                    <span className="font-medium">{location.dimension}</span>
+                  </div>
+                  <span className="text-sm font-semibold text-gray-700">{location.share}%</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Changes Over Time */}
+      {olderSnapshots.length > 0 && previous && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>Changes Over Time</CardTitle>
+              <CardDescription>Share of each group in every snapshot, and how it moved since an earlier one</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={breakdown} onValueChange={(v) => setTrendBreakdown(v as DemographicsBreakdown)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {trendBreakdowns.map((item) => (
+                    <SelectItem key={item} value={item}>{BREAKDOWN_LABELS[item]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={previous.date} onValueChange={setCompareDate}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {olderSnapshots.map((snapshot) => (
+                    <SelectItem key={snapshot.date} value={snapshot.date}>
+                      vs {new Date(`${snapshot.date}T00:00:00`).toLocaleDateString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={trend.rows}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} unit="%" />
+                <Tooltip formatter={(value) => `${value}%`} />
+                <Legend />
+                {trend.dimensions.map((dimension, index) => (
+                  <Line
+                    key={dimension}
+                    type="monotone"
+                    dataKey={dimension}
+                    name={formatDimension(breakdown, dimension)}
+                    stroke={TREND_COLORS[index % TREND_COLORS.length]}
+                    strokeWidth={2}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            {previous.method !== latest.method && (
+              <p className="text-sm text-amber-700">
+                These snapshots were estimated with different methods ({previous.method} and {latest.method}), so part of the change may come from the method.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              {changes.map((item) => (
+                <div key={item.dimension} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <span className="font-medium">{formatDimension(breakdown, item.dimension)}</span>
+                  <div className="flex items-center gap-4 text-sm">
+                    <span className="text-gray-500">{item.previousShare}% → {item.share}%</span>
+                    <span
+                      className={`w-20 text-right font-semibold ${
+                        item.change > 0 ? 'text-green-600' : item.change < 0 ? 'text-red-600' : 'text-gray-500'
+                      }`}
+                    >
+                      {item.change > 0 ? '+' : ''}{item.change} pts
+                    </span>
                   </div>
                 </div>
               ))}
@@ -193,7 +375,10 @@ export default function Demographics() {
       <Card className="bg-blue-50 border-blue-200">
         <CardContent className="pt-6">
           <p className="text-sm text-blue-900">
-            <strong>Note:</strong> Demographics data is estimated based on Instagram's audience insights API and may not be 100% accurate. These are approximations used for analytics purposes.
+            <strong>Note:</strong>{' '}
+            {latest.source === 'ESTIMATED'
+              ? "These figures are estimated from your followers' names and usernames with offline heuristics, not from Instagram. Treat them as rough indications; followers without a usable hint are counted as unknown."
+              : "Demographics data comes from Instagram's audience insights API and may not be 100% accurate. These are approximations used for analytics purposes."}
           </p>
         </CardContent>
       </Card>
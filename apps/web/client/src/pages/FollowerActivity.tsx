@@ -0,0 +1,319 @@
+import { useMemo, useState } from 'react';
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useQuery } from '@tanstack/react-query';
+import { fetchAllPages, supabase } from '@/lib/supabase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Download, Search, UserPlus, UserMinus, TrendingUp, X } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { exportDataToCSV } from '@/lib/exportUtils';
+import {
+  buildDailyActivity,
+  CHANGE_TYPE_LABELS,
+  describeFollowHistory,
+  type FollowerChange,
+  type FollowerChangeType,
+} from '@/lib/followerActivity';
+
+const FEED_PAGE_SIZE = 50;
+const RANGE_OPTIONS = [7, 30, 90, 365];
+
+const CHANGE_TYPE_BADGES: Record<FollowerChangeType, string> = {
+  NEW_FOLLOWER: 'bg-green-50 text-green-700 border-green-200',
+  UNFOLLOWED: 'bg-red-50 text-red-700 border-red-200',
+  STARTED_FOLLOWING: 'bg-blue-50 text-blue-700 border-blue-200',
+  STOPPED_FOLLOWING: 'bg-gray-50 text-gray-700 border-gray-200',
+};
+
+export default function FollowerActivity() {
+  const { user } = useSupabaseAuth();
+  const { data: profile } = useProfile(user?.id);
+  const [rangeDays, setRangeDays] = useState(30);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState<FollowerChangeType | 'ALL'>('ALL');
+  const [feedLimit, setFeedLimit] = useState(FEED_PAGE_SIZE);
+  const [selectedAccount, setSelectedAccount] = useState<{ igId: string; username: string } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { data: changes, isLoading } = useQuery({
+    queryKey: ['follower_changes', profile?.id, rangeDays],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString();
+      return fetchAllPages<FollowerChange>(
+        supabase
+          .from('follower_changes')
+          .select('id, follower_ig_id, follower_username, change_type, detected_at')
+          .eq('profile_id', profile.id)
+          .gte('detected_at', since)
+          .order('detected_at', { ascending: false })
+          .order('id', { ascending: true })
+      );
+    },
+    enabled: !!profile?.id,
+  });
+
+  // The whole history of the selected account, not only the events in range
+  const { data: accountHistory } = useQuery({
+    queryKey: ['follower_history', profile?.id, selectedAccount?.igId],
+    queryFn: async () => {
+      if (!profile?.id || !selectedAccount) return [];
+
+      const { data, error } = await supabase
+        .from('follower_changes')
+        .select('id, follower_ig_id, follower_username, change_type, detected_at')
+        .eq('profile_id', profile.id)
+        .eq('follower_ig_id', selectedAccount.igId)
+        .order('detected_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as FollowerChange[];
+    },
+    enabled: !!profile?.id && !!selectedAccount,
+  });
+
+  const daily = useMemo(() => buildDailyActivity(changes || [], rangeDays), [changes, rangeDays]);
+  const gained = daily.reduce((sum, day) => sum + day.gained, 0);
+  const lost = -daily.reduce((sum, day) => sum + day.lost, 0);
+
+  const feed = (changes || []).filter((change) =>
+    (typeFilter === 'ALL' || change.change_type === typeFilter) &&
+    change.follower_username.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const handleExport = async () => {
+    if (!profile?.id) return;
+
+    setExporting(true);
+    setExportError(null);
+    try {
+      // The whole history, not only the range on screen
+      const allChanges = await fetchAllPages<FollowerChange>(
+        supabase
+          .from('follower_changes')
+          .select('id, follower_ig_id, follower_username, change_type, detected_at')
+          .eq('profile_id', profile.id)
+          .order('detected_at', { ascending: false })
+          .order('id', { ascending: true })
+      );
+      exportDataToCSV(
+        allChanges,
+        ['follower_username', 'follower_ig_id', 'change_type', 'detected_at'],
+        `follower-activity-${new Date().toISOString().split('T')[0]}.csv`
+      );
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Export failed. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Follower Activity</h1>
+          <p className="text-gray-600 mt-2">Who followed and unfollowed you, as detected by each followers sync</p>
+        </div>
+        <div className="flex gap-2">
+          <Select
+            value={String(rangeDays)}
+            onValueChange={(value) => {
+              setRangeDays(Number(value));
+              setFeedLimit(FEED_PAGE_SIZE);
+            }}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((days) => (
+                <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Gained</p>
+                <p className="text-3xl font-bold text-green-600">+{gained.toLocaleString()}</p>
+              </div>
+              <UserPlus className="w-8 h-8 text-green-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Lost</p>
+                <p className="text-3xl font-bold text-red-600">-{lost.toLocaleString()}</p>
+              </div>
+              <UserMinus className="w-8 h-8 text-red-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 mb-1">Net Change</p>
+                <p className="text-3xl font-bold">
+                  {gained - lost >= 0 ? '+' : ''}{(gained - lost).toLocaleString()}
+                </p>
+              </div>
+              <TrendingUp className="w-8 h-8 text-blue-500" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Daily Chart */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Gained and Lost per Day</CardTitle>
+          <CardDescription>New followers above the line, unfollows below</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={daily} stackOffset="sign">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value) => Math.abs(Number(value)).toLocaleString()} />
+              <Legend />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              <Bar dataKey="gained" name="Gained" stackId="activity" fill="#10b981" />
+              <Bar dataKey="lost" name="Lost" stackId="activity" fill="#ef4444" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Account History */}
+      {selectedAccount && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle>@{selectedAccount.username}</CardTitle>
+              <CardDescription>
+                {(accountHistory && describeFollowHistory(accountHistory)) || 'Full history of this account'}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setSelectedAccount(null)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {(accountHistory || []).map((change) => (
+                <div key={change.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <Badge variant="outline" className={`text-xs ${CHANGE_TYPE_BADGES[change.change_type]}`}>
+                    {CHANGE_TYPE_LABELS[change.change_type]}
+                  </Badge>
+                  <span className="text-sm text-gray-600">{new Date(change.detected_at).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Event Feed */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Events</CardTitle>
+          <CardDescription>Click an account to see its whole follow history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />
+                <Input
+                  placeholder="Search by username..."
+                  value={searchTerm}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setFeedLimit(FEED_PAGE_SIZE);
+                  }}
+                  className="pl-10"
+                />
+              </div>
+              <Select
+                value={typeFilter}
+                onValueChange={(value) => {
+                  setTypeFilter(value as FollowerChangeType | 'ALL');
+                  setFeedLimit(FEED_PAGE_SIZE);
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All events</SelectItem>
+                  {(Object.keys(CHANGE_TYPE_LABELS) as FollowerChangeType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{CHANGE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {feed.length === 0 ? (
+              <p className="text-center text-gray-600 py-8">No events in this period</p>
+            ) : (
+              <div className="space-y-2">
+                {feed.slice(0, feedLimit).map((change) => (
+                  <button
+                    key={change.id}
+                    type="button"
+                    onClick={() => setSelectedAccount({ igId: change.follower_ig_id, username: change.follower_username })}
+                    className="w-full flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50 text-left"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Badge variant="outline" className={`text-xs ${CHANGE_TYPE_BADGES[change.change_type]}`}>
+                        {CHANGE_TYPE_LABELS[change.change_type]}
+                      </Badge>
+                      <span className="font-medium">@{change.follower_username}</span>
+                    </div>
+                    <span className="text-sm text-gray-600">{new Date(change.detected_at).toLocaleString()}</span>
+                  </button>
+                ))}
+                {feed.length > feedLimit && (
+                  <Button variant="outline" className="w-full" onClick={() => setFeedLimit(feedLimit + FEED_PAGE_SIZE)}>
+                    Show more ({(feed.length - feedLimit).toLocaleString()} remaining)
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
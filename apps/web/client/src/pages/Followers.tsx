@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
+import { fetchAllPages, supabase } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -20,9 +20,38 @@ import {
   Heart,
   Star,
   CheckCircle2,
-  XCircle
+  XCircle,
+  Ghost,
+  AlertTriangle,
+  Sparkles,
+  History
 } from 'lucide-react';
 import { exportDataToCSV } from '@/lib/exportUtils';
+import { FollowerQualityTrend } from '@/components/FollowerQualityTrend';
+import { EngagementRanking } from '@/components/EngagementRanking';
+import { FollowerHistory } from '@/components/FollowerHistory';
+import { CHANGE_TYPE_LABELS, localDateKey } from '@/lib/followerActivity';
+import {
+  endOfLocalDay,
+  type FollowerSetChange,
+  type FollowerSnapshotSummary,
+  type HistoricalFollower,
+} from '@/lib/followerHistory';
+import {
+  findSilentFollowers,
+  rankProspects,
+  rankTopFans,
+  type AccountEngagement,
+} from '@/lib/engagement';
+import {
+  explainQualityFlags,
+  isFlaggedFollower,
+  QUALITY_FLAG_LABELS,
+  QUALITY_LEVEL_LABELS,
+  type FollowerQualityFlag,
+  type FollowerQualityLevel,
+  type FollowerQualitySnapshot,
+} from '@/lib/followerQuality';
 
 interface Follower {
   id: string;
@@ -35,6 +64,11 @@ interface Follower {
   is_follower: boolean;
   is_following: boolean;
   is_following_back: boolean;
+  follower_following_count: number | null;
+  quality_score: number | null;
+  quality_level: FollowerQualityLevel | null;
+  quality_flags: FollowerQualityFlag[] | null;
+  quality_scored_at: string | null;
   created_at: string;
 }
 
@@ -43,51 +77,138 @@ export default function Followers() {
   const { data: profile } = useProfile(user?.id);
   const [searchTerm, setSearchTerm] = useState('');
   const [activeTab, setActiveTab] = useState('followers');
+  const [historyDate, setHistoryDate] = useState(() => localDateKey(new Date()));
+  const [historyCompareDate, setHistoryCompareDate] = useState('');
 
   const { data: followers, isLoading } = useQuery({
     queryKey: ['followers', profile?.id],
     queryFn: async () => {
       if (!profile?.id) return [];
       
-      let allFollowers: Follower[] = [];
-      let page = 0;
-      const pageSize = 1000;
-      let hasMore = true;
-
-      while (hasMore) {
-        const { data, error } = await supabase
+      return fetchAllPages<Follower>(
+        supabase
           .from('followers')
           .select('*')
           .eq('profile_id', profile.id)
           .order('follower_username', { ascending: true })
-          .range(page * pageSize, (page + 1) * pageSize - 1);
-        
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          allFollowers = [...allFollowers, ...data];
-          page++;
-          
-          // Se retornou menos que pageSize, não há mais registros
-          if (data.length < pageSize) {
-            hasMore = false;
-          }
-        } else {
-          hasMore = false;
-        }
-      }
-      
-      return allFollowers as Follower[];
+      );
+    },
+    enabled: !!profile?.id,
+  });
+
+  const { data: qualitySnapshots } = useQuery({
+    queryKey: ['follower_quality_snapshots', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const { data, error } = await supabase
+        .from('follower_quality_snapshots')
+        .select('date, method, scored_followers, low_quality_count, ghost_count, avg_score, flag_counts')
+        .eq('profile_id', profile.id)
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as FollowerQualitySnapshot[];
+    },
+    enabled: !!profile?.id,
+  });
+
+  const { data: engagement } = useQuery({
+    queryKey: ['account_engagement', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return { accounts: [] as AccountEngagement[], trackedPosts: 0 };
+
+      // Posts whose likers and commenters have been collected
+      const { count, error: countError } = await supabase
+        .from('media')
+        .select('id', { count: 'exact', head: true })
+        .eq('profile_id', profile.id)
+        .not('interactions_synced_at', 'is', null);
+
+      if (countError) throw countError;
+
+      const accounts = await fetchAllPages<AccountEngagement>(
+        supabase
+          .from('account_engagement')
+          .select('account_ig_id, account_username, likes, comments, posts_engaged, last_interaction_at, is_follower')
+          .eq('profile_id', profile.id)
+          .order('account_ig_id', { ascending: true })
+      );
+
+      return { accounts, trackedPosts: count || 0 };
     },
     enabled: !!profile?.id,
   });
 
+  // Snapshot dates and totals only; the id lists are read through followers_at and followers_diff
+  const { data: followerSnapshots } = useQuery({
+    queryKey: ['followers_snapshots', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      return fetchAllPages<FollowerSnapshotSummary>(
+        supabase
+          .from('followers_snapshots')
+          .select('captured_at, total_followers, total_following')
+          .eq('profile_id', profile.id)
+          .not('snapshot_data', 'is', null)
+          .order('captured_at', { ascending: true })
+      );
+    },
+    enabled: !!profile?.id && activeTab === 'history',
+  });
+
+  const { data: historicalFollowers, isLoading: historicalFollowersLoading } = useQuery({
+    queryKey: ['followers_at', profile?.id, historyDate],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const rows = await fetchAllPages<HistoricalFollower>(
+        supabase
+          .rpc('followers_at', { p_profile_id: profile.id, p_at: endOfLocalDay(historyDate) })
+          .order('follower_ig_id', { ascending: true })
+      );
+      return rows.sort((a, b) => a.follower_username.localeCompare(b.follower_username));
+    },
+    enabled: !!profile?.id && activeTab === 'history' && !!historyDate,
+  });
+
+  const { data: historyChanges, isLoading: historyChangesLoading } = useQuery({
+    queryKey: ['followers_diff', profile?.id, historyDate, historyCompareDate],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const [fromDate, toDate] = [historyDate, historyCompareDate].sort();
+      return fetchAllPages<FollowerSetChange>(
+        supabase
+          .rpc('followers_diff', {
+            p_profile_id: profile.id,
+            p_from: endOfLocalDay(fromDate),
+            p_to: endOfLocalDay(toDate),
+          })
+          .order('change_type', { ascending: true })
+          .order('follower_ig_id', { ascending: true })
+      );
+    },
+    enabled: !!profile?.id && activeTab === 'history' && !!historyDate && !!historyCompareDate,
+  });
+
   // Categorize followers
   const myFollowers = followers?.filter(f => f.is_follower) || [];
   const myFollowing = followers?.filter(f => f.is_following) || [];
   const mutualFollows = followers?.filter(f => f.is_following_back) || [];
   const notFollowingBack = followers?.filter(f => f.is_following && !f.is_follower) || [];
   const fansOnly = followers?.filter(f => f.is_follower && !f.is_following) || [];
+  const topFans = rankTopFans(engagement?.accounts || []);
+  const prospects = rankProspects(engagement?.accounts || []);
+  const silentFollowers = engagement?.trackedPosts ? findSilentFollowers(myFollowers, engagement.accounts) : [];
+  const flaggedFollowers = myFollowers
+    .filter(isFlaggedFollower)
+    .sort((a, b) => (b.quality_score ?? 0) - (a.quality_score ?? 0));
+
+  const matchesSearch = (username: string, name?: string | null) =>
+    username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    !!name?.toLowerCase().includes(searchTerm.toLowerCase());
 
   // Filter based on active tab and search
   const getFilteredList = () => {
@@ -109,15 +230,15 @@ export default function Followers() {
       case 'fans':
         list = fansOnly;
         break;
+      case 'ghosts':
+        list = flaggedFollowers;
+        break;
       default:
         list = myFollowers;
     }
 
     if (searchTerm) {
-      list = list.filter(f =>
-        f.follower_username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        f.follower_name?.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+      list = list.filter(f => matchesSearch(f.follower_username, f.follower_name));
     }
 
     return list;
@@ -146,6 +267,53 @@ export default function Followers() {
         dataToExport = fansOnly;
         filename = 'fans-only.csv';
         break;
+      case 'ghosts':
+        // Dated, so exports from different days can be compared when auditing the audience
+        exportDataToCSV(
+          flaggedFollowers.map((follower) => ({
+            ...follower,
+            quality_level: follower.quality_level ? QUALITY_LEVEL_LABELS[follower.quality_level] : '',
+            quality_flags: (follower.quality_flags || []).map((flag) => QUALITY_FLAG_LABELS[flag]).join('; '),
+            reasons: explainQualityFlags(follower).join('; '),
+          })),
+          ['follower_username', 'follower_name', 'quality_score', 'quality_level', 'quality_flags', 'reasons', 'is_private', 'follower_following_count', 'quality_scored_at'],
+          `ghost-followers-${new Date().toISOString().split('T')[0]}.csv`
+        );
+        return;
+      case 'history':
+        if (historyCompareDate && historyChanges) {
+          const [fromDate, toDate] = [historyDate, historyCompareDate].sort();
+          exportDataToCSV(
+            historyChanges.map((change) => ({ ...change, change: CHANGE_TYPE_LABELS[change.change_type] })),
+            ['follower_username', 'follower_ig_id', 'change', 'from_captured_at', 'to_captured_at'],
+            `follower-changes-${fromDate}-to-${toDate}.csv`
+          );
+        } else {
+          exportDataToCSV(
+            historicalFollowers || [],
+            ['follower_username', 'follower_ig_id', 'follower_name', 'is_following', 'snapshot_captured_at'],
+            `followers-${historyDate}.csv`
+          );
+        }
+        return;
+      case 'engagement':
+        exportDataToCSV(
+          [
+            ...topFans.map((account) => ({ ...account, segment: 'Top fan' })),
+            ...prospects.map((account) => ({ ...account, segment: 'Prospect' })),
+            ...silentFollowers.map((follower) => ({
+              account_username: follower.follower_username,
+              is_follower: true,
+              likes: 0,
+              comments: 0,
+              posts_engaged: 0,
+              segment: 'Never engages',
+            })),
+          ],
+          ['account_username', 'segment', 'is_follower', 'posts_engaged', 'likes', 'comments', 'last_interaction_at'],
+          'follower-engagement.csv'
+        );
+        return;
     }
 
     exportDataToCSV(
@@ -224,7 +392,24 @@ export default function Followers() {
                   🔒 Private
                 </Badge>
               )}
+              {user.is_follower && isFlaggedFollower(user) && (
+                <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200">
+                  <Ghost className="w-3 h-3 mr-1" />
+                  {QUALITY_LEVEL_LABELS[user.quality_level!]} ({user.quality_score})
+                </Badge>
+              )}
             </div>
+
+            {activeTab === 'ghosts' && (
+              <ul className="mt-2 space-y-1">
+                {explainQualityFlags(user).map((reason) => (
+                  <li key={reason} className="flex items-start gap-1.5 text-xs text-gray-600">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0 text-amber-500" />
+                    {reason}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
       </CardContent>
@@ -253,7 +438,7 @@ export default function Followers() {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <Card 
           className={`bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200 cursor-pointer hover:shadow-xl hover:scale-105 ${
             activeTab === 'followers' ? 'shadow-xl scale-105' : ''
@@ -338,6 +523,23 @@ export default function Followers() {
             </div>
           </CardContent>
         </Card>
+
+        <Card 
+          className={`bg-gradient-to-br from-gray-50 to-gray-100 border-gray-200 cursor-pointer hover:shadow-xl hover:scale-105 ${
+            activeTab === 'ghosts' ? 'shadow-xl scale-105' : ''
+          }`}
+          onClick={() => setActiveTab('ghosts')}
+        >
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <Ghost className={`w-8 h-8 mx-auto mb-2 text-gray-600 ${
+                activeTab === 'ghosts' ? 'scale-110' : ''
+              }`} />
+              <p className="text-2xl font-bold text-gray-900">{flaggedFollowers.length}</p>
+              <p className="text-xs text-gray-700 mt-1">Ghosts & Low Quality</p>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Search and Export */}
@@ -359,7 +561,7 @@ export default function Followers() {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="followers">Followers ({myFollowers.length})</TabsTrigger>
           <TabsTrigger value="following">Following ({myFollowing.length})</TabsTrigger>
           <TabsTrigger value="mutual">Mutual ({mutualFollows.length})</TabsTrigger>
@@ -367,10 +569,48 @@ export default function Followers() {
             Not Following Back ({notFollowingBack.length})
           </TabsTrigger>
           <TabsTrigger value="fans">Fans ({fansOnly.length})</TabsTrigger>
+          <TabsTrigger value="ghosts">Ghosts ({flaggedFollowers.length})</TabsTrigger>
+          <TabsTrigger value="engagement">
+            <Sparkles className="w-4 h-4 mr-1" />
+            Engagement
+          </TabsTrigger>
+          <TabsTrigger value="history">
+            <History className="w-4 h-4 mr-1" />
+            History
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value={activeTab} className="mt-6">
-          {filteredList.length === 0 ? (
+          {activeTab === 'ghosts' && (
+            <div className="mb-6">
+              <FollowerQualityTrend snapshots={qualitySnapshots || []} />
+            </div>
+          )}
+          {activeTab === 'history' ? (
+            <FollowerHistory
+              snapshots={followerSnapshots || []}
+              date={historyDate}
+              compareDate={historyCompareDate}
+              onDateChange={setHistoryDate}
+              onCompareDateChange={setHistoryCompareDate}
+              followers={(historicalFollowers || []).filter((follower) =>
+                matchesSearch(follower.follower_username, follower.follower_name)
+              )}
+              changes={
+                historyCompareDate && historyChanges
+                  ? historyChanges.filter((change) => matchesSearch(change.follower_username))
+                  : null
+              }
+              isLoading={historicalFollowersLoading || (!!historyCompareDate && historyChangesLoading)}
+            />
+          ) : activeTab === 'engagement' ? (
+            <EngagementRanking
+              topFans={topFans.filter((account) => matchesSearch(account.account_username))}
+              prospects={prospects.filter((account) => matchesSearch(account.account_username))}
+              silentFollowers={silentFollowers.filter((follower) => matchesSearch(follower.follower_username, follower.follower_name))}
+              trackedPosts={engagement?.trackedPosts || 0}
+            />
+          ) : filteredList.length === 0 ? (
             <Card>
               <CardContent className="pt-12 pb-12 text-center">
                 <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -1,12 +1,14 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/lib/supabase';
+import { fetchAllPages, supabase } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { HashtagRecommendations } from '@/components/HashtagRecommendations';
+import { buildHashtagRecommendations, type HashtagPost } from '@/lib/hashtagRecommendations';
 import { Loader2, TrendingUp, Search } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface Hashtag {
   id: string;
@@ -16,13 +18,18 @@ interface Hashtag {
   avg_engagement: number;
   first_used: string;
   last_used: string;
+  derived_on: string;
 }
 
+
+type HashtagVersion = Pick<Hashtag, 'derived_on' | 'usage_count' | 'total_engagement' | 'avg_engagement'>;
+
 export default function Hashtags() {
   const { user } = useSupabaseAuth();
   const { data: profile } = useProfile(user?.id);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<'engagement' | 'usage' | 'avg'>('engagement');
+  const [selectedHashtag, setSelectedHashtag] = useState<string | null>(null);
 
   const { data: hashtags, isLoading } = useQuery({
     queryKey: ['hashtags', profile?.id],
@@ -30,7 +37,7 @@ export default function Hashtags() {
       if (!profile?.id) return [];
 
       const { data, error } = await supabase
-        .from('hashtags_metrics')
+        .from('hashtags_metrics_latest')
         .select('*')
         .eq('profile_id', profile.id)
         .order('total_engagement', { ascending: false });
@@ -41,6 +48,50 @@ export default function Hashtags() {
     enabled: !!profile?.id,
   });
 
+  // The chart follows the clicked hashtag, or the top one by engagement
+  const trendHashtag = selectedHashtag || hashtags?.[0]?.hashtag || null;
+
+  const { data: trend } = useQuery({
+    queryKey: ['hashtag_trend', profile?.id, trendHashtag],
+    queryFn: async () => {
+      if (!profile?.id || !trendHashtag) return [];
+
+      const { data, error } = await supabase
+        .from('hashtags_metrics')
+        .select('derived_on, usage_count, total_engagement, avg_engagement')
+        .eq('profile_id', profile.id)
+        .eq('hashtag', trendHashtag)
+        .order('derived_on', { ascending: true });
+
+      if (error) throw error;
+      return ((data || []) as HashtagVersion[]).map((version) => ({
+        ...version,
+        avg_engagement: Math.round(Number(version.avg_engagement)),
+      }));
+    },
+    enabled: !!profile?.id && !!trendHashtag,
+  });
+
+  // Recommendations are computed here from the synced posts, not derived by the worker
+  const { data: posts } = useQuery({
+    queryKey: ['hashtag_posts', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      return fetchAllPages<HashtagPost>(
+        supabase
+          .from('media')
+          .select('hashtags, likes_count, comments_count, timestamp')
+          .eq('profile_id', profile.id)
+          .neq('media_type', 'STORY')
+          .order('timestamp', { ascending: true })
+      );
+    },
+    enabled: !!profile?.id,
+  });
+
+  const recommendations = useMemo(() => buildHashtagRecommendations(posts || []), [posts]);
+
   const filteredHashtags = hashtags?.filter((h) =>
     h.hashtag.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
@@ -139,6 +190,38 @@ export default function Hashtags() {
         </Card>
       )}
 
+      {/* Hashtag Trend */}
+      {trendHashtag && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Trend of {trendHashtag}</CardTitle>
+            <CardDescription>
+              Average engagement per post and times used at each daily derivation. Click a hashtag below to chart it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {trend && trend.length > 1 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trend}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="derived_on" tick={{ fontSize: 12 }} />
+                  <YAxis yAxisId="engagement" tick={{ fontSize: 12 }} />
+                  <YAxis yAxisId="usage" orientation="right" allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Line yAxisId="engagement" type="monotone" dataKey="avg_engagement" name="Avg engagement" stroke="#ec4899" strokeWidth={2} />
+                  <Line yAxisId="usage" type="stepAfter" dataKey="usage_count" name="Times used" stroke="#3b82f6" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-center text-gray-600 py-8">
+                Not enough history yet: the trend appears after a second daily derivation.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Hashtags List */}
       <Card>
         <CardHeader>
@@ -186,12 +269,17 @@ export default function Hashtags() {
                   </thead>
                   <tbody>
                     {sortedHashtags.map((hashtag) => (
-                      <tr key={hashtag.id} className="border-b hover:bg-gray-50">
+                      <tr
+                        key={hashtag.id}
+                        onClick={() => setSelectedHashtag(hashtag.hashtag)}
+                        className={`border-b cursor-pointer hover:bg-gray-50 ${hashtag.hashtag === trendHashtag ? 'bg-pink-50' : ''}`}
+                      >
                         <td className="py-3 px-4">
                           <a
                             href={`https://instagram.com/explore/tags/${hashtag.hashtag.replace('#', '')}`}
                             target="_blank"
                             rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
                             className="text-blue-600 hover:underline font-medium"
                           >
                             {hashtag.hashtag}
@@ -214,6 +302,17 @@ export default function Hashtags() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Recommendations */}
+      {recommendations.post_count > 0 && (
+        <div className="space-y-4">
+          <div>
+            <h2 className="text-2xl font-bold">Recommendations for Your Next Post</h2>
+            <p className="text-gray-600 mt-1">Based on the {recommendations.post_count.toLocaleString()} posts synced so far</p>
+          </div>
+          <HashtagRecommendations recommendations={recommendations} />
+        </div>
+      )}
     </div>
   );
 }
@@ -6,11 +6,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Loader2 } from 'lucide-react';
 
 interface HourlyMetric {
-  day_of_week: number;
+  day_of_week: number; // 0 = Monday
   hour_of_day: number;
+  post_count: number;
   engagement_count: number;
+  avg_engagement: number;
+  timezone: string;
 }
 
+// Slots with fewer posts than this are greyed out and left out of the insights
+const MIN_SLOT_POSTS = 3;
+
 export default function Hours() {
   const { user } = useSupabaseAuth();
   const { data: profile } = useProfile(user?.id);
@@ -26,7 +32,11 @@ export default function Hours() {
         .eq('profile_id', profile.id);
 
       if (error) throw error;
-      return (data || []) as HourlyMetric[];
+      // PostgREST returns numeric columns as strings
+      return (data || []).map((metric) => ({
+        ...metric,
+        avg_engagement: Number(metric.avg_engagement),
+      })) as HourlyMetric[];
     },
     enabled: !!profile?.id,
   });
@@ -43,14 +53,32 @@ export default function Hours() {
   const hours = Array.from({ length: 24 }, (_, i) => i);
 
   // Create a 2D grid for the heatmap
-  const heatmapData: Record<string, number> = {};
+  const heatmapData: Record<string, HourlyMetric> = {};
   hourlyData?.forEach((metric) => {
-    const key = `${metric.day_of_week}-${metric.hour_of_day}`;
-    heatmapData[key] = metric.engagement_count;
+    heatmapData[`${metric.day_of_week}-${metric.hour_of_day}`] = metric;
+  });
+
+  const confidentSlots = (hourlyData || []).filter((metric) => metric.post_count >= MIN_SLOT_POSTS);
+
+  // Find max value for color scaling, among slots with enough posts
+  const maxEngagement = Math.max(...confidentSlots.map((metric) => metric.avg_engagement), 1);
+
+  // Best day: highest average engagement per post over its well-sampled slots
+  const dayTotals = days.map((_, dayIndex) => {
+    const slots = confidentSlots.filter((metric) => metric.day_of_week === dayIndex);
+    const posts = slots.reduce((sum, metric) => sum + metric.post_count, 0);
+    const engagement = slots.reduce((sum, metric) => sum + metric.engagement_count, 0);
+    return posts > 0 ? engagement / posts : 0;
   });
+  const bestDayAverage = Math.max(...dayTotals);
+  const bestDay = bestDayAverage > 0 ? days[dayTotals.indexOf(bestDayAverage)] : null;
 
-  // Find max value for color scaling
-  const maxEngagement = Math.max(...Object.values(heatmapData), 1);
+  const peakSlot = confidentSlots.reduce<HourlyMetric | null>(
+    (best, metric) => (!best || metric.avg_engagement > best.avg_engagement ? metric : best),
+    null
+  );
+  const postsAnalyzed = hourlyData?.reduce((sum, metric) => sum + metric.post_count, 0) || 0;
+  const timezone = hourlyData?.[0]?.timezone || profile?.timezone;
 
   const getColor = (value: number) => {
     const intensity = value / maxEngagement;
@@ -66,13 +94,19 @@ export default function Hours() {
     <div className="max-w-6xl mx-auto space-y-8">
       <div>
         <h1 className="text-3xl font-bold">Best Times to Post</h1>
-        <p className="text-gray-600 mt-2">7×24 engagement heatmap showing when your audience is most active</p>
+        <p className="text-gray-600 mt-2">
+          7×24 heatmap of the average engagement of your posts by the day and hour they were published
+          {timezone ? ` (${timezone})` : ''}
+        </p>
       </div>
 
       <Card>
         <CardHeader>
           <CardTitle>Engagement Heatmap</CardTitle>
-          <CardDescription>Darker colors indicate higher engagement. Hover for exact values.</CardDescription>
+          <CardDescription>
+            Darker colors indicate higher average likes + comments per post. Hatched slots have fewer than{' '}
+            {MIN_SLOT_POSTS} posts, too few to rely on. Hover for exact values.
+          </CardDescription>
         </CardHeader>
         <CardContent className="overflow-x-auto">
           <div className="inline-block">
@@ -97,12 +131,21 @@ export default function Hours() {
                 </div>
                 {hours.map((hour) => {
                   const key = `${dayIndex}-${hour}`;
-                  const value = heatmapData[key] || 0;
+                  const metric = heatmapData[key];
+                  const value = metric ? Math.round(metric.avg_engagement) : 0;
+                  const lowSample = !!metric && metric.post_count < MIN_SLOT_POSTS;
+                  const title = metric
+                    ? `${day} ${hour}:00 - ${value.toLocaleString()} avg engagements over ${metric.post_count} post${metric.post_count === 1 ? '' : 's'}${lowSample ? ' (too few posts)' : ''}`
+                    : `${day} ${hour}:00 - no posts`;
                   return (
                     <div
                       key={key}
-                      className={`w-12 h-12 flex items-center justify-center text-xs font-semibold text-gray-700 border cursor-pointer transition-all hover:ring-2 hover:ring-offset-2 hover:ring-blue-500 ${getColor(value)}`}
-                      title={`${day} ${hour}:00 - ${value} engagements`}
+                      className={`w-12 h-12 flex items-center justify-center text-xs font-semibold border cursor-pointer transition-all hover:ring-2 hover:ring-offset-2 hover:ring-blue-500 ${
+                        lowSample
+                          ? 'bg-gray-200 text-gray-400 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(255,255,255,0.6)_4px,rgba(255,255,255,0.6)_8px)]'
+                          : `text-gray-700 ${getColor(value)}`
+                      }`}
+                      title={title}
                     >
                       {value > 0 ? value : ''}
                     </div>
@@ -132,6 +175,10 @@ export default function Hours() {
                 <div className="w-6 h-6 bg-blue-900" />
                 <span className="text-xs">High</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div className="w-6 h-6 bg-gray-200 bg-[repeating-linear-gradient(45deg,transparent,transparent_4px,rgba(255,255,255,0.6)_4px,rgba(255,255,255,0.6)_8px)]" />
+                <span className="text-xs">Too few posts</span>
+              </div>
             </div>
           </div>
         </CardContent>
@@ -147,32 +194,20 @@ export default function Hours() {
             <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
               <p className="text-sm text-gray-600">Best Day</p>
               <p className="text-2xl font-bold text-blue-600 mt-1">
-                {hourlyData && hourlyData.length > 0
-                  ? days[
-                      Math.floor(
-                        hourlyData.reduce((sum, m) => sum + m.engagement_count, 0) /
-                          hourlyData.length /
-                          24
-                      )
-                    ] || 'N/A'
-                  : 'N/A'}
+                {bestDay || 'N/A'}
               </p>
             </div>
             <div className="p-4 bg-green-50 rounded-lg border border-green-200">
               <p className="text-sm text-gray-600">Peak Hour</p>
               <p className="text-2xl font-bold text-green-600 mt-1">
-                {hourlyData && hourlyData.length > 0
-                  ? `${Math.max(...hourlyData.map((m) => m.hour_of_day))
-                      .toString()
-                      .padStart(2, '0')}:00`
+                {peakSlot
+                  ? `${days[peakSlot.day_of_week].slice(0, 3)} ${peakSlot.hour_of_day.toString().padStart(2, '0')}:00`
                   : 'N/A'}
               </p>
             </div>
             <div className="p-4 bg-purple-50 rounded-lg border border-purple-200">
-              <p className="text-sm text-gray-600">Total Engagements</p>
-              <p className="text-2xl font-bold text-purple-600 mt-1">
-                {hourlyData?.reduce((sum, m) => sum + m.engagement_count, 0).toLocaleString() || '0'}
-              </p>
+              <p className="text-sm text-gray-600">Posts Analyzed</p>
+              <p className="text-2xl font-bold text-purple-600 mt-1">{postsAnalyzed.toLocaleString()}</p>
             </div>
           </div>
         </CardContent>
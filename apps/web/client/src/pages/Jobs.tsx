@@ -0,0 +1,321 @@
+import { Fragment, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { supabase } from '@/lib/supabase';
+import { parseJobError, JOB_ERROR_CATEGORY_COLORS } from '@/lib/jobErrors';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface SyncJobRow {
+  id: string;
+  job_type: string;
+  status: string;
+  started_at: string | null;
+  finished_at: string | null;
+  processed_items: number;
+  error_message: string | null;
+  attempts: number;
+  worker_id: string | null;
+  pipeline_id: string | null;
+  created_at: string;
+}
+
+const JOB_TYPES = ['LOGIN', 'RECONNECT', 'SYNC_PROFILE', 'SYNC_FOLLOWERS', 'SYNC_MEDIA', 'SYNC_INTERACTIONS', 'SYNC_STORIES', 'DERIVE_METRICS'];
+const JOB_STATUSES = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'DEAD', 'SKIPPED', 'CANCELLED'];
+const RETRYABLE_STATUSES = ['FAILED', 'DEAD'];
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: 'bg-gray-100 text-gray-800',
+  RUNNING: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800',
+  DEAD: 'bg-red-200 text-red-900',
+  SKIPPED: 'bg-gray-100 text-gray-600',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+const HISTORY_LIMIT = 200;
+
+function formatDuration(job: SyncJobRow): string {
+  if (!job.started_at) return '—';
+  const end = job.finished_at ? new Date(job.finished_at) : new Date();
+  const seconds = Math.max(0, Math.round((end.getTime() - new Date(job.started_at).getTime()) / 1000));
+  const formatted = seconds < 60
+    ? `${seconds}s`
+    : seconds < 3600
+      ? `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+      : `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  return job.finished_at ? formatted : `${formatted} (running)`;
+}
+
+export default function Jobs() {
+  const { user } = useSupabaseAuth();
+  const { data: profile } = useProfile(user?.id);
+  const [jobType, setJobType] = useState('ALL');
+  const [status, setStatus] = useState('ALL');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const { data: jobs, isLoading, refetch } = useQuery({
+    queryKey: ['sync_jobs', 'history', profile?.id, jobType, status, fromDate, toDate],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      let query = supabase
+        .from('sync_jobs')
+        .select('id, job_type, status, started_at, finished_at, processed_items, error_message, attempts, worker_id, pipeline_id, created_at')
+        .eq('profile_id', profile.id)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (jobType !== 'ALL') query = query.eq('job_type', jobType);
+      if (status !== 'ALL') query = query.eq('status', status);
+      if (fromDate) query = query.gte('created_at', new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) query = query.lte('created_at', new Date(`${toDate}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as SyncJobRow[];
+    },
+    enabled: !!profile?.id,
+  });
+
+  const handleRetry = async (job: SyncJobRow) => {
+    if (!profile || !user) return;
+
+    setRetryingJobId(job.id);
+    setMessage(null);
+
+    try {
+      // A new standalone job, so the failed one stays in the history as it was
+      const { error } = await supabase.from('sync_jobs').insert({
+        profile_id: profile.id,
+        user_id: user.id,
+        job_type: job.job_type,
+        status: 'PENDING',
+        metadata: { retry_of: job.id },
+      });
+
+      if (error) throw error;
+
+      setMessage({ type: 'success', text: `${job.job_type} queued again.` });
+      refetch();
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to retry job.',
+      });
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const clearFilters = () => {
+    setJobType('ALL');
+    setStatus('ALL');
+    setFromDate('');
+    setToDate('');
+  };
+
+  if (!profile) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-gray-600">Connect your Instagram account to see sync jobs.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Sync Jobs</h1>
+        <p className="text-gray-600 mt-2">History of the sync jobs run for @{profile.ig_username}</p>
+      </div>
+
+      {message && (
+        <div
+          className={`p-4 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-red-50 border-red-200 text-red-800'
+          }`}
+        >
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium mb-2">Type</label>
+              <Select value={jobType} onValueChange={setJobType}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All types</SelectItem>
+                  {JOB_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Status</label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All statuses</SelectItem>
+                  {JOB_STATUSES.map((jobStatus) => (
+                    <SelectItem key={jobStatus} value={jobStatus}>{jobStatus}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">From</label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">To</label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Job History</CardTitle>
+          <CardDescription>
+            Most recent {HISTORY_LIMIT} jobs matching the filters. Click a failed job to see the full error.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin" />
+            </div>
+          ) : !jobs || jobs.length === 0 ? (
+            <p className="text-center text-gray-600 py-12">No jobs found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-6" />
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => {
+                  const parsedError = job.error_message ? parseJobError(job.error_message) : null;
+                  const expanded = expandedJobId === job.id;
+                  // LOGIN jobs need the user's credentials; they are retried from Connect IG instead
+                  const canRetry = RETRYABLE_STATUSES.includes(job.status) && job.job_type !== 'LOGIN';
+
+                  return (
+                    <Fragment key={job.id}>
+                      <TableRow
+                        className={parsedError ? 'cursor-pointer' : undefined}
+                        onClick={() => parsedError && setExpandedJobId(expanded ? null : job.id)}
+                      >
+                        <TableCell>
+                          {parsedError && (expanded
+                            ? <ChevronDown className="w-4 h-4 text-gray-500" />
+                            : <ChevronRight className="w-4 h-4 text-gray-500" />)}
+                        </TableCell>
+                        <TableCell className="font-medium">{job.job_type}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_COLORS[job.status] || ''}`}>
+                            {job.status}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {new Date(job.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDuration(job)}</TableCell>
+                        <TableCell className="text-right">{job.processed_items.toLocaleString()}</TableCell>
+                        <TableCell>
+                          {parsedError && (
+                            <Badge variant="outline" className={JOB_ERROR_CATEGORY_COLORS[parsedError.category]}>
+                              {parsedError.category}
+                              {parsedError.code && ` • ${parsedError.code}`}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canRetry && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={retryingJobId === job.id}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRetry(job);
+                              }}
+                            >
+                              {retryingJobId === job.id ? (
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                              ) : (
+                                <>
+                                  <RotateCcw className="w-3 h-3 mr-1" />
+                                  Retry
+                                </>
+                              )}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && parsedError && (
+                        <TableRow className="bg-gray-50 hover:bg-gray-50">
+                          <TableCell />
+                          <TableCell colSpan={7} className="whitespace-normal">
+                            <p className="text-sm text-gray-900">{parsedError.message}</p>
+                            <p className="text-xs text-gray-500 mt-2">
+                              {job.attempts} attempt{job.attempts !== 1 ? 's' : ''}
+                              {job.worker_id && ` • worker ${job.worker_id}`}
+                              {job.pipeline_id && ` • pipeline ${job.pipeline_id.slice(0, 8)}`}
+                              {job.started_at && ` • started ${new Date(job.started_at).toLocaleString()}`}
+                              {job.finished_at && ` • finished ${new Date(job.finished_at).toLocaleString()}`}
+                            </p>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
+import { useSyncJobs } from '@/hooks/useSyncJobs';
+import { SyncJobProgress } from '@/components/SyncJobProgress';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -24,7 +26,7 @@ export default function Overview() {
   const [syncing, setSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
 
-  const { data: insights, isLoading: insightsLoading } = useQuery({
+  const { data: insights, isLoading: insightsLoading, refetch: refetchInsights } = useQuery({
     queryKey: ['profile_insights_daily', profile?.id],
     queryFn: async () => {
       if (!profile?.id) return [];
@@ -45,6 +47,13 @@ export default function Overview() {
     enabled: !!profile?.id,
   });
 
+  // Reload the charts as soon as freshly derived metrics are available
+  const { data: syncJobs } = useSyncJobs(profile?.id, (job) => {
+    if (job.job_type === 'DERIVE_METRICS' && job.status === 'COMPLETED') {
+      refetchInsights();
+    }
+  });
+
   const isLoading = profileLoading || insightsLoading;
 
   const handleSyncData = async () => {
@@ -54,26 +63,15 @@ export default function Overview() {
     setSyncMessage('Creating sync jobs...');
     
     try {
-      const jobs = [
-        { job_type: 'SYNC_PROFILE' },
-        { job_type: 'SYNC_FOLLOWERS' },
-        { job_type: 'SYNC_MEDIA' },
-        { job_type: 'DERIVE_METRICS' },
-      ];
+      const { error } = await supabase.rpc('enqueue_sync_pipeline', {
+        p_profile_id: profile.id,
+        p_user_id: user.id,
+        p_triggered_by: 'MANUAL',
+      });
 
-      for (const job of jobs) {
-        const { error } = await supabase.from('sync_jobs').insert({
-          profile_id: profile.id,
-          user_id: user.id,
-          job_type: job.job_type as any,
-          status: 'PENDING',
-          metadata: {},
-        });
-
-        if (error) {
-          console.error('Error creating job:', error);
-          throw error;
-        }
+      if (error) {
+        console.error('Error creating sync pipeline:', error);
+        throw error;
       }
 
       setSyncMessage('✅ Sync started! Data will update automatically in a few moments.');
@@ -163,6 +161,15 @@ export default function Overview() {
         </Alert>
       )}
 
+      {/* Live progress of queued and running sync jobs */}
+      {syncJobs && syncJobs.length > 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <SyncJobProgress jobs={syncJobs} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <KPICard
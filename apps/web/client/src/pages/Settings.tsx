@@ -1,11 +1,49 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useSupabaseAuth } from '@/hooks/useSupabaseAuth';
 import { useProfile } from '@/hooks/useProfile';
+import { useSyncJobs, type LiveSyncJob } from '@/hooks/useSyncJobs';
+import { SyncJobProgress } from '@/components/SyncJobProgress';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, AlertCircle, CheckCircle2, RefreshCw, Trash2 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 
+interface DeadJob {
+  id: string;
+  job_type: string;
+  attempts: number;
+  error_message: string | null;
+  finished_at: string | null;
+}
+
+interface SyncSchedule {
+  id: string;
+  job_type: string;
+  interval_hours: number;
+  run_at_local_time: string | null;
+  enabled: boolean;
+  next_run_at: string;
+}
+
+const SCHEDULE_LABELS: Record<string, string> = {
+  SYNC_FOLLOWERS: 'Followers',
+  SYNC_MEDIA: 'Media',
+  SYNC_INTERACTIONS: 'Likers & commenters',
+  SYNC_STORIES: 'Stories',
+  DERIVE_METRICS: 'Metrics',
+};
+
+function describeSchedule(schedule: SyncSchedule): string {
+  const cadence = schedule.interval_hours % 24 === 0
+    ? schedule.interval_hours === 24 ? 'daily' : `every ${schedule.interval_hours / 24} days`
+    : `every ${schedule.interval_hours}h`;
+  // run_at_local_time comes back as HH:MM:SS
+  return schedule.run_at_local_time
+    ? `${cadence} at ${schedule.run_at_local_time.slice(0, 5)}`
+    : cadence;
+}
+
 export default function Settings() {
   const { user, logout } = useSupabaseAuth();
   const { data: profile, isLoading: profileLoading } = useProfile(user?.id);
@@ -13,6 +51,61 @@ export default function Settings() {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+  // Jobs that kept failing with transient errors until their retries ran out
+  const { data: deadJobs } = useQuery({
+    queryKey: ['sync_jobs', 'dead', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const { data, error } = await supabase
+        .from('sync_jobs')
+        .select('id, job_type, attempts, error_message, finished_at')
+        .eq('profile_id', profile.id)
+        .eq('status', 'DEAD')
+        .order('finished_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return (data || []) as DeadJob[];
+    },
+    enabled: !!profile?.id,
+  });
+
+  const { data: schedules } = useQuery({
+    queryKey: ['sync_schedules', profile?.id],
+    queryFn: async () => {
+      if (!profile?.id) return [];
+
+      const { data, error } = await supabase
+        .from('sync_schedules')
+        .select('id, job_type, interval_hours, run_at_local_time, enabled, next_run_at')
+        .eq('profile_id', profile.id)
+        .order('job_type');
+
+      if (error) throw error;
+      return (data || []) as SyncSchedule[];
+    },
+    enabled: !!profile?.id,
+  });
+
+  const { data: syncJobs } = useSyncJobs(profile?.id);
+
+  const handleCancelJob = async (job: LiveSyncJob) => {
+    setMessage(null);
+
+    const { data: status, error } = await supabase.rpc('cancel_sync_job', { p_job_id: job.id });
+
+    if (error) {
+      setMessage({ type: 'error', text: `Failed to cancel job: ${error.message}` });
+    } else if (status === 'RUNNING') {
+      setMessage({ type: 'success', text: 'Cancelling... the job will stop after its current page.' });
+    } else if (status === 'CANCELLED') {
+      setMessage({ type: 'success', text: 'Job cancelled.' });
+    } else {
+      setMessage({ type: 'error', text: 'This job has already finished.' });
+    }
+  };
+
   const handleManualSync = async () => {
     if (!profile?.id) return;
 
@@ -174,6 +267,14 @@ export default function Settings() {
                   </span>
                 </div>
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Connected Through</label>
+                <p className="mt-1 text-gray-900">
+                  {profile.connector === 'GRAPH_API'
+                    ? `Instagram Graph API (${profile.account_type === 'CREATOR' ? 'Creator' : 'Business'} account)`
+                    : 'Instagram login (browser session)'}
+                </p>
+              </div>
               <div>
                 <label className="text-sm font-medium text-gray-700">Last Sync</label>
                 <p className="mt-1 text-gray-900">
@@ -196,8 +297,20 @@ export default function Settings() {
         <CardContent className="space-y-4">
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-900">
-              <strong>Automatic Sync:</strong> Your data is automatically synced daily. You can also trigger a manual sync below.
+              <strong>Automatic Sync:</strong> Your data is synced automatically on the schedule below. You can also trigger a manual sync.
             </p>
+            {schedules && schedules.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {schedules.map((schedule) => (
+                  <li key={schedule.id} className="text-xs text-blue-800">
+                    <span className="font-semibold">{SCHEDULE_LABELS[schedule.job_type] || schedule.job_type}</span>
+                    {' • '}
+                    {schedule.enabled ? describeSchedule(schedule) : 'paused'}
+                    {schedule.enabled && ` • next ${new Date(schedule.next_run_at).toLocaleString()}`}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           <Button
             onClick={handleManualSync}
@@ -220,6 +333,23 @@ export default function Settings() {
           <p className="text-xs text-gray-600">
             Manual sync may take 2-5 minutes depending on your account size.
           </p>
+          {syncJobs && <SyncJobProgress jobs={syncJobs} onCancel={handleCancelJob} />}
+          {deadJobs && deadJobs.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-2">
+              <p className="text-sm font-medium text-red-900">
+                Gave up after repeated failures
+              </p>
+              {deadJobs.map((job) => (
+                <div key={job.id} className="text-xs text-red-800">
+                  <span className="font-semibold">{job.job_type}</span>
+                  {' • '}
+                  {job.attempts} attempt{job.attempts !== 1 ? 's' : ''}
+                  {job.finished_at && ` • ${new Date(job.finished_at).toLocaleString()}`}
+                  {job.error_message && <p className="text-red-700 mt-0.5">{job.error_message}</p>}
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,123 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Express, Request, Response } from "express";
+import { ENV } from "./env";
+import { invokeLLM, type InvokeResult } from "./llm";
+
+// Most recent comments sent to the model; older ones are left out of the summary
+const MAX_SUMMARY_COMMENTS = 200;
+
+type SummaryComment = {
+  text: string;
+  sentiment: string;
+  topics: string[];
+};
+
+function isCommentSummaryEnabled(): boolean {
+  return Boolean(ENV.forgeApiKey && ENV.supabaseUrl && ENV.supabaseAnonKey);
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : undefined;
+}
+
+function readContent(result: InvokeResult): string {
+  const content = result.choices[0]?.message.content;
+  if (typeof content === "string") return content.trim();
+  return (content || [])
+    .map(part => (part.type === "text" ? part.text : ""))
+    .join("")
+    .trim();
+}
+
+function buildPrompt(comments: SummaryComment[]): string {
+  const counts = { POSITIVE: 0, NEUTRAL: 0, NEGATIVE: 0 } as Record<string, number>;
+  for (const comment of comments) counts[comment.sentiment] = (counts[comment.sentiment] || 0) + 1;
+
+  const lines = comments.map(comment => {
+    const topics = comment.topics.length > 0 ? ` (${comment.topics.join(", ")})` : "";
+    return `[${comment.sentiment}${topics}] ${comment.text.replace(/\s+/g, " ")}`;
+  });
+
+  return [
+    `${comments.length} comments: ${counts.POSITIVE} positive, ${counts.NEUTRAL} neutral, ${counts.NEGATIVE} negative (offline classifier).`,
+    "",
+    ...lines,
+  ].join("\n");
+}
+
+/**
+ * Summaries of the comments saved on a profile's posts, written by the LLM behind
+ * `invokeLLM`. Comments are read with the caller's Supabase session, so RLS limits them
+ * to the caller's own profiles. Without an LLM key the status route reports it disabled
+ * and the dashboard only shows the offline sentiment summary.
+ */
+export function registerCommentSummaryRoutes(app: Express) {
+  app.get("/api/comment-summary/status", (_req: Request, res: Response) => {
+    res.json({ enabled: isCommentSummaryEnabled() });
+  });
+
+  app.post("/api/comment-summary", async (req: Request, res: Response) => {
+    if (!isCommentSummaryEnabled()) {
+      res.status(503).json({ error: "Comment summaries are not configured" });
+      return;
+    }
+
+    const token = getBearerToken(req);
+    const { profile_id, media_id, since } = req.body || {};
+    if (!token) {
+      res.status(401).json({ error: "Sign in to summarise comments" });
+      return;
+    }
+    if (typeof profile_id !== "string") {
+      res.status(400).json({ error: "profile_id is required" });
+      return;
+    }
+
+    try {
+      const supabase = createClient(ENV.supabaseUrl, ENV.supabaseAnonKey, {
+        global: { headers: { Authorization: `Bearer ${token}` } },
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+
+      let query = supabase
+        .from("comments")
+        .select("text, sentiment, topics")
+        .eq("profile_id", profile_id)
+        .order("commented_at", { ascending: false })
+        .limit(MAX_SUMMARY_COMMENTS);
+      if (typeof media_id === "string") query = query.eq("media_id", media_id);
+      if (typeof since === "string") query = query.gte("commented_at", since);
+
+      const { data, error } = await query;
+      if (error) {
+        res.status(error.code === "PGRST301" ? 401 : 500).json({ error: error.message });
+        return;
+      }
+
+      const comments = (data || []) as SummaryComment[];
+      if (comments.length === 0) {
+        res.json({ summary: null, comment_count: 0 });
+        return;
+      }
+
+      const result = await invokeLLM({
+        messages: [
+          {
+            role: "system",
+            content:
+              "You summarise the comments an Instagram creator received. Comments are in Portuguese or English. " +
+              "Answer in English with 3 to 5 short bullet points: the overall mood, recurring topics, and any " +
+              "questions or complaints that deserve a reply. Don't quote usernames.",
+          },
+          { role: "user", content: buildPrompt(comments) },
+        ],
+      });
+
+      res.json({ summary: readContent(result), comment_count: comments.length });
+    } catch (error) {
+      console.error("[CommentSummary] Summary failed", error);
+      res.status(500).json({ error: "Comment summary failed" });
+    }
+  });
+}
@@ -159,7 +159,7 @@ export async function exportMediaToCSV(
 }
 
 /**
- * Export hashtag metrics to CSV
+ * Export hashtag metrics from the latest derivation to CSV
  */
 export async function exportHashtagsToCSV(
   supabase: SupabaseClient,
@@ -167,7 +167,7 @@ export async function exportHashtagsToCSV(
   userId: string
 ): Promise<string> {
   const { data, error } = await supabase
-    .from('hashtags_metrics')
+    .from('hashtags_metrics_latest')
     .select('*')
     .eq('profile_id', profileId)
     .eq('user_id', userId)
@@ -182,6 +182,7 @@ export async function exportHashtagsToCSV(
     'avg_engagement',
     'first_used',
     'last_used',
+    'derived_on',
   ];
 
   return arrayToCSV(data || [], headers);
@@ -0,0 +1,148 @@
+import { DemographicsEstimate } from '@ig-analytics/shared';
+import { FIRST_NAME_GENDERS } from './nameDictionary';
+
+// Bump when the heuristics change, so estimates made differently aren't compared blindly
+export const DEMOGRAPHICS_ESTIMATE_METHOD = 'NAME_HEURISTICS_V1';
+
+export interface FollowerIdentity {
+  username: string;
+  full_name: string | null;
+}
+
+// Writing systems that point to one language
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/[\u3040-\u30ff]/, 'ja'], // Hiragana / Katakana (before Han, which Japanese also uses)
+  [/[\uac00-\ud7af]/, 'ko'], // Hangul
+  [/[\u4e00-\u9fff]/, 'zh'], // Han
+  [/[\u0400-\u04ff]/, 'ru'], // Cyrillic
+  [/[\u0600-\u06ff]/, 'ar'], // Arabic
+  [/[\u0590-\u05ff]/, 'he'], // Hebrew
+  [/[\u0370-\u03ff]/, 'el'], // Greek
+  [/[\u0e00-\u0e7f]/, 'th'], // Thai
+  [/[\u0900-\u097f]/, 'hi'], // Devanagari
+];
+
+// Latin letters only one of the common languages uses
+const LETTER_LANGUAGES: Array<[RegExp, string]> = [
+  [/[ãõ]/i, 'pt'],
+  [/ñ/i, 'es'],
+  [/ß/, 'de'],
+];
+
+// Words in names and usernames hinting at a country. Tokens must match a whole word;
+// the longer keywords also match inside usernames written without separators.
+const LOCATION_KEYWORDS: Record<string, string[]> = {
+  BR: ['brasil', 'brazil', 'br', 'saopaulo', 'riodejaneiro', 'brasilia', 'curitiba', 'recife', 'fortaleza', 'portoalegre', 'belohorizonte'],
+  PT: ['portugal', 'pt', 'lisboa', 'lisbon', 'porto', 'braga', 'coimbra', 'algarve'],
+  ES: ['espana', 'spain', 'madrid', 'barcelona', 'sevilla', 'valencia'],
+  MX: ['mexico', 'mx', 'cdmx', 'guadalajara', 'monterrey'],
+  AR: ['argentina', 'buenosaires'],
+  US: ['usa', 'nyc', 'newyork', 'miami', 'texas', 'california', 'chicago'],
+  GB: ['uk', 'london', 'england', 'manchester'],
+  FR: ['france', 'paris'],
+  IT: ['italia', 'italy', 'roma', 'milano'],
+};
+
+const SUBSTRING_KEYWORD_MIN_LENGTH = 6;
+
+/**
+ * Lowercases and strips accents, so "João" matches the dictionary's "joao".
+ */
+export function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Estimates the gender, language and location mix of an audience from what the followers
+ * list holds: display names and usernames. Every follower counts in the sample; those
+ * without a usable hint are counted as unknown, so shares are of the whole audience.
+ */
+export class DemographicsEstimator {
+  private readonly tokenLocations = new Map<string, string>();
+  private readonly substringLocations: Array<[string, string]> = [];
+
+  constructor() {
+    for (const [country, keywords] of Object.entries(LOCATION_KEYWORDS)) {
+      for (const keyword of keywords) {
+        this.tokenLocations.set(keyword, country);
+        if (keyword.length >= SUBSTRING_KEYWORD_MIN_LENGTH) {
+          this.substringLocations.push([keyword, country]);
+        }
+      }
+    }
+  }
+
+  public estimate(followers: FollowerIdentity[]): DemographicsEstimate {
+    const gender = { male: 0, female: 0, unknown: 0 };
+    const languages = new Map<string, number>();
+    const locations = new Map<string, number>();
+
+    for (const follower of followers) {
+      const guessed = this.guessGender(follower);
+      if (guessed === 'M') gender.male++;
+      else if (guessed === 'F') gender.female++;
+      else gender.unknown++;
+
+      const language = this.guessLanguage(follower) || 'unknown';
+      languages.set(language, (languages.get(language) || 0) + 1);
+
+      const location = this.guessLocation(follower) || 'unknown';
+      locations.set(location, (locations.get(location) || 0) + 1);
+    }
+
+    const sortByCount = (counts: Map<string, number>) =>
+      Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+
+    return {
+      method: DEMOGRAPHICS_ESTIMATE_METHOD,
+      sample_size: followers.length,
+      gender,
+      languages: sortByCount(languages).map(([language, count]) => ({ language, count })),
+      top_locations: sortByCount(locations).map(([location, count]) => ({ location, count })),
+    };
+  }
+
+  /**
+   * First name looked up in the dictionary: from the display name, or else from the
+   * username's first segment ("ana.silva92" -> "ana").
+   */
+  private guessGender(follower: FollowerIdentity): 'M' | 'F' | null {
+    const fromName = normalizeName(follower.full_name || '').match(/[a-z]+/)?.[0];
+    if (fromName) return FIRST_NAME_GENDERS.get(fromName) || null;
+
+    const fromUsername = normalizeName(follower.username).split(/[^a-z]+/).find(Boolean);
+    return fromUsername ? FIRST_NAME_GENDERS.get(fromUsername) || null : null;
+  }
+
+  private guessLanguage(follower: FollowerIdentity): string | null {
+    const name = follower.full_name || '';
+    for (const [pattern, language] of [...SCRIPT_LANGUAGES, ...LETTER_LANGUAGES]) {
+      if (pattern.test(name)) return language;
+    }
+    return null;
+  }
+
+  private guessLocation(follower: FollowerIdentity): string | null {
+    const text = `${follower.full_name || ''} ${follower.username}`;
+
+    // Flag emoji: two regional indicator symbols spelling the country code
+    const flag = text.match(/[\u{1F1E6}-\u{1F1FF}]{2}/u)?.[0];
+    if (flag) {
+      return Array.from(flag)
+        .map((symbol) => String.fromCharCode(symbol.codePointAt(0)! - 0x1f1e6 + 65))
+        .join('');
+    }
+
+    const normalized = normalizeName(text);
+    for (const token of normalized.split(/[^a-z]+/)) {
+      const country = this.tokenLocations.get(token);
+      if (country) return country;
+    }
+
+    const username = normalizeName(follower.username);
+    for (const [keyword, country] of this.substringLocations) {
+      if (username.includes(keyword)) return country;
+    }
+    return null;
+  }
+}
@@ -26,11 +26,11 @@ export class EncryptionService {
   }
 
   /**
-   * Encrypts the session payload object.
+   * Encrypts the session payload object (or any other JSON payload, e.g. a Graph API token).
    * @param payload The session payload to encrypt.
    * @returns The encrypted payload object.
    */
-  public encrypt(payload: DecryptedSessionPayload): EncryptedSessionPayload {
+  public encrypt<T = DecryptedSessionPayload>(payload: T): EncryptedSessionPayload {
     try {
       const text = JSON.stringify(payload);
       const iv = randomBytes(IV_LENGTH);
@@ -58,7 +58,7 @@ export class EncryptionService {
    * @param encryptedPayload The encrypted payload object.
    * @returns The decrypted session payload object.
    */
-  public decrypt(encryptedPayload: EncryptedSessionPayload): DecryptedSessionPayload {
+  public decrypt<T = DecryptedSessionPayload>(encryptedPayload: EncryptedSessionPayload): T {
     try {
       if (encryptedPayload.algorithm !== ALGORITHM) {
         throw new Error('Unsupported encryption algorithm.');
@@ -69,7 +69,7 @@ export class EncryptionService {
       let decrypted = decipher.update(encryptedPayload.encryptedData, 'hex', 'utf8');
       decrypted += decipher.final('utf8');
 
-      return JSON.parse(decrypted) as DecryptedSessionPayload;
+      return JSON.parse(decrypted) as T;
     } catch (error) {
       throw new AppError(
         ErrorCodes.INTERNAL_SERVER_ERROR,
@@ -0,0 +1,230 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DecryptedSessionPayload, AppError, ErrorCodes, createLogger } from '@ig-analytics/shared';
+import {
+  InstagramDataSource,
+  ProgressCallback,
+  ScrapedMedia,
+  ScrapedMediaInteractions,
+  ScrapedProfile,
+  ScrapedStory,
+  ScrapedUser,
+  UserListCheckpoint,
+} from './InstagramDataSource';
+
+const logger = createLogger('FixtureDataSource');
+
+/**
+ * Recorded data of one account, stored as `<fixturesDir>/<username>.json`.
+ */
+export interface AccountFixture {
+  password: string;
+  /** When set, login requires this code and fails with IG_2FA_REQUIRED without one. */
+  two_fa_code?: string | null;
+  profile: ScrapedProfile;
+  followers: ScrapedUser[];
+  following: ScrapedUser[];
+  media: ScrapedMedia[];
+  /** Likers and commenters of some of the posts in `media`. */
+  interactions?: ScrapedMediaInteractions[];
+  /** Served as the account's live stories, whatever their recorded timestamps. */
+  stories?: ScrapedStory[];
+}
+
+// Same page size as the GraphQL follower queries, so checkpoints behave the same
+const PAGE_SIZE = 50;
+const SESSION_COOKIE = 'sessionid';
+
+/**
+ * Deterministic Instagram data source replaying recorded fixtures instead of driving a
+ * browser. Sessions are fake cookies naming the account, lists are served in pages with
+ * the same progress, checkpoint and cancellation behaviour as `InstagramClient`, so the
+ * whole worker pipeline can run in CI against a local Supabase.
+ */
+export class FixtureDataSource implements InstagramDataSource {
+  public readonly usesSession = true;
+  public readonly supportsFollowerLists = true;
+  private readonly fixtures = new Map<string, AccountFixture>();
+  private sessionUsername: string | null = null;
+
+  constructor(private readonly fixturesDir: string) {}
+
+  public async initBrowser(sessionPayload?: DecryptedSessionPayload): Promise<void> {
+    this.sessionUsername = sessionPayload ? this.getSessionUsername(sessionPayload) : null;
+  }
+
+  public async close(): Promise<void> {
+    this.sessionUsername = null;
+  }
+
+  public async login(username: string, password: string, twoFaCode?: string): Promise<DecryptedSessionPayload> {
+    const fixture = await this.findFixture(username);
+    if (!fixture || fixture.password !== password) {
+      throw new AppError(ErrorCodes.IG_LOGIN_FAILED, 'Login failed: incorrect username or password.', 401);
+    }
+
+    if (fixture.two_fa_code) {
+      if (!twoFaCode) {
+        throw new AppError(ErrorCodes.IG_2FA_REQUIRED, 'Two-factor authentication code required.', 401);
+      }
+      if (twoFaCode !== fixture.two_fa_code) {
+        throw new AppError(ErrorCodes.IG_LOGIN_FAILED, 'Login failed: invalid 2FA code.', 401);
+      }
+    }
+
+    logger.info(`Logged in to fixture account ${username}`);
+    this.sessionUsername = username;
+    return {
+      cookies: [{ name: SESSION_COOKIE, value: `fixture:${username}`, domain: '.instagram.com', path: '/' }],
+      user_agent: 'FixtureDataSource',
+      timestamp: Date.now(),
+    };
+  }
+
+  public async checkSession(sessionPayload: DecryptedSessionPayload): Promise<boolean> {
+    const username = this.getSessionUsername(sessionPayload);
+    return !!username && !!(await this.findFixture(username));
+  }
+
+  public async scrapeProfile(igUsername: string): Promise<ScrapedProfile> {
+    const fixture = await this.getFixture(igUsername);
+    return { ...fixture.profile };
+  }
+
+  public async scrapeFollowers(
+    igUsername: string,
+    maxCount: number = -1,
+    onProgress?: ProgressCallback,
+    checkpoint?: UserListCheckpoint,
+    signal?: AbortSignal
+  ): Promise<{ followers: ScrapedUser[]; following: ScrapedUser[] }> {
+    const fixture = await this.getFixture(igUsername);
+
+    const followers = await this.replayUserList(fixture.followers, 'followers', maxCount, onProgress, checkpoint, signal);
+    const following = await this.replayUserList(fixture.following, 'following', maxCount, onProgress, checkpoint, signal);
+    return { followers, following };
+  }
+
+  public async scrapeMedia(
+    igUsername: string,
+    maxPosts: number = 50,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMedia[]> {
+    const fixture = await this.getFixture(igUsername);
+    this.throwIfCancelled(signal);
+
+    const media = fixture.media.slice(0, maxPosts);
+    await onProgress?.({ phase: 'media', processed_items: media.length, total_items: media.length, cursor: null });
+    return media;
+  }
+
+  public async scrapeMediaInteractions(
+    mediaIds: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMediaInteractions[]> {
+    const fixture = await this.getFixture(this.sessionUsername || '');
+    this.throwIfCancelled(signal);
+
+    const requested = new Set(mediaIds);
+    const interactions = (fixture.interactions || []).filter((item) => requested.has(item.media_id));
+    await onProgress?.({ phase: 'interactions', processed_items: mediaIds.length, total_items: mediaIds.length, cursor: null });
+    return interactions;
+  }
+
+  public async scrapeStories(
+    igUsername: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedStory[]> {
+    const fixture = await this.getFixture(igUsername);
+    this.throwIfCancelled(signal);
+
+    const stories = fixture.stories || [];
+    await onProgress?.({ phase: 'stories', processed_items: stories.length, total_items: stories.length, cursor: null });
+    return stories;
+  }
+
+  /**
+   * Serves a recorded list page by page; the cursor is the offset of the next page.
+   */
+  private async replayUserList(
+    recorded: ScrapedUser[],
+    type: 'followers' | 'following',
+    maxCount: number,
+    onProgress?: ProgressCallback,
+    checkpoint?: UserListCheckpoint,
+    signal?: AbortSignal
+  ): Promise<ScrapedUser[]> {
+    const limit = maxCount === -1 ? recorded.length : Math.min(maxCount, recorded.length);
+    const users: ScrapedUser[] = [];
+    let offset = 0;
+
+    if (checkpoint) {
+      const saved = await checkpoint.resume(type);
+      users.push(...saved.users);
+      if (saved.complete) return users;
+      offset = saved.cursor ? parseInt(saved.cursor, 10) : 0;
+    }
+
+    while (offset < limit) {
+      this.throwIfCancelled(signal);
+
+      const page = recorded.slice(offset, Math.min(offset + PAGE_SIZE, limit));
+      users.push(...page);
+      offset += page.length;
+
+      const complete = offset >= limit;
+      const cursor = complete ? null : String(offset);
+      await checkpoint?.savePage(type, page, cursor, complete);
+      await onProgress?.({ phase: type, processed_items: users.length, total_items: limit, cursor });
+    }
+
+    return users;
+  }
+
+  private getSessionUsername(sessionPayload: DecryptedSessionPayload): string | null {
+    const cookie = sessionPayload.cookies.find((c) => c.name === SESSION_COOKIE);
+    return cookie?.value.startsWith('fixture:') ? cookie.value.slice('fixture:'.length) : null;
+  }
+
+  private async getFixture(igUsername: string): Promise<AccountFixture> {
+    if (this.sessionUsername === null) {
+      throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Instagram session expired. Please reconnect your account.', 401);
+    }
+
+    const fixture = await this.findFixture(igUsername);
+    if (!fixture) {
+      throw new AppError(ErrorCodes.NOT_FOUND, `No fixture recorded for ${igUsername}.`, 404);
+    }
+    return fixture;
+  }
+
+  private async findFixture(username: string): Promise<AccountFixture | null> {
+    const cached = this.fixtures.get(username);
+    if (cached) return cached;
+
+    const file = path.join(this.fixturesDir, `${path.basename(username)}.json`);
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const fixture = JSON.parse(raw) as AccountFixture;
+    this.fixtures.set(username, fixture);
+    return fixture;
+  }
+
+  /**
+   * Throws JOB_CANCELLED once the job driving this scrape has been cancelled.
+   */
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AppError(ErrorCodes.JOB_CANCELLED, 'Job was cancelled by the user', 409);
+    }
+  }
+}
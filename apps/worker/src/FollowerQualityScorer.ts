@@ -0,0 +1,84 @@
+import { FollowerQualityFlag, FollowerQualityLevel } from '@ig-analytics/shared';
+
+// Bump when the weights or thresholds change, so snapshots scored differently aren't compared blindly
+export const FOLLOWER_QUALITY_METHOD = 'QUALITY_HEURISTICS_V1';
+
+export interface FollowerQualityInput {
+  username: string;
+  full_name: string | null;
+  profile_pic_url: string | null;
+  is_private: boolean;
+  is_verified: boolean;
+  following_count: number | null;
+  /** Whether the follower ever interacted with the profile; null when no interactions are recorded at all. */
+  has_interacted: boolean | null;
+}
+
+export interface FollowerQualityScore {
+  score: number;
+  level: FollowerQualityLevel;
+  flags: FollowerQualityFlag[];
+}
+
+const FLAG_WEIGHTS: Record<FollowerQualityFlag, number> = {
+  NO_PROFILE_PIC: 30,
+  DIGIT_HEAVY_USERNAME: 25,
+  NO_DISPLAY_NAME: 10,
+  PRIVATE_MASS_FOLLOWING: 25,
+  NO_INTERACTIONS: 20,
+};
+
+export const LOW_QUALITY_MIN_SCORE = 30;
+export const GHOST_MIN_SCORE = 60;
+
+// Private accounts following this many others are typically follow-for-follow bots
+const MASS_FOLLOWING_MIN = 3000;
+
+// Instagram serves every account without a picture the same anonymous avatar
+const DEFAULT_AVATAR_ID = '44884218_345707102882519_2446069589734326272_n';
+
+/**
+ * Scores how likely a follower is a bot or an inactive (ghost) account from what the
+ * followers list holds, plus whether the follower was ever seen interacting with the
+ * profile. Each signal adds its weight; verified accounts are never flagged.
+ */
+export class FollowerQualityScorer {
+  public score(follower: FollowerQualityInput): FollowerQualityScore {
+    if (follower.is_verified) {
+      return { score: 0, level: 'OK', flags: [] };
+    }
+
+    const flags: FollowerQualityFlag[] = [];
+
+    if (!follower.profile_pic_url || follower.profile_pic_url.includes(DEFAULT_AVATAR_ID)) {
+      flags.push('NO_PROFILE_PIC');
+    }
+    if (this.isDigitHeavy(follower.username)) {
+      flags.push('DIGIT_HEAVY_USERNAME');
+    }
+    if (!follower.full_name?.trim()) {
+      flags.push('NO_DISPLAY_NAME');
+    }
+    if (follower.is_private && follower.following_count !== null && follower.following_count >= MASS_FOLLOWING_MIN) {
+      flags.push('PRIVATE_MASS_FOLLOWING');
+    }
+    if (follower.has_interacted === false) {
+      flags.push('NO_INTERACTIONS');
+    }
+
+    const score = Math.min(100, flags.reduce((sum, flag) => sum + FLAG_WEIGHTS[flag], 0));
+    const level: FollowerQualityLevel = score >= GHOST_MIN_SCORE
+      ? 'GHOST'
+      : score >= LOW_QUALITY_MIN_SCORE ? 'LOW_QUALITY' : 'OK';
+
+    return { score, level, flags };
+  }
+
+  /**
+   * Long digit runs ("maria84736251") or usernames that are mostly digits.
+   */
+  private isDigitHeavy(username: string): boolean {
+    const digits = (username.match(/\d/g) || []).length;
+    return /\d{5,}/.test(username) || (digits >= 4 && digits / username.length >= 0.4);
+  }
+}
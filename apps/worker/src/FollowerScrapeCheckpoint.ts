@@ -0,0 +1,65 @@
+import { SyncJob } from '@ig-analytics/shared';
+import { SupabaseService } from './SupabaseService';
+import { ScrapedUser, UserListCheckpoint } from './InstagramDataSource';
+
+type ListType = 'followers' | 'following';
+
+interface ListState {
+  cursor: string | null;
+  complete: boolean;
+}
+
+const METADATA_KEY = 'followers_checkpoint';
+
+/**
+ * Checkpoint of a SYNC_FOLLOWERS job. Scraped pages go to the `followers_staging`
+ * table and the cursor of the next page to the job's metadata, so when the job is
+ * retried (same row) the scrape continues from the last saved page.
+ */
+export class FollowerScrapeCheckpoint implements UserListCheckpoint {
+  private metadata: Record<string, unknown>;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly job: SyncJob,
+    private readonly workerId: string
+  ) {
+    this.metadata = { ...(job.metadata || {}) };
+  }
+
+  public async resume(type: ListType): Promise<{ users: ScrapedUser[]; cursor: string | null; complete: boolean }> {
+    const state = this.getStates()[type];
+    if (!state) {
+      return { users: [], cursor: null, complete: false };
+    }
+
+    const users = await this.supabaseService.getStagedFollowers(this.job.id, type);
+    return { users, cursor: state.cursor, complete: state.complete };
+  }
+
+  public async savePage(type: ListType, users: ScrapedUser[], cursor: string | null, complete: boolean): Promise<void> {
+    // Users first: if the cursor update is lost, the page is fetched again and deduplicated
+    await this.supabaseService.stageFollowers(this.job.id, this.job.profile_id, type, users);
+    await this.saveStates({ ...this.getStates(), [type]: { cursor, complete } });
+  }
+
+  /**
+   * Drops the staged pages and the cursor once the lists have been committed, or once
+   * the job has ended without them (failed, dead or cancelled).
+   */
+  public async clear(): Promise<void> {
+    await this.supabaseService.clearStagedFollowers(this.job.id);
+    const { [METADATA_KEY]: _removed, ...metadata } = this.metadata;
+    this.metadata = metadata;
+    await this.supabaseService.updateJobMetadata(this.job.id, this.workerId, this.metadata);
+  }
+
+  private getStates(): Partial<Record<ListType, ListState>> {
+    return (this.metadata[METADATA_KEY] as Partial<Record<ListType, ListState>>) || {};
+  }
+
+  private async saveStates(states: Partial<Record<ListType, ListState>>): Promise<void> {
+    this.metadata = { ...this.metadata, [METADATA_KEY]: states };
+    await this.supabaseService.updateJobMetadata(this.job.id, this.workerId, this.metadata);
+  }
+}
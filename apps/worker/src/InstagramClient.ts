@@ -1,18 +1,47 @@
 import { chromium, Browser, BrowserContext, Page, Cookie } from 'playwright';
-import { DecryptedSessionPayload, AppError, ErrorCodes, createLogger } from '@ig-analytics/shared';
+import { DecryptedSessionPayload, AppError, ErrorCodes, IgEndpointClass, createLogger } from '@ig-analytics/shared';
+import {
+  InstagramDataSource,
+  ProgressCallback,
+  ScrapedComment,
+  ScrapedMedia,
+  ScrapedMediaInteractions,
+  ScrapedProfile,
+  ScrapedStory,
+  ScrapedUser,
+  UserListCheckpoint,
+} from './InstagramDataSource';
 
 const logger = createLogger('InstagramClient');
 
+/**
+ * Budgets the requests sent to Instagram. `acquire` resolves once a request of the given
+ * class may be sent; `recordRateLimit` is called when Instagram pushed back anyway.
+ */
+export interface RequestGovernor {
+  acquire(endpointClass: IgEndpointClass): Promise<void>;
+  recordRateLimit(endpointClass: IgEndpointClass, statusCode: number | null, detail: string | null): Promise<void>;
+}
+
 /**
  * Client class to handle all Playwright-based Instagram interactions.
  * This includes login, 2FA, session management, and scraping.
  */
-export class InstagramClient {
+export class InstagramClient implements InstagramDataSource {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
+  public readonly usesSession = true;
+  public readonly supportsFollowerLists = true;
   private readonly baseUrl = 'https://www.instagram.com';
   private readonly userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+  // App id the Instagram web client sends with its API requests
+  private readonly webAppId = '936619743392459';
+
+  /**
+   * @param governor Paces scraping requests; without one, fixed delays are used between them.
+   */
+  constructor(private readonly governor?: RequestGovernor) {}
 
       /**
    * Initialize Playwright browser with optional session payload.
@@ -268,20 +297,7 @@ export class InstagramClient {
    * @param igUsername The Instagram username to scrape
    * @returns Profile data including bio, counts, verification status, etc.
    */
-  public async scrapeProfile(igUsername: string): Promise<{
-    username: string;
-    full_name: string | null;
-    bio: string | null;
-    external_url: string | null;
-    profile_pic_url: string | null;
-    is_verified: boolean;
-    is_business: boolean;
-    is_private: boolean;
-    category_name: string | null;
-    followers_count: number;
-    following_count: number;
-    media_count: number;
-  }> {
+  public async scrapeProfile(igUsername: string): Promise<ScrapedProfile> {
     if (!this.page) {
       throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Playwright page not initialized.', 500);
     }
@@ -290,7 +306,7 @@ export class InstagramClient {
     
     // First, verify we're logged in by checking Instagram home
     try {
-      await this.page.goto(`${this.baseUrl}/`, { waitUntil: 'domcontentloaded', timeout: 30000 });
+      await this.gotoThrottled(`${this.baseUrl}/`);
       await this.page.waitForTimeout(2000);
       
       // Check if we're logged in (look for home elements)
@@ -303,12 +319,12 @@ export class InstagramClient {
       
       logger.info('[InstagramClient] Session verified - user is logged in');
     } catch (error: any) {
-      if (error.code === ErrorCodes.SESSION_EXPIRED) throw error;
+      if ([ErrorCodes.SESSION_EXPIRED, ErrorCodes.IG_RATE_LIMITED, ErrorCodes.JOB_DEFERRED].includes(error.code)) throw error;
       logger.warn('[InstagramClient] Could not verify login status, proceeding anyway');
     }
     
     // Now go to profile page
-    await this.page.goto(`${this.baseUrl}/${igUsername}/`, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    await this.gotoThrottled(`${this.baseUrl}/${igUsername}/`);
     await this.page.waitForTimeout(3000);
 
     try {
@@ -477,100 +493,80 @@ export class InstagramClient {
    * Scrapes the list of followers and following.
    * @param igUsername The Instagram username to scrape.
    * @param maxCount Maximum users to scrape per list (default: 1000, set to -1 for all)
+   * @param onProgress Called after every page with the 'followers' or 'following' phase.
+   * @param checkpoint Persists fetched pages so a retried job resumes where this one stopped.
+   * @param signal Aborted when the job is cancelled; checked between pages.
    * @returns An object containing follower and following lists.
    */
-  public async scrapeFollowers(igUsername: string, maxCount: number = -1): Promise<{ 
-    followers: Array<{
-      ig_id: string;
-      username: string;
-      full_name: string | null;
-      is_private: boolean;
-      is_verified: boolean;
-      profile_pic_url: string | null;
-    }>, 
-    following: Array<{
-      ig_id: string;
-      username: string;
-      full_name: string | null;
-      is_private: boolean;
-      is_verified: boolean;
-      profile_pic_url: string | null;
-    }>
-  }> {
+  public async scrapeFollowers(
+    igUsername: string,
+    maxCount: number = -1,
+    onProgress?: ProgressCallback,
+    checkpoint?: UserListCheckpoint,
+    signal?: AbortSignal
+  ): Promise<{ followers: ScrapedUser[]; following: ScrapedUser[] }> {
     if (!this.page) {
       throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Playwright page not initialized.', 500);
     }
 
     logger.info(`[InstagramClient] Scraping followers and following for ${igUsername} using GraphQL API...`);
     
-    // Navigate to profile to get user ID
-    await this.page.goto(`${this.baseUrl}/${igUsername}/`, { waitUntil: 'domcontentloaded', timeout: 30000 });
-    await this.page.waitForTimeout(2000);
-
-    // Extract user ID from page source
-    const userId = await this.page.evaluate(() => {
-      const scripts = Array.from(document.querySelectorAll('script'));
-      for (const script of scripts) {
-        const text = script.textContent || '';
-        if (text.includes('profilePage_')) {
-          const match = text.match(/"profilePage_(\d+)"/);
-          if (match) return match[1];
-        }
-        if (text.includes('"id":"')) {
-          const match = text.match(/"id":"(\d+)"/);
-          if (match) return match[1];
-        }
-      }
-      return null;
-    });
-
-    if (!userId) {
-      logger.error('[InstagramClient] Could not extract user ID from profile page');
-      throw new AppError(ErrorCodes.IG_SCRAPE_FAILED, 'Failed to get user ID', 500);
-    }
+    const userId = await this.getProfileUserId(igUsername);
 
     logger.info(`[InstagramClient] User ID: ${userId}`);
 
     // Use GraphQL API to fetch all followers and following
-    const followers = await this.fetchUserListViaGraphQL(userId, 'followers', maxCount);
-    await this.page.waitForTimeout(3000); // Rate limiting
-    const following = await this.fetchUserListViaGraphQL(userId, 'following', maxCount);
+    const followers = await this.fetchUserListViaGraphQL(userId, 'followers', maxCount, onProgress, checkpoint, signal);
+    const following = await this.fetchUserListViaGraphQL(userId, 'following', maxCount, onProgress, checkpoint, signal);
 
     logger.info(`[InstagramClient] ✅ Scraped ${followers.length} followers and ${following.length} following via GraphQL`);
     return { followers, following };
   }
 
   /**
-   * Fetch complete user list using Instagram's internal GraphQL API
+   * Fetch complete user list using Instagram's internal GraphQL API.
+   * With a checkpoint, every page is saved as it arrives and the fetch resumes from the
+   * last saved cursor, so a failed attempt doesn't have to start over.
    */
-  private async fetchUserListViaGraphQL(userId: string, type: 'followers' | 'following', maxCount: number = -1): Promise<Array<{
-    ig_id: string;
-    username: string;
-    full_name: string | null;
-    is_private: boolean;
-    is_verified: boolean;
-    profile_pic_url: string | null;
-  }>> {
+  private async fetchUserListViaGraphQL(
+    userId: string,
+    type: 'followers' | 'following',
+    maxCount: number = -1,
+    onProgress?: ProgressCallback,
+    checkpoint?: UserListCheckpoint,
+    signal?: AbortSignal
+  ): Promise<ScrapedUser[]> {
     if (!this.page) throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Page not initialized', 500);
 
-    logger.info(`[InstagramClient] Fetching ${type} via GraphQL API...`);
+    const users: ScrapedUser[] = [];
+    let afterCursor: string | null = null;
 
-    const users: Array<{
-      ig_id: string;
-      username: string;
-      full_name: string | null;
-      is_private: boolean;
-      is_verified: boolean;
-      profile_pic_url: string | null;
-    }> = [];
+    if (checkpoint) {
+      const saved = await checkpoint.resume(type);
+      users.push(...saved.users);
+      afterCursor = saved.cursor;
+
+      if (saved.complete) {
+        logger.info(`[InstagramClient] ${type} list already complete in checkpoint (${users.length} users)`);
+        return users;
+      }
+      if (afterCursor) {
+        logger.info(`[InstagramClient] Resuming ${type} from checkpoint after ${users.length} users`);
+      }
+    }
+
+    logger.info(`[InstagramClient] Fetching ${type} via GraphQL API...`);
 
     // GraphQL query hashes (these may change - Instagram updates them periodically)
     const queryHash = type === 'followers' ? 'c76146de99bb02f6415203be841dd25a' : 'd04b0a864b4b54837c0d870b0e77e076';
     
     let hasNextPage = true;
-    let afterCursor = null;
 
     while (hasNextPage && (maxCount === -1 || users.length < maxCount)) {
+      this.throwIfCancelled(signal);
+      await this.throttle('GRAPHQL', afterCursor ? 1500 : 3000);
+
+      let response: { status: number; body: any };
       try {
         // Build GraphQL query
         const variables: any = {
@@ -584,7 +580,7 @@ export class InstagramClient {
         const url: string = `https://www.instagram.com/graphql/query/?query_hash=${queryHash}&variables=${encodeURIComponent(JSON.stringify(variables))}`;
 
         // Make request using page context (preserves cookies)
-        const response: any = await this.page.evaluate(async (fetchUrl) => {
+        response = await this.page.evaluate(async (fetchUrl) => {
           const res = await fetch(fetchUrl, {
             method: 'GET',
             credentials: 'include',
@@ -592,54 +588,92 @@ export class InstagramClient {
               'x-requested-with': 'XMLHttpRequest',
             },
           });
-          return await res.json();
+          // Throttled requests may not return JSON at all
+          const body = await res.json().catch(() => null);
+          return { status: res.status, body };
         }, url);
+      } catch (error) {
+        logger.error(`[InstagramClient] GraphQL request failed for ${type}:`, error);
+        // Fail instead of returning a truncated list, which would look like mass unfollows.
+        // Pages fetched so far are kept in the checkpoint for the retry.
+        throw new AppError(
+          ErrorCodes.IG_SCRAPE_FAILED,
+          `GraphQL request for ${type} failed after ${users.length} users`,
+          500,
+          { originalError: error }
+        );
+      }
 
-        // Parse response
-        const edgeKey = type === 'followers' ? 'edge_followed_by' : 'edge_follow';
-        const edges = response?.data?.user?.[edgeKey]?.edges || [];
-        const pageInfo: any = response?.data?.user?.[edgeKey]?.page_info || {};
-
-        if (edges.length === 0) {
-          logger.warn(`[InstagramClient] No more ${type} found in response`);
-          break;
-        }
+      // Instagram answers throttled requests with a 429 or { status: 'fail', message: 'Please wait a few minutes...' }
+      const message: string | null = response.body?.message || null;
+      if (response.status === 429 || (response.body?.status === 'fail' && /wait/i.test(message || ''))) {
+        await this.handleRateLimited(
+          'GRAPHQL',
+          response.status >= 400 ? response.status : null,
+          `Instagram refused the ${type} request after ${users.length} users: ${message || `HTTP ${response.status}`}`
+        );
+      }
 
-        // Extract users from edges
-        for (const edge of edges) {
-          const node = edge.node;
-          users.push({
-            ig_id: node.id || node.username,
-            username: node.username,
-            full_name: node.full_name || null,
-            is_private: node.is_private || false,
-            is_verified: node.is_verified || false,
-            profile_pic_url: node.profile_pic_url || null,
-          });
+      // Parse response
+      const edgeKey = type === 'followers' ? 'edge_followed_by' : 'edge_follow';
+      const list = response.body?.data?.user?.[edgeKey];
+      if (!list) {
+        throw new AppError(
+          ErrorCodes.IG_SCRAPE_FAILED,
+          `Unexpected ${type} response after ${users.length} users: ${message || `HTTP ${response.status}`}`,
+          500
+        );
+      }
 
-          if (maxCount !== -1 && users.length >= maxCount) {
-            hasNextPage = false;
-            break;
-          }
+      const edges = list.edges || [];
+      const pageInfo: any = list.page_info || {};
+
+      // Extract users from edges
+      const pageUsers: ScrapedUser[] = [];
+      for (const edge of edges) {
+        const node = edge.node;
+        pageUsers.push({
+          ig_id: node.id || node.username,
+          username: node.username,
+          full_name: node.full_name || null,
+          is_private: node.is_private || false,
+          is_verified: node.is_verified || false,
+          profile_pic_url: node.profile_pic_url || null,
+          // No following_count: the list query doesn't return it, and looking it up would
+          // cost one request per user
+        });
+
+        if (maxCount !== -1 && users.length + pageUsers.length >= maxCount) {
+          break;
         }
+      }
+      users.push(...pageUsers);
 
-        logger.info(`[InstagramClient] Fetched ${users.length} ${type} so far...`);
+      logger.info(`[InstagramClient] Fetched ${users.length} ${type} so far...`);
 
-        // Check if there's more data
-        hasNextPage = pageInfo.has_next_page || false;
-        afterCursor = pageInfo.end_cursor || null;
+      // Check if there's more data
+      hasNextPage = (pageInfo.has_next_page && !!pageInfo.end_cursor && edges.length > 0) || false;
+      afterCursor = pageInfo.end_cursor || null;
+      const complete = !hasNextPage || (maxCount !== -1 && users.length >= maxCount);
 
-        if (!hasNextPage || !afterCursor) {
-          logger.info(`[InstagramClient] Reached end of ${type} list`);
-          break;
-        }
+      if (checkpoint) {
+        await checkpoint.savePage(type, pageUsers, afterCursor, complete);
+      }
 
-        // Rate limiting - wait between requests
-        await this.page.waitForTimeout(1500);
+      if (onProgress) {
+        const totalCount = list.count;
+        await onProgress({
+          phase: type,
+          processed_items: users.length,
+          total_items: typeof totalCount === 'number'
+            ? (maxCount === -1 ? totalCount : Math.min(totalCount, maxCount))
+            : null,
+          cursor: afterCursor,
+        });
+      }
 
-      } catch (error) {
-        logger.error(`[InstagramClient] GraphQL request failed for ${type}:`, error);
-        // If GraphQL fails, break instead of crashing
+      if (complete) {
+        logger.info(`[InstagramClient] Reached end of ${type} list`);
         break;
       }
     }
@@ -649,54 +683,25 @@ export class InstagramClient {
 
   /**
    * Scrapes all media posts for a given user
+   * @param onProgress Called as posts are collected, with the 'media' phase.
+   * @param signal Aborted when the job is cancelled; checked between posts.
    */
-  public async scrapeMedia(igUsername: string, maxPosts: number = 50): Promise<Array<{
-    media_id: string;
-    shortcode: string;
-    media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL';
-    caption_text: string | null;
-    hashtags: string[];
-    mentions: string[];
-    timestamp: string;
-    media_url: string | null;
-    likes_count: number;
-    comments_count: number;
-    video_views: number | null;
-  }>> {
+  public async scrapeMedia(
+    igUsername: string,
+    maxPosts: number = 50,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMedia[]> {
     if (!this.page) {
       throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Playwright page not initialized.', 500);
     }
 
     logger.info(`[InstagramClient] Scraping media for ${igUsername} using GraphQL API...`);
     
-    // Navigate to profile to get user ID
-    await this.page.goto(`${this.baseUrl}/${igUsername}/`, { waitUntil: 'domcontentloaded', timeout: 30000 });
-    await this.page.waitForTimeout(2000);
-
-    // Extract user ID from page source
-    const userId = await this.page.evaluate(() => {
-      const scripts = Array.from(document.querySelectorAll('script'));
-      for (const script of scripts) {
-        const text = script.textContent || '';
-        if (text.includes('profilePage_')) {
-          const match = text.match(/"profilePage_(\d+)"/);
-          if (match) return match[1];
-        }
-        if (text.includes('"id":"')) {
-          const match = text.match(/"id":"(\d+)"/);
-          if (match) return match[1];
-        }
-      }
-      return null;
-    });
-
-    if (!userId) {
-      logger.error('[InstagramClient] Could not extract user ID from profile page');
-      throw new AppError(ErrorCodes.IG_SCRAPE_FAILED, 'Failed to get user ID', 500);
-    }
+    const userId = await this.getProfileUserId(igUsername);
 
     // Use GraphQL API to fetch all media
-    const media = await this.fetchMediaViaGraphQL(userId, maxPosts);
+    const media = await this.fetchMediaViaGraphQL(userId, maxPosts, onProgress, signal);
 
     logger.info(`[InstagramClient] ✅ Scraped ${media.length} posts via GraphQL`);
     return media;
@@ -706,19 +711,12 @@ export class InstagramClient {
    * Fetch media using Instagram's internal GraphQL API
    * Falls back to embedded page data if GraphQL fails
    */
-  private async fetchMediaViaGraphQL(userId: string, maxPosts: number = 50): Promise<Array<{
-    media_id: string;
-    shortcode: string;
-    media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL';
-    caption_text: string | null;
-    hashtags: string[];
-    mentions: string[];
-    timestamp: string;
-    media_url: string | null;
-    likes_count: number;
-    comments_count: number;
-    video_views: number | null;
-  }>> {
+  private async fetchMediaViaGraphQL(
+    userId: string,
+    maxPosts: number = 50,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMedia[]> {
     if (!this.page) throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Page not initialized', 500);
 
     logger.info(`[InstagramClient] Fetching media via embedded page data...`);
@@ -845,6 +843,7 @@ export class InstagramClient {
 
     if (media.length > 0) {
       logger.info(`[InstagramClient] Extracted ${media.length} posts from embedded page data`);
+      await onProgress?.({ phase: 'media', processed_items: media.length, total_items: media.length, cursor: null });
       return media;
     }
 
@@ -869,11 +868,13 @@ export class InstagramClient {
     const limit = Math.min(postLinks.length, maxPosts);
 
     for (let i = 0; i < limit; i++) {
+      this.throwIfCancelled(signal);
+
       try {
         const postUrl = `${this.baseUrl}${postLinks[i]}`;
         logger.info(`[InstagramClient] Scraping post ${i + 1}/${limit}: ${postLinks[i]}`);
         
-        await this.page.goto(postUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        await this.gotoThrottled(postUrl, 1000);
         await this.page.waitForTimeout(2000);
 
         const postData = await this.page.evaluate((shortcode) => {
@@ -922,8 +923,12 @@ export class InstagramClient {
           });
         }
 
-        await this.page.waitForTimeout(1000); // Rate limiting
+        await onProgress?.({ phase: 'media', processed_items: i + 1, total_items: limit, cursor: postLinks[i] });
       } catch (error) {
+        // A rate limit or deferral ends the scrape; any other failure only skips the post
+        if (error instanceof AppError && (error.code === ErrorCodes.IG_RATE_LIMITED || error.code === ErrorCodes.JOB_DEFERRED)) {
+          throw error;
+        }
         logger.warn(`[InstagramClient] Failed to scrape post ${postLinks[i]}:`, error);
         continue;
       }
@@ -933,6 +938,298 @@ export class InstagramClient {
     return scrapedMedia;
   }
 
+  /**
+   * Opens a profile page and extracts the account's numeric user ID from its source.
+   */
+  private async getProfileUserId(igUsername: string): Promise<string> {
+    if (!this.page) throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Page not initialized', 500);
+
+    await this.gotoThrottled(`${this.baseUrl}/${igUsername}/`);
+    await this.page.waitForTimeout(2000);
+
+    // Extract user ID from page source
+    const userId = await this.page.evaluate(() => {
+      const scripts = Array.from(document.querySelectorAll('script'));
+      for (const script of scripts) {
+        const text = script.textContent || '';
+        if (text.includes('profilePage_')) {
+          const match = text.match(/"profilePage_(\d+)"/);
+          if (match) return match[1];
+        }
+        if (text.includes('"id":"')) {
+          const match = text.match(/"id":"(\d+)"/);
+          if (match) return match[1];
+        }
+      }
+      return null;
+    });
+
+    if (!userId) {
+      logger.error('[InstagramClient] Could not extract user ID from profile page');
+      throw new AppError(ErrorCodes.IG_SCRAPE_FAILED, 'Failed to get user ID', 500);
+    }
+
+    return userId;
+  }
+
+  /**
+   * Fetches an Instagram web API endpoint from the page, so the session cookies are sent.
+   */
+  private async fetchApi(url: string): Promise<{ status: number; body: any }> {
+    if (!this.page) throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Page not initialized', 500);
+
+    return this.page.evaluate(async ({ fetchUrl, appId }) => {
+      const res = await fetch(fetchUrl, {
+        method: 'GET',
+        credentials: 'include',
+        headers: {
+          'x-ig-app-id': appId,
+          'x-requested-with': 'XMLHttpRequest',
+        },
+      });
+      const body = await res.json().catch(() => null);
+      return { status: res.status, body };
+    }, { fetchUrl: url, appId: this.webAppId });
+  }
+
+  /**
+   * Lists the likers and commenters of the given posts through the web API.
+   * @param onProgress Called after every post with the 'interactions' phase.
+   * @param signal Aborted when the job is cancelled; checked between requests.
+   */
+  public async scrapeMediaInteractions(
+    mediaIds: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMediaInteractions[]> {
+    if (!this.page) {
+      throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Playwright page not initialized.', 500);
+    }
+
+    logger.info(`[InstagramClient] Scraping likers and commenters of ${mediaIds.length} posts...`);
+    const interactions: ScrapedMediaInteractions[] = [];
+
+    for (let i = 0; i < mediaIds.length; i++) {
+      this.throwIfCancelled(signal);
+      const mediaId = mediaIds[i];
+
+      try {
+        await this.throttle('GRAPHQL', 1500);
+        const response = await this.fetchApi(`${this.baseUrl}/api/v1/media/${mediaId}/likers/`);
+        await this.checkApiResponse(response, 'GRAPHQL', `likers of post ${mediaId}`);
+
+        interactions.push({
+          media_id: mediaId,
+          likers: (response.body?.users || []).map((user: any) => this.toScrapedUser(user)),
+          comments: await this.fetchComments(mediaId, signal),
+        });
+      } catch (error) {
+        // A rate limit, deferral or cancellation ends the scrape; any other failure only skips the post
+        if (
+          error instanceof AppError &&
+          (error.code === ErrorCodes.IG_RATE_LIMITED || error.code === ErrorCodes.JOB_DEFERRED || error.code === ErrorCodes.JOB_CANCELLED)
+        ) {
+          throw error;
+        }
+        logger.warn(`[InstagramClient] Failed to scrape interactions of post ${mediaId}:`, error);
+      }
+
+      await onProgress?.({ phase: 'interactions', processed_items: i + 1, total_items: mediaIds.length, cursor: mediaId });
+    }
+
+    logger.info(`[InstagramClient] ✅ Scraped interactions of ${interactions.length} posts`);
+    return interactions;
+  }
+
+  /**
+   * Lists the top-level comments of a post, page by page.
+   */
+  private async fetchComments(mediaId: string, signal?: AbortSignal): Promise<ScrapedComment[]> {
+    const comments: ScrapedComment[] = [];
+    let minId: string | null = null;
+
+    do {
+      this.throwIfCancelled(signal);
+      await this.throttle('GRAPHQL', 1500);
+      const query: string = minId ? `&min_id=${encodeURIComponent(minId)}` : '';
+      const response = await this.fetchApi(`${this.baseUrl}/api/v1/media/${mediaId}/comments/?can_support_threading=true${query}`);
+      await this.checkApiResponse(response, 'GRAPHQL', `comments of post ${mediaId}`);
+
+      for (const comment of response.body?.comments || []) {
+        if (!comment.user) continue;
+        comments.push({
+          comment_id: String(comment.pk || comment.id),
+          text: comment.text || '',
+          timestamp: new Date(comment.created_at * 1000).toISOString(),
+          author: this.toScrapedUser(comment.user),
+        });
+      }
+      minId = response.body?.next_min_id || null;
+    } while (minId);
+
+    return comments;
+  }
+
+  /**
+   * Maps a user object of the web API (likers, comment authors, story viewers).
+   */
+  private toScrapedUser(user: any): ScrapedUser {
+    return {
+      ig_id: String(user.pk || user.id || user.username),
+      username: user.username,
+      full_name: user.full_name || null,
+      is_private: user.is_private || false,
+      is_verified: user.is_verified || false,
+      profile_pic_url: user.profile_pic_url || null,
+    };
+  }
+
+  /**
+   * Scrapes the live stories of a user. On the account's own stories Instagram also
+   * reports the viewer count and lists the viewers, which are fetched page by page.
+   * @param onProgress Called after every story with the 'stories' phase.
+   * @param signal Aborted when the job is cancelled; checked between requests.
+   */
+  public async scrapeStories(
+    igUsername: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedStory[]> {
+    if (!this.page) {
+      throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Playwright page not initialized.', 500);
+    }
+
+    logger.info(`[InstagramClient] Scraping stories for ${igUsername}...`);
+    const userId = await this.getProfileUserId(igUsername);
+
+    this.throwIfCancelled(signal);
+    await this.throttle('GRAPHQL', 1500);
+    const response = await this.fetchApi(`${this.baseUrl}/api/v1/feed/reels_media/?reel_ids=${userId}`);
+    await this.checkApiResponse(response, 'GRAPHQL', 'stories');
+
+    // Older responses key the reels by user ID, newer ones return them as a list
+    const reel = response.body?.reels?.[userId] || response.body?.reels_media?.[0];
+    const items: any[] = reel?.items || [];
+    const stories: ScrapedStory[] = [];
+
+    for (const item of items) {
+      this.throwIfCancelled(signal);
+      const storyId = String(item.pk || item.id).split('_')[0];
+      const isVideo = item.media_type === 2;
+      const viewerCount = item.total_viewer_count ?? item.viewer_count ?? null;
+
+      stories.push({
+        story_id: storyId,
+        media_type: isVideo ? 'VIDEO' : 'IMAGE',
+        media_url: (isVideo ? item.video_versions?.[0]?.url : null) || item.image_versions2?.candidates?.[0]?.url || null,
+        hashtags: (item.story_hashtags || []).map((h: any) => h.hashtag?.name).filter(Boolean),
+        mentions: (item.reel_mentions || []).map((m: any) => m.user?.username).filter(Boolean),
+        taken_at: new Date(item.taken_at * 1000).toISOString(),
+        expires_at: new Date((item.expiring_at || item.taken_at + 24 * 60 * 60) * 1000).toISOString(),
+        viewer_count: viewerCount,
+        // Viewer counts are only present on the owner's own stories
+        viewers: viewerCount !== null ? await this.fetchStoryViewers(storyId, signal) : null,
+      });
+      await onProgress?.({ phase: 'stories', processed_items: stories.length, total_items: items.length, cursor: null });
+    }
+
+    logger.info(`[InstagramClient] ✅ Scraped ${stories.length} live stories`);
+    return stories;
+  }
+
+  /**
+   * Lists the viewers of one of the account's own stories.
+   */
+  private async fetchStoryViewers(storyId: string, signal?: AbortSignal): Promise<ScrapedUser[]> {
+    const viewers: ScrapedUser[] = [];
+    let maxId: string | null = null;
+
+    do {
+      this.throwIfCancelled(signal);
+      await this.throttle('GRAPHQL', 1500);
+      const query: string = maxId ? `?max_id=${encodeURIComponent(maxId)}` : '';
+      const response = await this.fetchApi(`${this.baseUrl}/api/v1/media/${storyId}/list_reel_media_viewer/${query}`);
+      await this.checkApiResponse(response, 'GRAPHQL', `viewers of story ${storyId}`);
+
+      for (const user of response.body?.users || []) {
+        viewers.push(this.toScrapedUser(user));
+      }
+      maxId = response.body?.next_max_id || null;
+    } while (maxId);
+
+    return viewers;
+  }
+
+  /**
+   * Fails with IG_RATE_LIMITED on throttled responses and IG_SCRAPE_FAILED on other errors.
+   */
+  private async checkApiResponse(
+    response: { status: number; body: any },
+    endpointClass: IgEndpointClass,
+    what: string
+  ): Promise<void> {
+    const message: string | null = response.body?.message || null;
+    if (response.status === 429 || (response.body?.status === 'fail' && /wait/i.test(message || ''))) {
+      await this.handleRateLimited(
+        endpointClass,
+        response.status >= 400 ? response.status : null,
+        `Instagram refused the ${what} request: ${message || `HTTP ${response.status}`}`
+      );
+    }
+    if (response.status >= 400 || !response.body || response.body.status === 'fail') {
+      throw new AppError(
+        ErrorCodes.IG_SCRAPE_FAILED,
+        `Unexpected ${what} response: ${message || `HTTP ${response.status}`}`,
+        500
+      );
+    }
+  }
+
+  /**
+   * Waits until a request of `endpointClass` may be sent. With a governor this draws from
+   * the account's shared budget; without one it sleeps `fallbackDelayMs`.
+   */
+  private async throttle(endpointClass: IgEndpointClass, fallbackDelayMs: number): Promise<void> {
+    if (this.governor) {
+      await this.governor.acquire(endpointClass);
+    } else if (fallbackDelayMs > 0) {
+      await this.page?.waitForTimeout(fallbackDelayMs);
+    }
+  }
+
+  /**
+   * Navigates to an Instagram page as a PAGE_VIEW request.
+   * @param fallbackDelayMs Delay before the navigation when there is no governor.
+   */
+  private async gotoThrottled(url: string, fallbackDelayMs: number = 0): Promise<void> {
+    if (!this.page) throw new AppError(ErrorCodes.INTERNAL_SERVER_ERROR, 'Page not initialized', 500);
+
+    await this.throttle('PAGE_VIEW', fallbackDelayMs);
+
+    const response = await this.page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    if (response?.status() === 429) {
+      await this.handleRateLimited('PAGE_VIEW', 429, `Instagram refused to load ${url}`);
+    }
+  }
+
+  /**
+   * Reports a 429 / "please wait" response to the governor and fails with IG_RATE_LIMITED.
+   */
+  private async handleRateLimited(endpointClass: IgEndpointClass, statusCode: number | null, detail: string): Promise<never> {
+    logger.warn(`[InstagramClient] Rate limited (${endpointClass}): ${detail}`);
+    await this.governor?.recordRateLimit(endpointClass, statusCode, detail);
+    throw new AppError(ErrorCodes.IG_RATE_LIMITED, detail, 429);
+  }
+
+  /**
+   * Throws JOB_CANCELLED once the job driving this scrape has been cancelled.
+   */
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AppError(ErrorCodes.JOB_CANCELLED, 'Job was cancelled by the user', 409);
+    }
+  }
+
   /**
    * DEPRECATED: Old modal-based scraper for followers/following
    * Now using GraphQL API instead (much faster and more reliable)
@@ -0,0 +1,158 @@
+import { DecryptedSessionPayload, JobProgressUpdate } from '@ig-analytics/shared';
+
+/**
+ * Receives incremental scraping progress, e.g. to publish it on the job row.
+ */
+export type ProgressCallback = (update: JobProgressUpdate) => Promise<void>;
+
+export interface ScrapedProfile {
+  username: string;
+  full_name: string | null;
+  bio: string | null;
+  external_url: string | null;
+  profile_pic_url: string | null;
+  is_verified: boolean;
+  is_business: boolean;
+  is_private: boolean;
+  category_name: string | null;
+  followers_count: number;
+  following_count: number;
+  media_count: number;
+}
+
+export interface ScrapedUser {
+  ig_id: string;
+  username: string;
+  full_name: string | null;
+  is_private: boolean;
+  is_verified: boolean;
+  profile_pic_url: string | null;
+  /** Accounts the user follows, when a source reports it in user lists (InstagramClient doesn't). */
+  following_count?: number | null;
+}
+
+export interface ScrapedMedia {
+  media_id: string;
+  shortcode: string;
+  media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL';
+  caption_text: string | null;
+  hashtags: string[];
+  mentions: string[];
+  timestamp: string;
+  media_url: string | null;
+  likes_count: number;
+  comments_count: number;
+  video_views: number | null;
+  /** Only reported by the Graph API. */
+  insights?: MediaInsights;
+}
+
+/**
+ * A comment on one of the account's posts.
+ */
+export interface ScrapedComment {
+  comment_id: string;
+  text: string;
+  timestamp: string;
+  author: ScrapedUser;
+}
+
+/**
+ * Who liked and commented on one post.
+ */
+export interface ScrapedMediaInteractions {
+  media_id: string;
+  /** Accounts that liked the post; null when the source can't list them. */
+  likers: ScrapedUser[] | null;
+  comments: ScrapedComment[];
+}
+
+/**
+ * A live story; Instagram removes stories 24h after they are posted.
+ */
+export interface ScrapedStory {
+  story_id: string;
+  media_type: 'IMAGE' | 'VIDEO';
+  /** Signed, short-lived CDN URL of the image or video. */
+  media_url: string | null;
+  hashtags: string[];
+  mentions: string[];
+  taken_at: string;
+  expires_at: string;
+  /** Viewers so far; null when Instagram doesn't report them. */
+  viewer_count: number | null;
+  /** Viewers as listed to the account owner; null when the source can't list them. */
+  viewers: ScrapedUser[] | null;
+}
+
+export interface MediaInsights {
+  reach: number;
+  impressions: number;
+  saves: number;
+  shares: number;
+}
+
+/**
+ * Account-level insights of a professional account, as reported by the Graph API.
+ */
+export interface AccountInsights {
+  reach: number | null;
+  impressions: number | null;
+  demographics: Array<{
+    breakdown: 'age' | 'gender' | 'city' | 'country';
+    dimension: string;
+    value: number;
+  }>;
+}
+
+/**
+ * Persistent state of a follower/following list fetch, used to resume it after a failure.
+ */
+export interface UserListCheckpoint {
+  /** Users saved so far, the cursor to continue from and whether the list is complete. */
+  resume(type: 'followers' | 'following'): Promise<{ users: ScrapedUser[]; cursor: string | null; complete: boolean }>;
+  /** Saves one fetched page together with the cursor of the next one. */
+  savePage(type: 'followers' | 'following', users: ScrapedUser[], cursor: string | null, complete: boolean): Promise<void>;
+}
+
+/**
+ * Where the worker gets Instagram data from. `InstagramClient` drives a real browser,
+ * `InstagramGraphClient` calls the official Graph API for professional accounts, and
+ * `FixtureDataSource` replays recorded JSON so the worker can run without Instagram.
+ */
+export interface InstagramDataSource {
+  /** Whether the source needs the profile's browser session (`initBrowser`) before scraping. */
+  readonly usesSession: boolean;
+  /** Whether `scrapeFollowers` can list followers; the Graph API only reports counts. */
+  readonly supportsFollowerLists: boolean;
+  /** Restores a saved session before scraping. */
+  initBrowser(sessionPayload?: DecryptedSessionPayload, forceHeaded?: boolean): Promise<void>;
+  /** Releases whatever `initBrowser` or `login` opened. */
+  close(): Promise<void>;
+  login(username: string, password: string, twoFaCode?: string): Promise<DecryptedSessionPayload>;
+  checkSession(sessionPayload?: DecryptedSessionPayload): Promise<boolean>;
+  scrapeProfile(igUsername: string): Promise<ScrapedProfile>;
+  scrapeFollowers(
+    igUsername: string,
+    maxCount?: number,
+    onProgress?: ProgressCallback,
+    checkpoint?: UserListCheckpoint,
+    signal?: AbortSignal
+  ): Promise<{ followers: ScrapedUser[]; following: ScrapedUser[] }>;
+  scrapeMedia(
+    igUsername: string,
+    maxPosts?: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMedia[]>;
+  /** Likers and commenters of the given posts (media ids) of the account; posts that fail are left out. */
+  scrapeMediaInteractions(
+    mediaIds: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMediaInteractions[]>;
+  /** Stories that are live right now, with their viewers when the source can see them. */
+  scrapeStories(igUsername: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<ScrapedStory[]>;
+  /** Reach, impressions and audience demographics; only available through the Graph API. */
+  scrapeAccountInsights?(igUsername: string): Promise<AccountInsights>;
+}
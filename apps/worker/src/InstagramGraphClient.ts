@@ -0,0 +1,414 @@
+import { DecryptedSessionPayload, AppError, ErrorCodes, createLogger } from '@ig-analytics/shared';
+import {
+  AccountInsights,
+  InstagramDataSource,
+  MediaInsights,
+  ProgressCallback,
+  ScrapedComment,
+  ScrapedMedia,
+  ScrapedMediaInteractions,
+  ScrapedProfile,
+  ScrapedStory,
+  ScrapedUser,
+} from './InstagramDataSource';
+
+const logger = createLogger('InstagramGraphClient');
+
+// Both can point at the mock server (src/mockGraphApiServer.ts) for local runs and CI
+const GRAPH_API_URL = process.env.WORKER_IG_GRAPH_API_URL || 'https://graph.instagram.com/v21.0';
+const OAUTH_URL = process.env.WORKER_IG_OAUTH_URL || 'https://api.instagram.com';
+
+const MEDIA_FIELDS = 'id,caption,media_type,media_product_type,media_url,thumbnail_url,permalink,shortcode,timestamp,like_count,comments_count';
+const DEMOGRAPHIC_BREAKDOWNS = ['age', 'gender', 'city', 'country'] as const;
+// Graph API error codes: 190 invalid/expired token; 4, 17, 32 and 613 are rate limits
+const TOKEN_ERROR_CODES = [190];
+const RATE_LIMIT_ERROR_CODES = [4, 17, 32, 613];
+// Long-lived tokens last 60 days; refresh them when less than a week is left
+const TOKEN_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Long-lived access token of a professional account, as stored (encrypted) in `ig_graph_tokens`.
+ */
+export interface GraphToken {
+  access_token: string;
+  /** Instagram professional account id. */
+  user_id: string;
+  /** Epoch milliseconds, or null when the API did not report an expiry. */
+  expires_at: number | null;
+}
+
+export interface GraphAccount {
+  id: string;
+  username: string;
+  account_type: 'BUSINESS' | 'MEDIA_CREATOR' | 'PERSONAL';
+}
+
+/**
+ * Instagram data source for Business/Creator accounts, backed by the official
+ * Instagram Graph API. Authenticates with an OAuth token instead of a browser session;
+ * reports reach, impressions and demographics, but cannot list followers.
+ */
+export class InstagramGraphClient implements InstagramDataSource {
+  public readonly usesSession = false;
+  public readonly supportsFollowerLists = false;
+
+  constructor(private readonly token: GraphToken) {}
+
+  /**
+   * Exchanges an OAuth authorization code for a long-lived (60 day) access token.
+   */
+  public static async exchangeCode(
+    code: string,
+    redirectUri: string,
+    appId: string,
+    appSecret: string
+  ): Promise<GraphToken> {
+    const shortLived = await InstagramGraphClient.fetchJson(`${OAUTH_URL}/oauth/access_token`, {
+      method: 'POST',
+      body: new URLSearchParams({
+        client_id: appId,
+        client_secret: appSecret,
+        grant_type: 'authorization_code',
+        redirect_uri: redirectUri,
+        code,
+      }),
+    });
+
+    const params = new URLSearchParams({
+      grant_type: 'ig_exchange_token',
+      client_secret: appSecret,
+      access_token: shortLived.access_token,
+    });
+    const longLived = await InstagramGraphClient.fetchJson(`${GRAPH_API_URL}/access_token?${params}`);
+
+    return {
+      access_token: longLived.access_token,
+      user_id: String(shortLived.user_id),
+      expires_at: longLived.expires_in ? Date.now() + longLived.expires_in * 1000 : null,
+    };
+  }
+
+  /**
+   * Whether the token expires within a week and should be refreshed before it is used.
+   */
+  public static needsRefresh(token: GraphToken, now: number = Date.now()): boolean {
+    return token.expires_at !== null && token.expires_at - now < TOKEN_REFRESH_MS;
+  }
+
+  /**
+   * Extends the token by another 60 days; Instagram only refreshes tokens older than 24h.
+   */
+  public async refreshToken(): Promise<GraphToken> {
+    const params = new URLSearchParams({ grant_type: 'ig_refresh_token', access_token: this.token.access_token });
+    const refreshed = await InstagramGraphClient.fetchJson(`${GRAPH_API_URL}/refresh_access_token?${params}`);
+
+    return {
+      ...this.token,
+      access_token: refreshed.access_token,
+      expires_at: refreshed.expires_in ? Date.now() + refreshed.expires_in * 1000 : this.token.expires_at,
+    };
+  }
+
+  public async getAccount(): Promise<GraphAccount> {
+    const account = await this.get('me', { fields: 'user_id,username,account_type' });
+    return { id: String(account.user_id || account.id), username: account.username, account_type: account.account_type };
+  }
+
+  public async initBrowser(): Promise<void> {
+    // Nothing to restore: requests are authenticated with the token
+  }
+
+  public async close(): Promise<void> {}
+
+  public async login(): Promise<DecryptedSessionPayload> {
+    throw new AppError(
+      ErrorCodes.INVALID_INPUT,
+      'Graph API profiles connect through Instagram OAuth, not with a password.',
+      400
+    );
+  }
+
+  public async checkSession(): Promise<boolean> {
+    try {
+      await this.getAccount();
+      return true;
+    } catch (error) {
+      if (error instanceof AppError && error.code === ErrorCodes.SESSION_EXPIRED) return false;
+      throw error;
+    }
+  }
+
+  public async scrapeProfile(igUsername: string): Promise<ScrapedProfile> {
+    logger.info(`Fetching profile of ${igUsername} from the Graph API...`);
+    const user = await this.get(this.token.user_id, {
+      fields: 'username,name,biography,website,profile_picture_url,followers_count,follows_count,media_count,account_type',
+    });
+
+    return {
+      username: user.username,
+      full_name: user.name || null,
+      bio: user.biography || null,
+      external_url: user.website || null,
+      profile_pic_url: user.profile_picture_url || null,
+      is_verified: false, // Not exposed by the Graph API
+      is_business: user.account_type !== 'PERSONAL',
+      is_private: false, // Professional accounts are always public
+      category_name: null,
+      followers_count: user.followers_count || 0,
+      following_count: user.follows_count || 0,
+      media_count: user.media_count || 0,
+    };
+  }
+
+  public async scrapeFollowers(): Promise<{ followers: ScrapedUser[]; following: ScrapedUser[] }> {
+    throw new AppError(
+      ErrorCodes.INVALID_INPUT,
+      'The Instagram Graph API does not list followers; only follower counts are available.',
+      400
+    );
+  }
+
+  public async scrapeMedia(
+    igUsername: string,
+    maxPosts: number = 50,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMedia[]> {
+    logger.info(`Fetching media of ${igUsername} from the Graph API...`);
+    const media: ScrapedMedia[] = [];
+    let page = await this.get(`${this.token.user_id}/media`, { fields: MEDIA_FIELDS, limit: '25' });
+
+    while (media.length < maxPosts) {
+      for (const item of page.data || []) {
+        if (media.length >= maxPosts) break;
+        this.throwIfCancelled(signal);
+
+        const caption: string = item.caption || '';
+        media.push({
+          media_id: item.id,
+          shortcode: item.shortcode || item.permalink?.match(/\/(p|reel)\/([^/]+)/)?.[2] || item.id,
+          media_type: item.media_type === 'CAROUSEL_ALBUM' ? 'CAROUSEL' : item.media_type === 'VIDEO' ? 'VIDEO' : 'IMAGE',
+          caption_text: caption || null,
+          hashtags: (caption.match(/#\w+/g) || []).map((h) => h.substring(1)),
+          mentions: (caption.match(/@\w+/g) || []).map((m) => m.substring(1)),
+          timestamp: new Date(item.timestamp).toISOString(),
+          media_url: item.media_url || item.thumbnail_url || null,
+          likes_count: item.like_count || 0,
+          comments_count: item.comments_count || 0,
+          video_views: null,
+          insights: await this.getMediaInsights(item.id),
+        });
+        await onProgress?.({ phase: 'media', processed_items: media.length, total_items: null, cursor: item.id });
+      }
+
+      const next: string | undefined = page.paging?.next;
+      if (!next || !page.data?.length) break;
+      page = await InstagramGraphClient.fetchJson(next);
+    }
+
+    return media;
+  }
+
+  /**
+   * Comments of the given posts; the Graph API doesn't list likers.
+   */
+  public async scrapeMediaInteractions(
+    mediaIds: string[],
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedMediaInteractions[]> {
+    const interactions: ScrapedMediaInteractions[] = [];
+
+    for (const mediaId of mediaIds) {
+      this.throwIfCancelled(signal);
+      const comments: ScrapedComment[] = [];
+
+      try {
+        let page = await this.get(`${mediaId}/comments`, { fields: 'id,text,timestamp,username,from', limit: '50' });
+        while (true) {
+          for (const comment of page.data || []) {
+            const username: string = comment.from?.username || comment.username;
+            comments.push({
+              comment_id: comment.id,
+              text: comment.text || '',
+              timestamp: new Date(comment.timestamp).toISOString(),
+              author: {
+                ig_id: comment.from?.id || username,
+                username,
+                full_name: null,
+                is_private: false,
+                is_verified: false,
+                profile_pic_url: null,
+              },
+            });
+          }
+
+          const next: string | undefined = page.paging?.next;
+          if (!next || !page.data?.length) break;
+          this.throwIfCancelled(signal);
+          page = await InstagramGraphClient.fetchJson(next);
+        }
+        interactions.push({ media_id: mediaId, likers: null, comments });
+      } catch (error) {
+        if (error instanceof AppError && error.code !== ErrorCodes.IG_SCRAPE_FAILED) throw error;
+        logger.warn(`No comments for media ${mediaId}:`, error);
+      }
+
+      await onProgress?.({ phase: 'interactions', processed_items: interactions.length, total_items: mediaIds.length, cursor: mediaId });
+    }
+
+    return interactions;
+  }
+
+  public async scrapeStories(
+    igUsername: string,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<ScrapedStory[]> {
+    logger.info(`Fetching stories of ${igUsername} from the Graph API...`);
+    const response = await this.get(`${this.token.user_id}/stories`, {
+      fields: 'id,media_type,media_url,thumbnail_url,timestamp',
+    });
+    const items: any[] = response.data || [];
+    const stories: ScrapedStory[] = [];
+
+    for (const item of items) {
+      this.throwIfCancelled(signal);
+      const takenAt = new Date(item.timestamp);
+      stories.push({
+        story_id: item.id,
+        media_type: item.media_type === 'VIDEO' ? 'VIDEO' : 'IMAGE',
+        media_url: item.media_url || item.thumbnail_url || null,
+        hashtags: [],
+        mentions: [],
+        taken_at: takenAt.toISOString(),
+        expires_at: new Date(takenAt.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+        viewer_count: await this.getStoryReach(item.id),
+        viewers: null, // The Graph API doesn't list story viewers
+      });
+      await onProgress?.({ phase: 'stories', processed_items: stories.length, total_items: items.length, cursor: null });
+    }
+
+    return stories;
+  }
+
+  public async scrapeAccountInsights(igUsername: string): Promise<AccountInsights> {
+    logger.info(`Fetching account insights of ${igUsername} from the Graph API...`);
+    const daily = await this.get(`${this.token.user_id}/insights`, {
+      metric: 'reach,views',
+      period: 'day',
+      metric_type: 'total_value',
+    });
+    const totals = new Map<string, number>(
+      (daily.data || []).map((metric: any) => [metric.name, metric.total_value?.value ?? 0])
+    );
+
+    const demographics: AccountInsights['demographics'] = [];
+    for (const breakdown of DEMOGRAPHIC_BREAKDOWNS) {
+      try {
+        const response = await this.get(`${this.token.user_id}/insights`, {
+          metric: 'follower_demographics',
+          period: 'lifetime',
+          metric_type: 'total_value',
+          breakdown,
+        });
+        const results = response.data?.[0]?.total_value?.breakdowns?.[0]?.results || [];
+        for (const result of results) {
+          demographics.push({ breakdown, dimension: String(result.dimension_values?.[0]), value: result.value || 0 });
+        }
+      } catch (error) {
+        // Accounts under 100 followers get no demographics; the other metrics are still useful
+        if (error instanceof AppError && error.code !== ErrorCodes.IG_SCRAPE_FAILED) throw error;
+        logger.warn(`No ${breakdown} demographics for ${igUsername}:`, error);
+      }
+    }
+
+    return {
+      reach: totals.get('reach') ?? null,
+      // Instagram reports impressions as "views" since API v21
+      impressions: totals.get('views') ?? null,
+      demographics,
+    };
+  }
+
+  /**
+   * Lifetime insights of one media item; undefined when Instagram has none (e.g. very recent posts).
+   */
+  private async getMediaInsights(mediaId: string): Promise<MediaInsights | undefined> {
+    try {
+      const response = await this.get(`${mediaId}/insights`, { metric: 'reach,views,saved,shares' });
+      const values = new Map<string, number>(
+        (response.data || []).map((metric: any) => [metric.name, metric.values?.[0]?.value ?? metric.total_value?.value ?? 0])
+      );
+      return {
+        reach: values.get('reach') || 0,
+        impressions: values.get('views') || 0,
+        saves: values.get('saved') || 0,
+        shares: values.get('shares') || 0,
+      };
+    } catch (error) {
+      if (error instanceof AppError && error.code !== ErrorCodes.IG_SCRAPE_FAILED) throw error;
+      logger.warn(`No insights for media ${mediaId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Unique accounts that saw a story, the Graph API's closest figure to a viewer count.
+   */
+  private async getStoryReach(storyId: string): Promise<number | null> {
+    try {
+      const response = await this.get(`${storyId}/insights`, { metric: 'reach' });
+      const metric = response.data?.[0];
+      return metric?.values?.[0]?.value ?? metric?.total_value?.value ?? null;
+    } catch (error) {
+      if (error instanceof AppError && error.code !== ErrorCodes.IG_SCRAPE_FAILED) throw error;
+      logger.warn(`No insights for story ${storyId}:`, error);
+      return null;
+    }
+  }
+
+  private async get(path: string, params: Record<string, string>): Promise<any> {
+    const query = new URLSearchParams({ ...params, access_token: this.token.access_token });
+    return InstagramGraphClient.fetchJson(`${GRAPH_API_URL}/${path}?${query}`);
+  }
+
+  /**
+   * Performs a Graph API request and maps its errors to AppErrors.
+   */
+  private static async fetchJson(url: string, init?: RequestInit): Promise<any> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      throw new AppError(ErrorCodes.SERVICE_UNAVAILABLE, 'Instagram Graph API is unreachable.', 503, { originalError: error });
+    }
+
+    const body = await response.json().catch(() => null);
+    if (response.ok && !body?.error) {
+      return body;
+    }
+
+    const graphError = body?.error || {};
+    const message = graphError.message || body?.error_message || `HTTP ${response.status}`;
+    if (TOKEN_ERROR_CODES.includes(graphError.code)) {
+      throw new AppError(ErrorCodes.SESSION_EXPIRED, `Instagram Graph API token is no longer valid: ${message}`, 401);
+    }
+    if (RATE_LIMIT_ERROR_CODES.includes(graphError.code) || response.status === 429) {
+      throw new AppError(ErrorCodes.IG_RATE_LIMITED, `Instagram Graph API rate limit reached: ${message}`, 429);
+    }
+    throw new AppError(ErrorCodes.IG_SCRAPE_FAILED, `Instagram Graph API request failed: ${message}`, 502, {
+      status: response.status,
+      code: graphError.code,
+    });
+  }
+
+  /**
+   * Throws JOB_CANCELLED once the job driving this fetch has been cancelled.
+   */
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AppError(ErrorCodes.JOB_CANCELLED, 'Job was cancelled by the user', 409);
+    }
+  }
+}
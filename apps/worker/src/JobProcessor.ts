@@ -0,0 +1,427 @@
+import { InstagramDataSource } from './InstagramDataSource';
+import { InstagramGraphClient } from './InstagramGraphClient';
+import { FollowerScrapeCheckpoint } from './FollowerScrapeCheckpoint';
+import { SupabaseService } from './SupabaseService';
+import {
+  AppError,
+  ErrorCodes,
+  JOB_RETRY_POLICIES,
+  JobProgressUpdate,
+  LoginJobMetadata,
+  RETRYABLE_ERROR_CODES,
+  SyncJob,
+  createLogger,
+  getBackoffDelayMs,
+} from '@ig-analytics/shared';
+
+const logger = createLogger('Worker');
+
+export interface JobProcessorOptions {
+  /** Id the worker claims jobs under; progress and outcomes are only written while it owns the job. */
+  workerId: string;
+  /** How long a claim is valid before the job counts as abandoned. */
+  leaseSeconds: number;
+  /** Likers and commenters are collected for this many of the newest posts on every SYNC_INTERACTIONS. */
+  interactionPosts: number;
+  /** Instagram app credentials for the Graph API connector (OAuth code exchange); optional. */
+  igAppId?: string;
+  igAppSecret?: string;
+  /** Creates the Instagram data source a job runs against. */
+  createDataSource: (job: SyncJob) => Promise<InstagramDataSource>;
+}
+
+/**
+ * Runs sync jobs claimed by the worker loop against the data source chosen for each job.
+ */
+export class JobProcessor {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly options: JobProcessorOptions
+  ) {}
+
+  /**
+   * Runs a claimed job and records its outcome: completed, retried, deferred or failed.
+   * @param job The SyncJob to process.
+   */
+  public async process(job: SyncJob): Promise<void> {
+    logger.info(`Processing job: ${job.job_type} for profile ${job.profile_id}`);
+    let client: InstagramDataSource | null = null;
+    let processedItems = 0;
+    let errorMessage: string | null = null;
+    let jobStatus: 'COMPLETED' | 'FAILED' | 'DEAD' | 'CANCELLED' = 'COMPLETED';
+    let retryable = false;
+    // Set when the account's request budget is spent: the job goes back to the queue until then
+    let deferUntil: Date | null = null;
+
+    // Keep the lease alive while long jobs (e.g. SYNC_FOLLOWERS on large accounts) run.
+    // Leases are renewed three times per lease period so a single slow heartbeat doesn't lose the job
+    const heartbeat = setInterval(async () => {
+      try {
+        const stillOwned = await this.supabaseService.renewJobLease(job.id, this.options.workerId, this.options.leaseSeconds);
+        if (!stillOwned) {
+          logger.warn(`Lost lease on job ${job.id}; another worker may retry it`);
+        }
+      } catch (error) {
+        logger.error(`Failed to renew lease on job ${job.id}`, error);
+      }
+    }, (this.options.leaseSeconds * 1000) / 3);
+
+    // Aborted when the user cancels the job; scrapers check it between pages
+    const cancellation = new AbortController();
+
+    // Progress is best effort: a failed update must not fail the job itself.
+    // Scrapers report after every page, which is also when a cancel request is picked up.
+    const reportProgress = async (update: JobProgressUpdate) => {
+      try {
+        await this.supabaseService.updateJobProgress(job.id, this.options.workerId, update);
+        if (!cancellation.signal.aborted && await this.supabaseService.isCancelRequested(job.id)) {
+          logger.info(`Job ${job.id} was cancelled; stopping after the current page`);
+          cancellation.abort();
+        }
+      } catch (error) {
+        logger.warn(`Failed to publish progress for job ${job.id}`, error);
+      }
+    };
+
+    try {
+      client = await this.options.createDataSource(job);
+
+      switch (job.job_type) {
+        case 'LOGIN':
+          {
+            const { username, password, two_fa_code, oauth_code, redirect_uri } = this.getLoginMetadata(job);
+            if (oauth_code) {
+              // Business/Creator account connecting through Instagram OAuth
+              if (!redirect_uri) {
+                throw new AppError(ErrorCodes.INVALID_INPUT, 'Missing redirect_uri for the OAuth code in job metadata.', 400);
+              }
+              await this.connectGraphApi(job, oauth_code, redirect_uri);
+            } else {
+              if (!username || !password) {
+                throw new AppError(ErrorCodes.INVALID_INPUT, 'Missing username or password in job metadata.', 400);
+              }
+
+              const sessionPayload = await client.login(username, password, two_fa_code ?? undefined);
+              await this.supabaseService.saveEncryptedSession(job.profile_id, job.user_id, sessionPayload, 'VALID');
+              await this.supabaseService.updateProfileState(job.profile_id, 'CONNECTED');
+              logger.info('LOGIN job completed successfully. Session saved.');
+            }
+          
+            // Automatically start a full sync after successful login
+            const pipelineId = await this.supabaseService.enqueueSyncPipeline(job.profile_id, job.user_id, 'LOGIN');
+            logger.info(`[Worker] Sync pipeline ${pipelineId} queued after login`);
+          }
+          break;
+
+        case 'RECONNECT':
+          {
+            // RECONNECT only checks that the stored session (or Graph API token) still works.
+            // Logging in again needs the password, which is never stored, so an expired
+            // session fails the job and the user reconnects with a LOGIN job.
+            if (job.metadata?.two_fa_code) {
+              throw new AppError(
+                ErrorCodes.INVALID_INPUT,
+                'RECONNECT jobs cannot complete a login; send the 2FA code with a LOGIN job.',
+                400
+              );
+            }
+
+            // Graph API profiles are checked with their token instead
+            const sessionPayload = client.usesSession ? await this.supabaseService.getDecryptedSession(job.profile_id) : null;
+            if (client.usesSession && !sessionPayload) {
+              throw new AppError(ErrorCodes.SESSION_EXPIRED, 'No valid session found for reconnection.', 401);
+            }
+            const isValid = await client.checkSession(sessionPayload ?? undefined);
+            if (!isValid) {
+              await this.supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
+              throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Session check failed. Session is expired.', 401);
+            }
+            logger.info('RECONNECT job completed successfully. Session is still valid.');
+          }
+          break;
+
+        case 'SYNC_PROFILE':
+          {
+            const profile = await this.supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
+            if (profile.error || !profile.data) {
+              throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
+            }
+
+            await this.restoreSession(client, job, 'sync profile');
+
+            const profileData = await client.scrapeProfile(profile.data.ig_username);
+            if (client.scrapeAccountInsights) {
+              const insights = await client.scrapeAccountInsights(profile.data.ig_username);
+              await this.supabaseService.saveAccountInsights(job.profile_id, job.user_id, profileData.followers_count, insights);
+            }
+          
+            logger.info(`[Worker] Scraped profile data:`, {
+              username: profileData.username,
+              followers: profileData.followers_count,
+              following: profileData.following_count,
+              posts: profileData.media_count,
+            });
+          
+            // Update profile with scraped data
+            const { error: updateError } = await this.supabaseService.supabase
+              .from('profiles')
+              .update({
+                ig_user_id: profileData.username, // Use username as fallback for ID
+                followers_count: profileData.followers_count,
+                following_count: profileData.following_count,
+                bio: profileData.bio,
+                profile_pic_url: profileData.profile_pic_url,
+                is_verified: profileData.is_verified,
+                last_sync_at: new Date().toISOString(),
+              })
+              .eq('id', job.profile_id);
+
+            if (updateError) {
+              logger.error('[Worker] Failed to update profile data', updateError);
+              throw new AppError(ErrorCodes.DATABASE_ERROR, 'Failed to save profile data', 500);
+            }
+
+            processedItems = 1;
+            logger.info(`[Worker] ✅ Profile ${profile.data.ig_username} synced: ${profileData.followers_count} followers, ${profileData.following_count} following, ${profileData.media_count} posts`);
+          }
+          break;
+
+        case 'SYNC_FOLLOWERS':
+          {
+            const profile = await this.supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
+            if (profile.error || !profile.data) {
+              throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
+            }
+
+            if (!client.supportsFollowerLists) {
+              // Graph API profiles only get follower counts, which SYNC_PROFILE already saves
+              logger.info(`Follower lists are not available for profile ${job.profile_id}; skipping.`);
+              break;
+            }
+
+            await this.restoreSession(client, job, 'sync followers');
+
+            // Resumes from the pages saved by a previous attempt of this job, if any
+            const checkpoint = new FollowerScrapeCheckpoint(this.supabaseService, job, this.options.workerId);
+            const { followers, following } = await client.scrapeFollowers(
+              profile.data.ig_username,
+              -1,
+              reportProgress,
+              checkpoint,
+              cancellation.signal
+            );
+            await reportProgress({
+              phase: 'saving',
+              processed_items: 0,
+              total_items: followers.length + following.length,
+              cursor: null,
+            });
+            processedItems = await this.supabaseService.syncFollowers(job.profile_id, job.user_id, followers, following);
+            await checkpoint.clear();
+          }
+          break;
+
+        case 'SYNC_MEDIA':
+          {
+            const profile = await this.supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
+            if (profile.error || !profile.data) {
+              throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
+            }
+
+            await this.restoreSession(client, job, 'sync media');
+
+            const mediaData = await client.scrapeMedia(profile.data.ig_username, 50, reportProgress, cancellation.signal);
+            await reportProgress({ phase: 'saving', processed_items: 0, total_items: mediaData.length, cursor: null });
+            processedItems = await this.supabaseService.syncMedia(job.profile_id, job.user_id, mediaData);
+          }
+          break;
+
+        case 'SYNC_INTERACTIONS':
+          {
+            await this.restoreSession(client, job, 'sync likers and commenters');
+
+            const postIds = await this.supabaseService.getRecentPostIds(job.profile_id, this.options.interactionPosts);
+            const interactions = await client.scrapeMediaInteractions(postIds, reportProgress, cancellation.signal);
+            await reportProgress({ phase: 'saving', processed_items: 0, total_items: interactions.length, cursor: null });
+            processedItems = await this.supabaseService.syncMediaInteractions(job.profile_id, job.user_id, interactions);
+            await this.supabaseService.syncComments(job.profile_id, job.user_id, interactions);
+          }
+          break;
+
+        case 'SYNC_STORIES':
+          {
+            const profile = await this.supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
+            if (profile.error || !profile.data) {
+              throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
+            }
+
+            await this.restoreSession(client, job, 'sync stories');
+
+            const stories = await client.scrapeStories(profile.data.ig_username, reportProgress, cancellation.signal);
+            await reportProgress({ phase: 'saving', processed_items: 0, total_items: stories.length, cursor: null });
+            processedItems = await this.supabaseService.syncStories(job.profile_id, job.user_id, stories);
+          }
+          break;
+
+        case 'DERIVE_METRICS':
+          {
+            await this.supabaseService.deriveMetrics(job.profile_id, job.user_id);
+            processedItems = 1; // Represents one profile's metrics derived
+          }
+          break;
+
+        default:
+          throw new AppError(ErrorCodes.INVALID_INPUT, `Unknown job type: ${job.job_type}`, 400);
+      }
+    } catch (error) {
+      jobStatus = 'FAILED';
+      if (error instanceof AppError) {
+        errorMessage = `${error.code}: ${error.message}`;
+        retryable = RETRYABLE_ERROR_CODES.includes(error.code);
+        if (error.code === ErrorCodes.JOB_DEFERRED) {
+          const retryAfterMs = typeof error.details?.retryAfterMs === 'number' ? error.details.retryAfterMs : 60000;
+          deferUntil = new Date(Date.now() + retryAfterMs);
+        } else if (error.code === ErrorCodes.JOB_CANCELLED) {
+          jobStatus = 'CANCELLED';
+        } else if (error.code === ErrorCodes.IG_2FA_REQUIRED) {
+          logger.info(`[Worker] Updating profile ${job.profile_id} to NEEDS_2FA state`);
+          await this.supabaseService.updateProfileState(job.profile_id, 'NEEDS_2FA');
+          logger.info(`[Worker] Profile ${job.profile_id} updated to NEEDS_2FA - browser will REMAIN OPEN`);
+          // CRITICAL: Do NOT close browser when 2FA is pending - user needs to complete it manually
+        } else if (error.code === ErrorCodes.SESSION_EXPIRED) {
+          await this.supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
+          if (client && !client.usesSession) {
+            await this.supabaseService.expireGraphToken(job.profile_id);
+          }
+        }
+      } else {
+        // Unexpected errors are usually network or browser failures, which are worth retrying
+        errorMessage = `Internal Error: ${error instanceof Error ? error.message : String(error)}`;
+        retryable = true;
+      }
+      if (jobStatus === 'CANCELLED') {
+        logger.info(`Job ${job.id} cancelled by user`);
+      } else if (deferUntil) {
+        logger.info(`Job ${job.id} deferred: ${errorMessage}`);
+      } else {
+        logger.error(`Job ${job.id} FAILED: ${errorMessage}`, error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+
+      // Only close the browser if it's NOT a LOGIN job that needs 2FA
+      // For 2FA cases, the browser must stay open for manual completion
+      const is2FACase = errorMessage?.includes('IG_2FA_REQUIRED');
+    
+      if (client && !is2FACase) {
+        logger.info('[Worker] Closing browser (job completed or non-2FA error)');
+        await client.close();
+      } else if (is2FACase) {
+        logger.info('[Worker] ⚠️  Browser left OPEN for manual 2FA completion');
+        logger.info('[Worker] ⚠️  Complete the 2FA in the browser, then submit code via frontend');
+      }
+    
+      const retryPolicy = JOB_RETRY_POLICIES[job.job_type];
+      if ((deferUntil || (jobStatus === 'FAILED' && retryable)) && await this.supabaseService.isCancelRequested(job.id).catch(() => false)) {
+        // Cancelled while failing: don't schedule another attempt
+        jobStatus = 'CANCELLED';
+        retryable = false;
+        deferUntil = null;
+      }
+      if (deferUntil) {
+        // Not a failure: the attempt is given back and the job resumes (from its checkpoint) later
+        await this.supabaseService.deferJob(job, this.options.workerId, deferUntil, errorMessage);
+        logger.info(`Job ${job.id} will run again at ${deferUntil.toISOString()}`);
+      } else if (jobStatus === 'FAILED' && retryable && job.attempts < retryPolicy.maxAttempts) {
+        const runAt = new Date(Date.now() + getBackoffDelayMs(job.attempts - 1, retryPolicy));
+        await this.supabaseService.scheduleJobRetry(job.id, this.options.workerId, runAt, errorMessage);
+        logger.info(`Job ${job.id} will be retried at ${runAt.toISOString()} (attempt ${job.attempts} of ${retryPolicy.maxAttempts})`);
+      } else {
+        if (jobStatus === 'FAILED' && retryable) {
+          // Transient failure, but the job has used all of its attempts
+          jobStatus = 'DEAD';
+        }
+        if (job.job_type === 'SYNC_FOLLOWERS' && jobStatus !== 'COMPLETED') {
+          // The scrape won't be resumed, so its staged pages and cursor are not needed anymore
+          await new FollowerScrapeCheckpoint(this.supabaseService, job, this.options.workerId).clear().catch((clearError) => {
+            logger.warn(`Failed to clear the follower checkpoint of job ${job.id}`, clearError);
+          });
+        }
+        await this.supabaseService.updateJobStatus(job.id, this.options.workerId, jobStatus, processedItems, errorMessage);
+        logger.info(`Job ${job.id} finished with status: ${jobStatus}`);
+      }
+    }
+  }
+
+  /**
+   * Reads the metadata of a LOGIN job, rejecting values of the wrong type.
+   */
+  private getLoginMetadata(job: SyncJob): LoginJobMetadata {
+    const metadata = job.metadata || {};
+    const read = (key: 'username' | 'password' | 'two_fa_code' | 'oauth_code' | 'redirect_uri'): string | undefined => {
+      const value = metadata[key];
+      if (value === undefined || value === null || value === '') return undefined;
+      if (typeof value !== 'string') {
+        throw new AppError(ErrorCodes.INVALID_INPUT, `Invalid ${key} in job metadata.`, 400);
+      }
+      return value;
+    };
+
+    return {
+      username: read('username'),
+      password: read('password'),
+      two_fa_code: read('two_fa_code'),
+      oauth_code: read('oauth_code'),
+      redirect_uri: read('redirect_uri'),
+    };
+  }
+
+  /**
+   * Completes the OAuth connection of a Business/Creator profile: exchanges the code for a
+   * long-lived token, stores it and switches the profile to the GRAPH_API connector.
+   */
+  private async connectGraphApi(job: SyncJob, code: string, redirectUri: string): Promise<void> {
+    if (!this.options.igAppId || !this.options.igAppSecret) {
+      throw new AppError(
+        ErrorCodes.INVALID_INPUT,
+        'The Instagram Graph API connector is not configured (WORKER_IG_APP_ID, WORKER_IG_APP_SECRET).',
+        400
+      );
+    }
+
+    const token = await InstagramGraphClient.exchangeCode(code, redirectUri, this.options.igAppId, this.options.igAppSecret);
+    const account = await new InstagramGraphClient(token).getAccount();
+    if (account.account_type === 'PERSONAL') {
+      throw new AppError(
+        ErrorCodes.INVALID_INPUT,
+        'Only Business and Creator accounts can connect through the Instagram Graph API.',
+        400
+      );
+    }
+
+    await this.supabaseService.saveGraphToken(job.profile_id, job.user_id, token);
+    await this.supabaseService.updateProfileConnector(
+      job.profile_id,
+      'GRAPH_API',
+      account.account_type === 'MEDIA_CREATOR' ? 'CREATOR' : 'BUSINESS',
+      account.username
+    );
+    await this.supabaseService.updateProfileState(job.profile_id, 'CONNECTED');
+    logger.info(`Profile ${job.profile_id} connected to the Graph API as @${account.username}`);
+  }
+
+  /**
+   * Restores the profile's browser session on data sources that need one.
+   * @param action What the session is needed for, used in the error message.
+   */
+  private async restoreSession(client: InstagramDataSource, job: SyncJob, action: string): Promise<void> {
+    if (!client.usesSession) return;
+
+    const sessionPayload = await this.supabaseService.getDecryptedSession(job.profile_id);
+    if (!sessionPayload) {
+      await this.supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
+      throw new AppError(ErrorCodes.SESSION_EXPIRED, `Session expired. Cannot ${action}.`, 401);
+    }
+    await client.initBrowser(sessionPayload, false); // headless mode for scraping
+  }
+}
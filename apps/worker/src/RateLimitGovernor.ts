@@ -0,0 +1,68 @@
+import {
+  SyncJob,
+  AppError,
+  ErrorCodes,
+  IgEndpointClass,
+  IG_RATE_LIMIT_POLICIES,
+  createLogger,
+} from '@ig-analytics/shared';
+import { SupabaseService } from './SupabaseService';
+import { RequestGovernor } from './InstagramClient';
+
+const logger = createLogger('RateLimitGovernor');
+
+// Waits up to this long for a token inside the job; longer waits reschedule the job
+const MAX_INLINE_WAIT_MS = parseInt(process.env.WORKER_RATE_LIMIT_MAX_WAIT_SECONDS || '60', 10) * 1000;
+
+/**
+ * Request budget of the Instagram account a job runs for. Tokens come from the
+ * per-account buckets in the database, so all worker processes share one budget.
+ * Short waits are slept through; when the budget is spent for longer, the job is
+ * handed back to the queue with JOB_DEFERRED instead of running into IG_RATE_LIMITED.
+ */
+export class RateLimitGovernor implements RequestGovernor {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly job: SyncJob
+  ) {}
+
+  public async acquire(endpointClass: IgEndpointClass): Promise<void> {
+    const policy = IG_RATE_LIMIT_POLICIES[endpointClass];
+
+    for (;;) {
+      const waitMs = await this.supabaseService.acquireIgRequestToken(this.job.profile_id, endpointClass, policy);
+      if (waitMs === 0) return;
+
+      if (waitMs > MAX_INLINE_WAIT_MS) {
+        throw new AppError(
+          ErrorCodes.JOB_DEFERRED,
+          `${endpointClass} request budget of the account is spent; retrying in ${Math.ceil(waitMs / 60000)} min`,
+          429,
+          { retryAfterMs: waitMs }
+        );
+      }
+
+      logger.debug(`Waiting ${waitMs}ms for a ${endpointClass} request token (job ${this.job.id})`);
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  public async recordRateLimit(endpointClass: IgEndpointClass, statusCode: number | null, detail: string | null): Promise<void> {
+    const policy = IG_RATE_LIMIT_POLICIES[endpointClass];
+
+    try {
+      const blockedUntil = await this.supabaseService.recordIgRateLimit(
+        this.job.profile_id,
+        endpointClass,
+        policy,
+        statusCode,
+        detail,
+        this.job.id
+      );
+      logger.warn(`${endpointClass} requests of profile ${this.job.profile_id} blocked until ${blockedUntil.toISOString()}`);
+    } catch (error) {
+      // The job fails with IG_RATE_LIMITED either way; losing the record only loses the cooldown
+      logger.error('Failed to record rate limit:', error);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { CommentSentiment, CommentTopic } from '@ig-analytics/shared';
+import { normalizeName } from './DemographicsEstimator';
+import {
+  ENGLISH_STOPWORDS,
+  INTENSIFIERS,
+  LEXICON_LANGUAGES,
+  NEGATIONS,
+  PORTUGUESE_STOPWORDS,
+  SENTIMENT_LEXICON,
+  TOPIC_KEYWORDS,
+} from './sentimentLexicon';
+
+// Bump when the lexicon or the scoring changes, so comments classified differently can be told apart
+export const SENTIMENT_METHOD = 'LEXICON_PT_EN_V1';
+
+export interface CommentAnalysis {
+  language: 'pt' | 'en' | null;
+  sentiment: CommentSentiment;
+  /** -1 (most negative) to 1 (most positive). */
+  score: number;
+  topics: CommentTopic[];
+  keywords: string[];
+}
+
+// Scores at or past these are positive or negative; in between is neutral
+const POSITIVE_MIN_SCORE = 0.2;
+const NEGATIVE_MAX_SCORE = -0.2;
+
+// Words after a negation whose polarity is flipped, unless the clause ends first
+const NEGATION_WINDOW = 3;
+const CLAUSE_BREAKS = /^[.,;:!?]$/;
+// A negated word is weaker than its opposite ("not bad" is not "good")
+const NEGATED_WEIGHT = 0.75;
+// Each exclamation mark (up to three) strengthens the comment by this share
+const EXCLAMATION_BOOST = 0.1;
+// Normalises the summed polarity into (-1, 1); higher means more words are needed to approach either end
+const NORMALIZATION_ALPHA = 15;
+
+const MIN_KEYWORD_LENGTH = 3;
+const MAX_KEYWORDS = 8;
+
+/**
+ * Classifies comments offline with a Portuguese and English lexicon: word and emoji
+ * polarities are summed, negations flip the next few words and intensifiers scale the
+ * next one. Also tells the comment's language and which topics (questions, purchase
+ * intent, ...) it touches, and keeps its content words as keywords.
+ */
+export class SentimentClassifier {
+  public analyze(text: string): CommentAnalysis {
+    const tokens = this.tokenize(text);
+    const words = tokens.filter((token) => !CLAUSE_BREAKS.test(token));
+
+    let sum = 0;
+    let negatedWords = 0;
+    let multiplier = 1;
+    for (const token of tokens) {
+      if (CLAUSE_BREAKS.test(token)) {
+        negatedWords = 0;
+        multiplier = 1;
+        continue;
+      }
+      if (NEGATIONS.has(token)) {
+        negatedWords = NEGATION_WINDOW;
+        continue;
+      }
+      const intensity = INTENSIFIERS.get(token);
+      if (intensity !== undefined) {
+        multiplier = intensity;
+        continue;
+      }
+
+      const polarity = SENTIMENT_LEXICON.get(token) ?? 0;
+      if (polarity !== 0) {
+        sum += (negatedWords > 0 ? -polarity * NEGATED_WEIGHT : polarity) * multiplier;
+      }
+      multiplier = 1;
+      if (negatedWords > 0) negatedWords--;
+    }
+
+    const exclamations = Math.min(3, (text.match(/!/g) || []).length);
+    sum *= 1 + exclamations * EXCLAMATION_BOOST;
+
+    const score = Math.round((sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)) * 1000) / 1000;
+    const sentiment: CommentSentiment = score >= POSITIVE_MIN_SCORE
+      ? 'POSITIVE'
+      : score <= NEGATIVE_MAX_SCORE ? 'NEGATIVE' : 'NEUTRAL';
+
+    return {
+      language: this.detectLanguage(words),
+      sentiment,
+      score,
+      topics: this.detectTopics(text, words),
+      keywords: this.extractKeywords(words),
+    };
+  }
+
+  /**
+   * Lowercase words without accents and apostrophes, emoji and clause punctuation, in
+   * order. Mentions and links are dropped, a hashtag counts as its word, and stretched
+   * lexicon words ("lindooo", "amazinggg") are squeezed back.
+   */
+  private tokenize(text: string): string[] {
+    const cleaned = normalizeName(text)
+      .replace(/https?:\/\/\S+/g, ' ')
+      .replace(/@[\w.]+/g, ' ')
+      .replace(/['\u2019\ufe0f]/g, '');
+    const tokens = cleaned.match(/\p{Extended_Pictographic}|[a-z0-9]+|[.,;:!?]/gu) || [];
+    return tokens.map((token) => {
+      if (SENTIMENT_LEXICON.has(token) || !/(.)\1{2}/.test(token)) return token;
+      return [token.replace(/(.)\1{2,}/g, '$1'), token.replace(/(.)\1{2,}/g, '$1$1')]
+        .find((squeezed) => SENTIMENT_LEXICON.has(squeezed)) ?? token;
+    });
+  }
+
+  private detectLanguage(tokens: string[]): 'pt' | 'en' | null {
+    let portuguese = 0;
+    let english = 0;
+    for (const token of tokens) {
+      if (PORTUGUESE_STOPWORDS.has(token)) portuguese++;
+      if (ENGLISH_STOPWORDS.has(token)) english++;
+      const lexiconLanguage = LEXICON_LANGUAGES.get(token);
+      if (lexiconLanguage === 'pt') portuguese++;
+      if (lexiconLanguage === 'en') english++;
+    }
+    if (portuguese === english) return null;
+    return portuguese > english ? 'pt' : 'en';
+  }
+
+  private detectTopics(text: string, tokens: string[]): CommentTopic[] {
+    const words = new Set(tokens);
+    return (Object.keys(TOPIC_KEYWORDS) as CommentTopic[]).filter((topic) =>
+      (topic === 'QUESTION' && text.includes('?')) || TOPIC_KEYWORDS[topic].some((keyword) => words.has(keyword))
+    );
+  }
+
+  private extractKeywords(tokens: string[]): string[] {
+    const keywords = tokens.filter((token) =>
+      /^[a-z]+$/.test(token) &&
+      token.length >= MIN_KEYWORD_LENGTH &&
+      !PORTUGUESE_STOPWORDS.has(token) &&
+      !ENGLISH_STOPWORDS.has(token) &&
+      !NEGATIONS.has(token) &&
+      !INTENSIFIERS.has(token)
+    );
+    return Array.from(new Set(keywords)).slice(0, MAX_KEYWORDS);
+  }
+}
@@ -1,34 +1,46 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseClient } from '@supabase/supabase-js';
 import {
+  FollowerQualityFlag,
   SyncJob,
+  SyncPipeline,
+  JobProgress,
+  IgEndpointClass,
+  IgConnector,
+  RateLimitPolicy,
+  JobProgressUpdate,
   Profile,
   IGSession,
   AppError,
   ErrorCodes,
   DecryptedSessionPayload,
   EncryptedSessionPayload,
+  JOB_RETRY_POLICIES,
   createLogger,
+  getBackoffDelayMs,
 } from '@ig-analytics/shared';
 import { EncryptionService } from './EncryptionService';
+import { DemographicsEstimator, FollowerIdentity } from './DemographicsEstimator';
+import { FOLLOWER_QUALITY_METHOD, FollowerQualityScorer } from './FollowerQualityScorer';
+import { SENTIMENT_METHOD, SentimentClassifier } from './SentimentClassifier';
+import type { AccountInsights, ScrapedMedia, ScrapedMediaInteractions, ScrapedStory, ScrapedUser } from './InstagramDataSource';
+import type { GraphToken } from './InstagramGraphClient';
 
 const logger = createLogger('SupabaseService');
 
+// Private storage bucket holding story assets, under <user_id>/<profile_id>/
+const STORY_ASSETS_BUCKET = 'stories';
+
+// Intl weekday names in hourly_engagement_metrics.day_of_week order (0 = Monday)
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
 /**
  * Service class to handle all Supabase interactions for the worker.
- * Uses the Service Role Key for elevated permissions.
+ * The client must use the Service Role Key for elevated permissions.
  */
 export class SupabaseService {
-  public supabase: SupabaseClient;
   private encryptionService: EncryptionService;
 
-  constructor(supabaseUrl: string, serviceRoleKey: string, encryptionKey: string) {
-    this.supabase = createClient(supabaseUrl, serviceRoleKey, {
-      auth: {
-        persistSession: false,
-        autoRefreshToken: false,
-        detectSessionInUrl: false,
-      },
-    });
+  constructor(public supabase: SupabaseClient, encryptionKey: string) {
     this.encryptionService = new EncryptionService(encryptionKey);
   }
 
@@ -37,73 +49,218 @@ export class SupabaseService {
   // ============================================
 
   /**
-   * Fetches the next pending job for the worker to process.
-   * Uses a transaction-like approach to mark the job as RUNNING immediately.
+   * Claims the next pending job for this worker and marks it RUNNING.
+   * Delegates to the `claim_next_sync_job` PostgreSQL function, which selects and
+   * updates the row in one statement with `FOR UPDATE SKIP LOCKED`, so any number
+   * of worker processes can poll the queue without claiming the same job twice.
+   * @param workerId Identifier recorded on the job as its owner.
+   * @param leaseSeconds How long the claim is valid before the job counts as abandoned.
    */
-  public async getNextPendingJob(): Promise<SyncJob | null> {
-    // NOTE: In a real-world scenario, this should be done via a PostgreSQL function
-    // with a `FOR UPDATE SKIP LOCKED` clause to ensure atomicity and prevent race conditions.
-    // For this MVP, we'll use a simple select/update, which is prone to race conditions
-    // but demonstrates the flow.
+  public async claimNextJob(workerId: string, leaseSeconds: number): Promise<SyncJob | null> {
+    const { data, error } = await this.supabase.rpc('claim_next_sync_job', {
+      p_worker_id: workerId,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to claim pending job: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    const jobs = (data || []) as SyncJob[];
+    return jobs[0] || null;
+  }
+
+  /**
+   * Extends the lease of a job this worker is running (heartbeat).
+   * @returns false if the job is no longer owned by this worker (e.g. it was reaped).
+   */
+  public async renewJobLease(jobId: string, workerId: string, leaseSeconds: number): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('renew_sync_job_lease', {
+      p_job_id: jobId,
+      p_worker_id: workerId,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to renew job lease: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Publishes the progress of a job this worker is running. The web client receives
+   * the change through Supabase Realtime.
+   */
+  public async updateJobProgress(jobId: string, workerId: string, update: JobProgressUpdate): Promise<void> {
+    const progress: JobProgress = { ...update, updated_at: new Date().toISOString() };
+    const { error } = await this.supabase
+      .from('sync_jobs')
+      .update({ progress })
+      .eq('id', jobId)
+      .eq('worker_id', workerId);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to update job progress: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
 
-    const { data: job, error: selectError } = await this.supabase
+  /**
+   * Checks whether the user asked to cancel a job (see the `cancel_sync_job` function).
+   */
+  public async isCancelRequested(jobId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
       .from('sync_jobs')
-      .select('*')
-      .eq('status', 'PENDING')
-      .order('created_at', { ascending: true })
-      .limit(1)
+      .select('cancel_requested_at')
+      .eq('id', jobId)
       .single();
 
-    if (selectError && selectError.code !== 'PGRST116') {
-      // PGRST116 is "No rows found"
+    if (error) {
       throw new AppError(
         ErrorCodes.DATABASE_ERROR,
-        `Failed to select pending job: ${selectError.message}`,
+        `Failed to check job cancellation: ${error.message}`,
         500,
-        { details: selectError }
+        { details: error }
       );
     }
 
-    if (!job) {
-      return null;
+    return !!data?.cancel_requested_at;
+  }
+
+  /**
+   * Returns RUNNING jobs with an expired lease to PENDING after their retry delay, or marks
+   * them DEAD once their type's retry policy is used up (CANCELLED if the user cancelled them).
+   * @returns The number of jobs recovered.
+   */
+  public async reapExpiredJobs(): Promise<number> {
+    // The delays are drawn here, so reaped jobs back off like the failed jobs JobProcessor retries
+    const retryPolicies = Object.fromEntries(
+      Object.entries(JOB_RETRY_POLICIES).map(([jobType, policy]) => [
+        jobType,
+        {
+          max_attempts: policy.maxAttempts,
+          retry_delays_ms: Array.from({ length: Math.max(policy.maxAttempts - 1, 0) }, (_, attempt) =>
+            Math.round(getBackoffDelayMs(attempt, policy))
+          ),
+        },
+      ])
+    );
+
+    const { data, error } = await this.supabase.rpc('reap_expired_sync_jobs', {
+      p_retry_policies: retryPolicies,
+    });
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to reap expired jobs: ${error.message}`,
+        500,
+        { details: error }
+      );
     }
 
-    // Mark job as running
-    const { error: updateError } = await this.supabase
+    return (data as number) || 0;
+  }
+
+  /**
+   * Returns a failed job to PENDING so it is claimed again once `runAt` has passed.
+   * Only applies while the job is still owned by `workerId`.
+   */
+  public async scheduleJobRetry(
+    jobId: string,
+    workerId: string,
+    runAt: Date,
+    errorMessage: string | null
+  ): Promise<void> {
+    const { error } = await this.supabase
       .from('sync_jobs')
-      .update({ status: 'RUNNING', started_at: new Date().toISOString() })
-      .eq('id', job.id);
+      .update({
+        status: 'PENDING',
+        next_run_at: runAt.toISOString(),
+        error_message: errorMessage,
+        worker_id: null,
+        lease_expires_at: null,
+      })
+      .eq('id', jobId)
+      .eq('worker_id', workerId);
 
-    if (updateError) {
+    if (error) {
       throw new AppError(
         ErrorCodes.DATABASE_ERROR,
-        `Failed to mark job as RUNNING: ${updateError.message}`,
+        `Failed to schedule job retry: ${error.message}`,
         500,
-        { details: updateError }
+        { details: error }
       );
     }
+  }
+
+  /**
+   * Puts a job the worker cannot run yet back to PENDING until `runAt`, e.g. while the
+   * account's request budget is spent. Unlike a retry, the attempt is given back.
+   */
+  public async deferJob(job: SyncJob, workerId: string, runAt: Date, reason: string | null): Promise<void> {
+    const { error } = await this.supabase
+      .from('sync_jobs')
+      .update({
+        status: 'PENDING',
+        next_run_at: runAt.toISOString(),
+        attempts: Math.max(0, job.attempts - 1),
+        error_message: reason,
+        worker_id: null,
+        lease_expires_at: null,
+      })
+      .eq('id', job.id)
+      .eq('worker_id', workerId);
 
-    return job as SyncJob;
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to defer job: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
   }
 
   /**
-   * Updates a job's status to COMPLETED or FAILED.
+   * Updates a job's status to COMPLETED, FAILED, DEAD or CANCELLED.
+   * Only applies while the job is still owned by `workerId`, so a worker whose lease
+   * was reaped cannot overwrite the outcome of the job's next attempt.
    */
   public async updateJobStatus(
     jobId: string,
-    status: 'COMPLETED' | 'FAILED',
+    workerId: string,
+    status: 'COMPLETED' | 'FAILED' | 'DEAD' | 'CANCELLED',
     processedItems: number = 0,
     errorMessage: string | null = null
   ): Promise<void> {
-    const { error } = await this.supabase
+    const { data, error } = await this.supabase
       .from('sync_jobs')
       .update({
         status,
         finished_at: new Date().toISOString(),
         processed_items: processedItems,
         error_message: errorMessage,
+        lease_expires_at: null,
       })
-      .eq('id', jobId);
+      .eq('id', jobId)
+      .eq('worker_id', workerId)
+      .select('id');
 
     if (error) {
       throw new AppError(
@@ -113,6 +270,127 @@ export class SupabaseService {
         { details: error }
       );
     }
+
+    if (!data || data.length === 0) {
+      logger.warn(`[SupabaseService] Job ${jobId} is no longer owned by ${workerId}; status ${status} was not recorded`);
+    }
+  }
+
+  /**
+   * Enqueues a full sync of a profile as a pipeline of dependent jobs
+   * (SYNC_PROFILE, then SYNC_FOLLOWERS, SYNC_MEDIA, SYNC_INTERACTIONS and SYNC_STORIES, then DERIVE_METRICS).
+   * @returns The id of the new pipeline, or of the one already queued for the profile.
+   */
+  public async enqueueSyncPipeline(
+    profileId: string,
+    userId: string,
+    triggeredBy: SyncPipeline['triggered_by']
+  ): Promise<string> {
+    const { data, error } = await this.supabase.rpc('enqueue_sync_pipeline', {
+      p_profile_id: profileId,
+      p_user_id: userId,
+      p_triggered_by: triggeredBy,
+    });
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to enqueue sync pipeline: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return data as string;
+  }
+
+  /**
+   * Enqueues a pipeline for every CONNECTED profile with due sync schedules and
+   * advances those schedules.
+   * @returns The number of profiles a pipeline was enqueued for.
+   */
+  public async enqueueDueSchedules(): Promise<number> {
+    const { data, error } = await this.supabase.rpc('enqueue_due_sync_schedules');
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to enqueue scheduled syncs: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return (data as number) || 0;
+  }
+
+  // ============================================
+  // Instagram Rate Limits
+  // ============================================
+
+  /**
+   * Takes one request token from the account's bucket for `endpointClass`.
+   * Buckets live in the database (`acquire_ig_request_token`), so every worker process
+   * draws from the same budget.
+   * @returns 0 when the request may be sent, otherwise the milliseconds to wait.
+   */
+  public async acquireIgRequestToken(
+    profileId: string,
+    endpointClass: IgEndpointClass,
+    policy: RateLimitPolicy
+  ): Promise<number> {
+    const { data, error } = await this.supabase.rpc('acquire_ig_request_token', {
+      p_profile_id: profileId,
+      p_endpoint_class: endpointClass,
+      p_burst: policy.burst,
+      p_per_hour: policy.perHour,
+      p_per_day: policy.perDay,
+    });
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to acquire Instagram request token: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return Math.ceil(((data as number) || 0) * 1000);
+  }
+
+  /**
+   * Records that Instagram answered 429 or "please wait" and blocks the endpoint class
+   * of the account for the policy's cooldown.
+   * @returns When the block ends.
+   */
+  public async recordIgRateLimit(
+    profileId: string,
+    endpointClass: IgEndpointClass,
+    policy: RateLimitPolicy,
+    statusCode: number | null,
+    detail: string | null,
+    jobId: string | null
+  ): Promise<Date> {
+    const { data, error } = await this.supabase.rpc('record_ig_rate_limit', {
+      p_profile_id: profileId,
+      p_endpoint_class: endpointClass,
+      p_cooldown_seconds: policy.cooldownSeconds,
+      p_status_code: statusCode,
+      p_detail: detail,
+      p_job_id: jobId,
+    });
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to record Instagram rate limit: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return new Date(data as string);
   }
 
   // ============================================
@@ -205,6 +483,226 @@ export class SupabaseService {
     logger.info(`[SupabaseService] Profile ${profileId} successfully updated to ${state}`);
   }
 
+  /**
+   * Returns which connector the worker should read the profile's data with.
+   */
+  public async getProfileConnector(profileId: string): Promise<IgConnector> {
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('connector')
+      .eq('id', profileId)
+      .single();
+
+    if (error || !data) {
+      throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404, { details: error });
+    }
+
+    return data.connector as IgConnector;
+  }
+
+  /**
+   * Switches a profile to another connector, e.g. after it connected through OAuth.
+   */
+  public async updateProfileConnector(
+    profileId: string,
+    connector: IgConnector,
+    accountType: Profile['account_type'],
+    igUsername: string
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('profiles')
+      .update({ connector, account_type: accountType, ig_username: igUsername })
+      .eq('id', profileId);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to update profile connector: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
+
+  // ============================================
+  // Graph API Tokens
+  // ============================================
+
+  /**
+   * Fetches and decrypts the Graph API token of a profile.
+   */
+  public async getGraphToken(profileId: string): Promise<GraphToken | null> {
+    const { data, error } = await this.supabase
+      .from('ig_graph_tokens')
+      .select('access_token_encrypted')
+      .eq('profile_id', profileId)
+      .eq('state', 'VALID')
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to fetch Graph API token: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const encryptedPayload = JSON.parse(data.access_token_encrypted) as EncryptedSessionPayload;
+    return this.encryptionService.decrypt<GraphToken>(encryptedPayload);
+  }
+
+  /**
+   * Encrypts and saves the Graph API token of a profile.
+   */
+  public async saveGraphToken(profileId: string, userId: string, token: GraphToken): Promise<void> {
+    const encryptedPayload = this.encryptionService.encrypt(token);
+    const { error } = await this.supabase
+      .from('ig_graph_tokens')
+      .upsert(
+        {
+          profile_id: profileId,
+          user_id: userId,
+          ig_account_id: token.user_id,
+          access_token_encrypted: JSON.stringify(encryptedPayload),
+          token_expires_at: token.expires_at ? new Date(token.expires_at).toISOString() : null,
+          state: 'VALID',
+        },
+        { onConflict: 'profile_id' }
+      );
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to save Graph API token: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
+
+  /**
+   * Marks a profile's Graph API token as no longer usable (revoked or expired).
+   */
+  public async expireGraphToken(profileId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('ig_graph_tokens')
+      .update({ state: 'EXPIRED' })
+      .eq('profile_id', profileId);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to expire Graph API token: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
+
+  // ============================================
+  // Follower Scrape Checkpoints
+  // ============================================
+
+  /**
+   * Replaces the metadata of a job this worker is running.
+   */
+  public async updateJobMetadata(jobId: string, workerId: string, metadata: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('sync_jobs')
+      .update({ metadata })
+      .eq('id', jobId)
+      .eq('worker_id', workerId);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to update job metadata: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
+
+  /**
+   * Saves a page of scraped users for a SYNC_FOLLOWERS job.
+   * Users already staged (a page fetched again after a crash) are ignored.
+   */
+  public async stageFollowers(
+    jobId: string,
+    profileId: string,
+    listType: 'followers' | 'following',
+    users: ScrapedUser[]
+  ): Promise<void> {
+    if (users.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('followers_staging')
+      .upsert(
+        users.map(user => ({
+          job_id: jobId,
+          profile_id: profileId,
+          list_type: listType,
+          ig_id: user.ig_id,
+          username: user.username,
+          full_name: user.full_name,
+          is_private: user.is_private,
+          is_verified: user.is_verified,
+          profile_pic_url: user.profile_pic_url,
+          following_count: user.following_count ?? null,
+        })),
+        { onConflict: 'job_id,list_type,ig_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to stage ${listType}: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
+
+  /**
+   * Loads all users staged for one list of a SYNC_FOLLOWERS job.
+   */
+  public async getStagedFollowers(jobId: string, listType: 'followers' | 'following'): Promise<ScrapedUser[]> {
+    return this.fetchAllPages<ScrapedUser>(
+      this.supabase
+        .from('followers_staging')
+        .select('ig_id, username, full_name, is_private, is_verified, profile_pic_url, following_count')
+        .eq('job_id', jobId)
+        .eq('list_type', listType)
+        .order('created_at', { ascending: true })
+        .order('ig_id', { ascending: true }),
+      `staged ${listType}`
+    );
+  }
+
+  /**
+   * Removes the staged users of a SYNC_FOLLOWERS job once they have been committed.
+   */
+  public async clearStagedFollowers(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('followers_staging')
+      .delete()
+      .eq('job_id', jobId);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to clear staged followers: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+  }
+
   // ============================================
   // Data Synchronization
   // ============================================
@@ -222,6 +720,7 @@ export class SupabaseService {
       is_private: boolean;
       is_verified: boolean;
       profile_pic_url: string | null;
+      following_count?: number | null;
     }>,
     followingData: Array<{
       ig_id: string;
@@ -230,23 +729,30 @@ export class SupabaseService {
       is_private: boolean;
       is_verified: boolean;
       profile_pic_url: string | null;
+      following_count?: number | null;
     }>
   ): Promise<number> {
     logger.info(`[SupabaseService] Syncing ${followersData.length} followers and ${followingData.length} following for profile ${profileId}`);
 
     try {
-      // Get current followers to detect changes
-      const { data: currentFollowers, error: fetchError } = await this.supabase
-        .from('followers')
-        .select('follower_ig_id, follower_username, is_follower, is_following')
-        .eq('profile_id', profileId);
-
-      if (fetchError) {
-        logger.error(`[SupabaseService] Error fetching current followers:`, fetchError);
-      }
+      // Get current followers to detect changes. A partial list would record false
+      // NEW_FOLLOWER/UNFOLLOWED changes, so a failed read fails the sync.
+      const currentFollowers = await this.fetchAllPages<{
+        follower_ig_id: string;
+        follower_username: string | null;
+        is_follower: boolean;
+        is_following: boolean;
+      }>(
+        this.supabase
+          .from('followers')
+          .select('follower_ig_id, follower_username, is_follower, is_following')
+          .eq('profile_id', profileId)
+          .order('follower_ig_id', { ascending: true }),
+        'current followers'
+      );
 
-      const currentFollowerIds = new Set(currentFollowers?.filter(f => f.is_follower).map(f => f.follower_ig_id) || []);
-      const currentFollowingIds = new Set(currentFollowers?.filter(f => f.is_following).map(f => f.follower_ig_id) || []);
+      const currentFollowerIds = new Set(currentFollowers.filter(f => f.is_follower).map(f => f.follower_ig_id));
+      const currentFollowingIds = new Set(currentFollowers.filter(f => f.is_following).map(f => f.follower_ig_id));
       
       // Create sets for easy lookup
       const newFollowerIds = new Set(followersData.map(f => f.ig_id));
@@ -260,6 +766,7 @@ export class SupabaseService {
         is_private: boolean;
         is_verified: boolean;
         profile_pic_url: string | null;
+        following_count?: number | null;
         is_follower: boolean;
         is_following: boolean;
         is_following_back: boolean;
@@ -301,6 +808,7 @@ export class SupabaseService {
         follower_pic_url: user.profile_pic_url,
         is_verified: user.is_verified,
         is_private: user.is_private,
+        follower_following_count: user.following_count ?? null,
         is_follower: user.is_follower,
         is_following: user.is_following,
         is_following_back: user.is_following_back,
@@ -360,7 +868,7 @@ export class SupabaseService {
       });
 
       lostFollowersList.forEach(igId => {
-        const existing = currentFollowers?.find(f => f.follower_ig_id === igId);
+        const existing = currentFollowers.find(f => f.follower_ig_id === igId);
         if (existing) {
           changes.push({
             profile_id: profileId,
@@ -386,7 +894,7 @@ export class SupabaseService {
       });
 
       stoppedFollowingList.forEach(igId => {
-        const existing = currentFollowers?.find(f => f.follower_ig_id === igId);
+        const existing = currentFollowers.find(f => f.follower_ig_id === igId);
         if (existing) {
           changes.push({
             profile_id: profileId,
@@ -448,19 +956,7 @@ export class SupabaseService {
   public async syncMedia(
     profileId: string, 
     userId: string, 
-    mediaData: Array<{
-      media_id: string;
-      shortcode: string;
-      media_type: 'IMAGE' | 'VIDEO' | 'CAROUSEL';
-      caption_text: string | null;
-      hashtags: string[];
-      mentions: string[];
-      timestamp: string;
-      media_url: string | null;
-      likes_count: number;
-      comments_count: number;
-      video_views: number | null;
-    }>
+    mediaData: ScrapedMedia[]
   ): Promise<number> {
     logger.info(`[SupabaseService] Syncing ${mediaData.length} media items for profile ${profileId}`);
 
@@ -487,24 +983,69 @@ export class SupabaseService {
       // Batch upsert
       const BATCH_SIZE = 500;
       let totalInserted = 0;
+      const mediaIds = new Map<string, string>();
 
       for (let i = 0; i < mediaToUpsert.length; i += BATCH_SIZE) {
         const batch = mediaToUpsert.slice(i, i + BATCH_SIZE);
-        const { error: upsertError } = await this.supabase
+        const { data: upserted, error: upsertError } = await this.supabase
           .from('media')
           .upsert(batch, {
             onConflict: 'ig_media_id',
-          });
+          })
+          .select('id, ig_media_id');
 
         if (upsertError) {
           logger.error(`[SupabaseService] Error upserting media batch ${i}:`, upsertError);
           throw new Error(`Failed to upsert media: ${upsertError.message}`);
         }
 
+        upserted?.forEach((row) => mediaIds.set(row.ig_media_id, row.id));
         totalInserted += batch.length;
         logger.info(`[SupabaseService] Upserted batch ${i + 1}-${Math.min(i + BATCH_SIZE, mediaToUpsert.length)} of ${mediaToUpsert.length}`);
       }
 
+      // Every sync appends a media_metrics snapshot per post, building each post's time series.
+      // Engagement is relative to reach when the Graph API reports it, to followers otherwise.
+      const { data: profile } = await this.supabase
+        .from('profiles')
+        .select('followers_count')
+        .eq('id', profileId)
+        .single();
+      const followersCount = profile?.followers_count || 0;
+
+      const capturedAt = new Date().toISOString();
+      const metricsToInsert = mediaData
+        .filter((media) => mediaIds.has(media.media_id))
+        .map((media) => {
+          const insights = media.insights;
+          const interactions = media.likes_count + media.comments_count + (insights ? insights.saves + insights.shares : 0);
+          const audience = insights ? insights.reach : followersCount;
+          return {
+            media_id: mediaIds.get(media.media_id),
+            profile_id: profileId,
+            user_id: userId,
+            likes: media.likes_count,
+            comments: media.comments_count,
+            video_views: media.video_views,
+            saves: insights?.saves || 0,
+            shares: insights?.shares || 0,
+            reach: insights?.reach || 0,
+            impressions: insights?.impressions || 0,
+            engagement_rate: audience > 0 ? (interactions / audience) * 100 : 0,
+            captured_at: capturedAt,
+          };
+        });
+
+      for (let i = 0; i < metricsToInsert.length; i += BATCH_SIZE) {
+        const { error: metricsError } = await this.supabase
+          .from('media_metrics')
+          .insert(metricsToInsert.slice(i, i + BATCH_SIZE));
+        if (metricsError) {
+          throw new Error(`Failed to insert media metrics: ${metricsError.message}`);
+        }
+      }
+      logger.info(`[SupabaseService] Saved metrics snapshots of ${metricsToInsert.length} media items`);
+
       logger.info(`[SupabaseService] ✅ Successfully synced ${totalInserted} media items`);
       return totalInserted;
 
@@ -514,6 +1055,484 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Instagram media ids of the profile's newest saved posts (stories left out), newest first.
+   */
+  public async getRecentPostIds(profileId: string, limit: number): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('media')
+      .select('ig_media_id')
+      .eq('profile_id', profileId)
+      .neq('media_type', 'STORY')
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to load recent posts: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return (data || []).map((post) => post.ig_media_id as string);
+  }
+
+  /**
+   * Saves who liked and commented on each post as media_interactions, one row per account
+   * and interaction type. Accounts no longer listed (unliked, comment deleted) are removed;
+   * likes are left untouched when the source can't list likers.
+   */
+  public async syncMediaInteractions(
+    profileId: string,
+    userId: string,
+    interactions: ScrapedMediaInteractions[]
+  ): Promise<number> {
+    if (interactions.length === 0) return 0;
+
+    const postIds = await this.loadPostIds(profileId, interactions.map((item) => item.media_id), 'interactions');
+    let saved = 0;
+
+    for (const item of interactions) {
+      const mediaId = postIds.get(item.media_id);
+      if (!mediaId) continue;
+
+      const syncedAt = new Date().toISOString();
+      const commenters = new Map<string, { user: ScrapedUser; count: number; last: string }>();
+      for (const comment of item.comments) {
+        const commenter = commenters.get(comment.author.ig_id) || { user: comment.author, count: 0, last: comment.timestamp };
+        commenter.count++;
+        if (comment.timestamp > commenter.last) commenter.last = comment.timestamp;
+        commenters.set(comment.author.ig_id, commenter);
+      }
+
+      // Pages of a list can overlap; an upsert batch must not touch the same row twice
+      const likers = new Map((item.likers || []).map((liker) => [liker.ig_id, liker]));
+      const rows = [
+        ...Array.from(likers.values()).map((liker) => ({
+          user: liker,
+          interaction_type: 'LIKE',
+          interaction_count: 1,
+          last_interaction_at: null as string | null,
+        })),
+        ...Array.from(commenters.values()).map((commenter) => ({
+          user: commenter.user,
+          interaction_type: 'COMMENT',
+          interaction_count: commenter.count,
+          last_interaction_at: commenter.last as string | null,
+        })),
+      ];
+
+      // Interactions already recorded keep the first_seen_at of their first collection
+      for (let i = 0; i < rows.length; i += 1000) {
+        const { error: upsertError } = await this.supabase
+          .from('media_interactions')
+          .upsert(
+            rows.slice(i, i + 1000).map((row) => ({
+              media_id: mediaId,
+              profile_id: profileId,
+              user_id: userId,
+              account_ig_id: row.user.ig_id,
+              account_username: row.user.username,
+              account_full_name: row.user.full_name,
+              interaction_type: row.interaction_type,
+              interaction_count: row.interaction_count,
+              last_interaction_at: row.last_interaction_at,
+            })),
+            { onConflict: 'media_id,account_ig_id,interaction_type' }
+          );
+
+        if (upsertError) {
+          throw new AppError(
+            ErrorCodes.DATABASE_ERROR,
+            `Failed to save interactions of post ${item.media_id}: ${upsertError.message}`,
+            500,
+            { details: upsertError }
+          );
+        }
+      }
+
+      // Accounts that are no longer listed unliked or deleted their comments
+      const listed = new Set(rows.map((row) => `${row.interaction_type}:${row.user.ig_id}`));
+      await this.deleteUnlisted(
+        'media_interactions',
+        mediaId,
+        'account_ig_id, interaction_type',
+        (row) =>
+          (row.interaction_type === 'LIKE' && item.likers === null) ||
+          listed.has(`${row.interaction_type}:${row.account_ig_id}`),
+        `stale interactions of post ${item.media_id}`
+      );
+
+      const { error: updateError } = await this.supabase
+        .from('media')
+        .update({ interactions_synced_at: syncedAt })
+        .eq('id', mediaId);
+
+      if (updateError) {
+        throw new AppError(
+          ErrorCodes.DATABASE_ERROR,
+          `Failed to mark interactions of post ${item.media_id} as synced: ${updateError.message}`,
+          500,
+          { details: updateError }
+        );
+      }
+
+      saved += rows.length;
+    }
+
+    logger.info(`[SupabaseService] ✅ Saved ${saved} likes and commenters of ${interactions.length} posts`);
+    return saved;
+  }
+
+  /**
+   * Saves the text of each post's comments, classified by SentimentClassifier, in
+   * comments. Comments no longer listed (deleted by their author or hidden) are removed.
+   * @returns The number of comments saved.
+   */
+  public async syncComments(
+    profileId: string,
+    userId: string,
+    interactions: ScrapedMediaInteractions[]
+  ): Promise<number> {
+    if (interactions.length === 0) return 0;
+
+    const postIds = await this.loadPostIds(profileId, interactions.map((item) => item.media_id), 'comments');
+    const classifier = new SentimentClassifier();
+    let saved = 0;
+
+    for (const item of interactions) {
+      const mediaId = postIds.get(item.media_id);
+      if (!mediaId) continue;
+
+      // Pages of comments can overlap; an upsert batch must not touch the same row twice
+      const comments = new Map(item.comments.map((comment) => [comment.comment_id, comment]));
+      const rows = Array.from(comments.values()).map((comment) => {
+        const analysis = classifier.analyze(comment.text);
+        return {
+          media_id: mediaId,
+          profile_id: profileId,
+          user_id: userId,
+          ig_comment_id: comment.comment_id,
+          author_ig_id: comment.author.ig_id,
+          author_username: comment.author.username,
+          text: comment.text,
+          commented_at: comment.timestamp,
+          language: analysis.language,
+          sentiment: analysis.sentiment,
+          sentiment_score: analysis.score,
+          sentiment_method: SENTIMENT_METHOD,
+          topics: analysis.topics,
+          keywords: analysis.keywords,
+        };
+      });
+
+      // Comments already saved keep the first_seen_at of their first collection
+      for (let i = 0; i < rows.length; i += 1000) {
+        const { error: upsertError } = await this.supabase
+          .from('comments')
+          .upsert(rows.slice(i, i + 1000), { onConflict: 'media_id,ig_comment_id' });
+
+        if (upsertError) {
+          throw new AppError(
+            ErrorCodes.DATABASE_ERROR,
+            `Failed to save comments of post ${item.media_id}: ${upsertError.message}`,
+            500,
+            { details: upsertError }
+          );
+        }
+      }
+
+      await this.deleteUnlisted(
+        'comments',
+        mediaId,
+        'ig_comment_id',
+        (row) => comments.has(row.ig_comment_id),
+        `deleted comments of post ${item.media_id}`
+      );
+
+      saved += rows.length;
+    }
+
+    logger.info(`[SupabaseService] ✅ Saved ${saved} comments of ${interactions.length} posts`);
+    return saved;
+  }
+
+  /**
+   * Deletes the rows of a post that the latest collection no longer lists. Compared by key
+   * rather than updated_at, which the set_updated_at trigger stamps with the database clock.
+   */
+  private async deleteUnlisted(
+    table: 'media_interactions' | 'comments',
+    mediaId: string,
+    keyColumns: string,
+    isListed: (row: Record<string, string>) => boolean,
+    description: string
+  ): Promise<void> {
+    const rows = await this.fetchAllPages<Record<string, string>>(
+      this.supabase
+        .from(table)
+        .select(`id, ${keyColumns}`)
+        .eq('media_id', mediaId)
+        .order('id', { ascending: true }),
+      description
+    );
+    const staleIds = rows.filter((row) => !isListed(row)).map((row) => row.id);
+
+    // Ids go in the query string, so delete in chunks that keep the URL short
+    for (let i = 0; i < staleIds.length; i += 100) {
+      const { error } = await this.supabase
+        .from(table)
+        .delete()
+        .in('id', staleIds.slice(i, i + 100));
+
+      if (error) {
+        throw new AppError(
+          ErrorCodes.DATABASE_ERROR,
+          `Failed to clear ${description}: ${error.message}`,
+          500,
+          { details: error }
+        );
+      }
+    }
+  }
+
+  /**
+   * Loads every row of a query page by page; `.range()` is set on the query for each page,
+   * so it must be ordered by a unique key.
+   * @param description What is loaded, for the error message.
+   */
+  private async fetchAllPages<T>(
+    query: { range(from: number, to: number): PromiseLike<{ data: unknown[] | null; error: { message: string } | null }> },
+    description: string
+  ): Promise<T[]> {
+    // Supabase returns at most 1000 rows per request
+    const PAGE_SIZE = 1000;
+    const rows: T[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new AppError(
+          ErrorCodes.DATABASE_ERROR,
+          `Failed to load ${description}: ${error.message}`,
+          500,
+          { details: error }
+        );
+      }
+
+      rows.push(...((data || []) as T[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Maps Instagram media ids of the profile's saved posts to their media row ids.
+   */
+  private async loadPostIds(profileId: string, igMediaIds: string[], purpose: string): Promise<Map<string, string>> {
+    const { data: posts, error } = await this.supabase
+      .from('media')
+      .select('id, ig_media_id')
+      .eq('profile_id', profileId)
+      .in('ig_media_id', igMediaIds);
+
+    if (error) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to load posts for ${purpose}: ${error.message}`,
+        500,
+        { details: error }
+      );
+    }
+
+    return new Map((posts || []).map((post) => [post.ig_media_id as string, post.id as string]));
+  }
+
+  /**
+   * Saves live stories as STORY media and records their viewers. Each story's asset is
+   * copied to storage on its first capture, as the CDN URL expires with the story.
+   * @returns The number of stories saved.
+   */
+  public async syncStories(profileId: string, userId: string, stories: ScrapedStory[]): Promise<number> {
+    logger.info(`[SupabaseService] Syncing ${stories.length} stories for profile ${profileId}`);
+
+    for (const story of stories) {
+      const { data: existing, error: fetchError } = await this.supabase
+        .from('media')
+        .select('storage_path')
+        .eq('ig_media_id', story.story_id)
+        .maybeSingle();
+
+      if (fetchError) {
+        throw new AppError(
+          ErrorCodes.DATABASE_ERROR,
+          `Failed to fetch story ${story.story_id}: ${fetchError.message}`,
+          500,
+          { details: fetchError }
+        );
+      }
+
+      const storagePath = existing?.storage_path || await this.persistStoryAsset(profileId, userId, story);
+      const { data: saved, error: upsertError } = await this.supabase
+        .from('media')
+        .upsert(
+          {
+            profile_id: profileId,
+            user_id: userId,
+            ig_media_id: story.story_id,
+            shortcode: story.story_id,
+            media_type: 'STORY',
+            hashtags: story.hashtags,
+            mentions: story.mentions,
+            media_url: story.media_url,
+            timestamp: story.taken_at,
+            expires_at: story.expires_at,
+            // Keep the last known count when a capture can't see it
+            ...(story.viewer_count !== null ? { viewer_count: story.viewer_count } : {}),
+            storage_path: storagePath,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'ig_media_id' }
+        )
+        .select('id')
+        .single();
+
+      if (upsertError || !saved) {
+        throw new AppError(
+          ErrorCodes.DATABASE_ERROR,
+          `Failed to save story ${story.story_id}: ${upsertError?.message}`,
+          500,
+          { details: upsertError }
+        );
+      }
+
+      if (story.viewers?.length) {
+        // Viewers already recorded keep the first_seen_at of their first capture
+        const { error: viewersError } = await this.supabase
+          .from('story_viewers')
+          .upsert(
+            story.viewers.map((viewer) => ({
+              media_id: saved.id,
+              profile_id: profileId,
+              user_id: userId,
+              viewer_ig_id: viewer.ig_id,
+              viewer_username: viewer.username,
+              viewer_full_name: viewer.full_name,
+            })),
+            { onConflict: 'media_id,viewer_ig_id', ignoreDuplicates: true }
+          );
+
+        if (viewersError) {
+          throw new AppError(
+            ErrorCodes.DATABASE_ERROR,
+            `Failed to save viewers of story ${story.story_id}: ${viewersError.message}`,
+            500,
+            { details: viewersError }
+          );
+        }
+      }
+    }
+
+    logger.info(`[SupabaseService] ✅ Successfully synced ${stories.length} stories`);
+    return stories.length;
+  }
+
+  /**
+   * Copies a story's image or video to the stories bucket.
+   * @returns The storage path, or null when the asset couldn't be copied (retried on the next capture).
+   */
+  private async persistStoryAsset(profileId: string, userId: string, story: ScrapedStory): Promise<string | null> {
+    if (!story.media_url) return null;
+
+    try {
+      const response = await fetch(story.media_url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const isVideo = story.media_type === 'VIDEO';
+      const path = `${userId}/${profileId}/${story.story_id}.${isVideo ? 'mp4' : 'jpg'}`;
+      const { error } = await this.supabase.storage
+        .from(STORY_ASSETS_BUCKET)
+        .upload(path, Buffer.from(await response.arrayBuffer()), {
+          contentType: response.headers.get('content-type') || (isVideo ? 'video/mp4' : 'image/jpeg'),
+          upsert: true,
+        });
+
+      if (error) throw error;
+      return path;
+    } catch (error) {
+      logger.warn(`[SupabaseService] Failed to copy the asset of story ${story.story_id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Saves the Graph API account insights of today: reach and impressions on the
+   * profile_insights_daily row (follower growth is filled in by deriveMetrics) and the
+   * follower demographics.
+   */
+  public async saveAccountInsights(
+    profileId: string,
+    userId: string,
+    followersCount: number,
+    insights: AccountInsights
+  ): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+
+    const { error: insightsError } = await this.supabase
+      .from('profile_insights_daily')
+      .upsert({
+        profile_id: profileId,
+        user_id: userId,
+        date: today,
+        followers_count: followersCount,
+        reach: insights.reach ?? 0,
+        impressions: insights.impressions ?? 0,
+      }, {
+        onConflict: 'profile_id,date',
+      });
+
+    if (insightsError) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to save account insights: ${insightsError.message}`,
+        500,
+        { details: insightsError }
+      );
+    }
+
+    if (insights.demographics.length === 0) return;
+
+    const { error: demographicsError } = await this.supabase
+      .from('audience_demographics')
+      .upsert(
+        insights.demographics.map((row) => ({
+          profile_id: profileId,
+          user_id: userId,
+          date: today,
+          breakdown: row.breakdown,
+          dimension: row.dimension,
+          value: row.value,
+          source: 'GRAPH_API',
+        })),
+        { onConflict: 'profile_id,date,source,breakdown,dimension' }
+      );
+
+    if (demographicsError) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to save audience demographics: ${demographicsError.message}`,
+        500,
+        { details: demographicsError }
+      );
+    }
+  }
+
   /**
    * Derives aggregated metrics from raw data (daily insights, hashtags, etc)
    */
@@ -532,35 +1551,33 @@ export class SupabaseService {
         throw new Error(`Profile not found: ${profileError?.message}`);
       }
 
-      // Get followers data
-      const { data: followers, error: followersError } = await this.supabase
-        .from('followers')
-        .select('*')
-        .eq('profile_id', profileId);
-
-      if (followersError) {
-        logger.error('[SupabaseService] Error fetching followers:', followersError);
-      }
-
-      // Get media data
-      const { data: media, error: mediaError } = await this.supabase
-        .from('media')
-        .select('*')
-        .eq('profile_id', profileId);
-
-      if (mediaError) {
-        logger.error('[SupabaseService] Error fetching media:', mediaError);
-      }
+      // Get media data. Stories expire without likes or comments, so they would dilute
+      // the engagement rate and hashtag metrics. Metrics from part of the posts would be
+      // saved as if they were complete, so a failed read fails the job.
+      const media = await this.fetchAllPages<{
+        timestamp: string;
+        likes_count: number | null;
+        comments_count: number | null;
+        hashtags: string[] | null;
+      }>(
+        this.supabase
+          .from('media')
+          .select('timestamp, likes_count, comments_count, hashtags')
+          .eq('profile_id', profileId)
+          .neq('media_type', 'STORY')
+          .order('id'),
+        'media'
+      );
 
       const today = new Date().toISOString().split('T')[0];
       
       // Calculate total engagement from media
-      const totalLikes = media?.reduce((sum, m) => sum + (m.likes_count || 0), 0) || 0;
-      const totalComments = media?.reduce((sum, m) => sum + (m.comments_count || 0), 0) || 0;
+      const totalLikes = media.reduce((sum, m) => sum + (m.likes_count || 0), 0);
+      const totalComments = media.reduce((sum, m) => sum + (m.comments_count || 0), 0);
       const totalEngagement = totalLikes + totalComments;
       
       // Calculate engagement rate
-      const postsCount = media?.length || 0;
+      const postsCount = media.length;
       const followersCount = profile.followers_count || 0;
       const engagementRate = followersCount > 0 && postsCount > 0
         ? ((totalEngagement / postsCount) / followersCount) * 100
@@ -571,13 +1588,15 @@ export class SupabaseService {
         .from('profile_insights_daily')
         .select('*')
         .eq('profile_id', profileId)
+        .lt('date', today)
         .order('date', { ascending: false })
         .limit(1);
 
       const previousFollowersCount = previousInsights?.[0]?.followers_count || followersCount;
       const followersGrowth = followersCount - previousFollowersCount;
 
-      // Insert today's metrics
+      // Insert today's metrics. reach and impressions are left out so the values saved by
+      // saveAccountInsights (Graph API) are kept; scraped profiles keep the default 0.
       const { error: insertError } = await this.supabase
         .from('profile_insights_daily')
         .upsert({
@@ -587,8 +1606,6 @@ export class SupabaseService {
           followers_count: followersCount,
           followers_growth: followersGrowth,
           engagement_rate: engagementRate,
-          reach: 0, // Instagram doesn't provide this via scraping
-          impressions: 0, // Instagram doesn't provide this via scraping
         }, {
           onConflict: 'profile_id,date',
         });
@@ -603,8 +1620,12 @@ export class SupabaseService {
       logger.info(`   Posts: ${postsCount}`);
       logger.info(`   Engagement Rate: ${engagementRate.toFixed(2)}%`);
 
+      await this.deriveHourlyEngagement(profileId, userId, profile.timezone || 'UTC', media);
+      await this.estimateAudienceDemographics(profileId, userId, today);
+      await this.scoreFollowerQuality(profileId, userId, today);
+
       // Calculate hashtag metrics
-      if (media && media.length > 0) {
+      if (media.length > 0) {
         logger.info(`[SupabaseService] Calculating hashtag metrics from ${media.length} posts...`);
         
         const hashtagStats = new Map<string, { 
@@ -652,6 +1673,7 @@ export class SupabaseService {
             profile_id: profileId,
             user_id: userId,
             hashtag: tag,
+            derived_on: today,
             usage_count: stats.count,
             total_engagement: totalEngagement,
             avg_engagement: totalEngagement / stats.count,
@@ -661,11 +1683,16 @@ export class SupabaseService {
         });
 
         if (hashtagMetrics.length > 0) {
-          // Delete old hashtag metrics first
-          await this.supabase
+          // Earlier days are kept as history; re-running today replaces today's version
+          const { error: deleteError } = await this.supabase
             .from('hashtags_metrics')
             .delete()
-            .eq('profile_id', profileId);
+            .eq('profile_id', profileId)
+            .eq('derived_on', today);
+
+          if (deleteError) {
+            throw new Error(`Failed to clear today's hashtag metrics: ${deleteError.message}`);
+          }
 
           // Insert new metrics in batches
           const BATCH_SIZE = 500;
@@ -698,4 +1725,262 @@ export class SupabaseService {
       throw error;
     }
   }
+
+  /**
+   * Rebuilds the profile's hourly_engagement_metrics: likes + comments of its posts grouped
+   * by the day of week and hour they were published in the profile's timezone. Each slot
+   * keeps its post count so the heatmap can tell thin samples apart.
+   */
+  private async deriveHourlyEngagement(
+    profileId: string,
+    userId: string,
+    timezone: string,
+    media: Array<{ timestamp: string; likes_count: number | null; comments_count: number | null }>
+  ): Promise<void> {
+    let formatter: Intl.DateTimeFormat;
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+    } catch {
+      logger.warn(`[SupabaseService] Unknown timezone "${timezone}", using UTC for hourly engagement`);
+      timezone = 'UTC';
+      formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+    }
+
+    const slots = new Map<string, { day: number; hour: number; posts: number; engagement: number }>();
+    for (const post of media) {
+      const parts = formatter.formatToParts(new Date(post.timestamp));
+      const day = WEEKDAYS.indexOf(parts.find((part) => part.type === 'weekday')?.value || '');
+      const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '', 10);
+      if (day < 0 || isNaN(hour)) continue;
+
+      const key = `${day}-${hour}`;
+      const slot = slots.get(key) || { day, hour, posts: 0, engagement: 0 };
+      slot.posts++;
+      slot.engagement += (post.likes_count || 0) + (post.comments_count || 0);
+      slots.set(key, slot);
+    }
+
+    const { error: deleteError } = await this.supabase
+      .from('hourly_engagement_metrics')
+      .delete()
+      .eq('profile_id', profileId);
+
+    if (deleteError) {
+      throw new Error(`Failed to clear hourly engagement: ${deleteError.message}`);
+    }
+
+    if (slots.size === 0) return;
+
+    const now = new Date().toISOString();
+    const { error: insertError } = await this.supabase
+      .from('hourly_engagement_metrics')
+      .insert(Array.from(slots.values()).map((slot) => ({
+        profile_id: profileId,
+        user_id: userId,
+        day_of_week: slot.day,
+        hour_of_day: slot.hour,
+        post_count: slot.posts,
+        engagement_count: slot.engagement,
+        avg_engagement: slot.engagement / slot.posts,
+        timezone,
+        updated_at: now,
+      })));
+
+    if (insertError) {
+      throw new Error(`Failed to insert hourly engagement: ${insertError.message}`);
+    }
+
+    logger.info(`[SupabaseService] ✅ Hourly engagement derived for ${slots.size} day/hour slots (${timezone})`);
+  }
+
+  /**
+   * Saves today's ESTIMATED audience_demographics (gender, language, country) of the
+   * profile's current followers. Earlier days are kept so estimates can be compared.
+   */
+  private async estimateAudienceDemographics(profileId: string, userId: string, date: string): Promise<void> {
+    const identities = await this.fetchAllPages<{ follower_username: string; follower_name: string | null }>(
+      this.supabase
+        .from('followers')
+        .select('follower_username, follower_name')
+        .eq('profile_id', profileId)
+        .eq('is_follower', true)
+        .order('follower_ig_id', { ascending: true }),
+      'followers for demographics'
+    );
+    const followers: FollowerIdentity[] = identities.map((row) => ({ username: row.follower_username, full_name: row.follower_name }));
+
+    if (followers.length === 0) return;
+
+    const estimate = new DemographicsEstimator().estimate(followers);
+    const rows = [
+      ...[['M', estimate.gender.male], ['F', estimate.gender.female], ['U', estimate.gender.unknown]]
+        .map(([dimension, value]) => ({ breakdown: 'gender', dimension, value })),
+      ...estimate.languages.map(({ language, count }) => ({ breakdown: 'language', dimension: language, value: count })),
+      ...estimate.top_locations.map(({ location, count }) => ({ breakdown: 'country', dimension: location, value: count })),
+    ];
+
+    // Re-running on the same day replaces that day's estimate
+    const { error: deleteError } = await this.supabase
+      .from('audience_demographics')
+      .delete()
+      .eq('profile_id', profileId)
+      .eq('date', date)
+      .eq('source', 'ESTIMATED');
+
+    if (deleteError) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to clear today's demographics estimate: ${deleteError.message}`,
+        500,
+        { details: deleteError }
+      );
+    }
+
+    const { error: insertError } = await this.supabase
+      .from('audience_demographics')
+      .insert(rows.map((row) => ({
+        ...row,
+        profile_id: profileId,
+        user_id: userId,
+        date,
+        source: 'ESTIMATED',
+        sample_size: estimate.sample_size,
+        method: estimate.method,
+      })));
+
+    if (insertError) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to save demographics estimate: ${insertError.message}`,
+        500,
+        { details: insertError }
+      );
+    }
+
+    const identified = estimate.sample_size - estimate.gender.unknown;
+    logger.info(`[SupabaseService] ✅ Demographics estimated from ${estimate.sample_size} followers (gender identified for ${identified})`);
+  }
+
+  /**
+   * Scores every current follower for ghost/bot signals, saves the score on its followers
+   * row and today's totals in follower_quality_snapshots. Interactions are the likes,
+   * comments and story views recorded per account; NO_INTERACTIONS is left out until there are some.
+   */
+  private async scoreFollowerQuality(profileId: string, userId: string, date: string): Promise<void> {
+    const followers = await this.fetchAllPages<{
+      follower_ig_id: string;
+      follower_username: string;
+      follower_name: string | null;
+      follower_pic_url: string | null;
+      is_private: boolean;
+      is_verified: boolean;
+      follower_following_count: number | null;
+    }>(
+      this.supabase
+        .from('followers')
+        .select('follower_ig_id, follower_username, follower_name, follower_pic_url, is_private, is_verified, follower_following_count')
+        .eq('profile_id', profileId)
+        .eq('is_follower', true)
+        .order('follower_ig_id', { ascending: true }),
+      'followers for quality scoring'
+    );
+
+    if (followers.length === 0) return;
+
+    const interactedIds = new Set<string>();
+    const interactionSources = [
+      { table: 'story_viewers', column: 'viewer_ig_id' },
+      { table: 'media_interactions', column: 'account_ig_id' },
+    ];
+    for (const source of interactionSources) {
+      const rows = await this.fetchAllPages<Record<string, string>>(
+        this.supabase
+          .from(source.table)
+          .select(source.column)
+          .eq('profile_id', profileId)
+          .order('id', { ascending: true }),
+        `${source.table} for quality scoring`
+      );
+      for (const row of rows) interactedIds.add(row[source.column]);
+    }
+
+    const scorer = new FollowerQualityScorer();
+    const scoredAt = new Date().toISOString();
+    const flagCounts: Partial<Record<FollowerQualityFlag, number>> = {};
+    let totalScore = 0;
+    let lowQualityCount = 0;
+    let ghostCount = 0;
+
+    const rows = followers.map((follower) => {
+      const quality = scorer.score({
+        username: follower.follower_username,
+        full_name: follower.follower_name,
+        profile_pic_url: follower.follower_pic_url,
+        is_private: follower.is_private,
+        is_verified: follower.is_verified,
+        following_count: follower.follower_following_count,
+        has_interacted: interactedIds.size > 0 ? interactedIds.has(follower.follower_ig_id) : null,
+      });
+
+      totalScore += quality.score;
+      if (quality.level === 'LOW_QUALITY') lowQualityCount++;
+      if (quality.level === 'GHOST') ghostCount++;
+      quality.flags.forEach((flag) => { flagCounts[flag] = (flagCounts[flag] || 0) + 1; });
+
+      return {
+        profile_id: profileId,
+        user_id: userId,
+        follower_ig_id: follower.follower_ig_id,
+        follower_username: follower.follower_username,
+        quality_score: quality.score,
+        quality_level: quality.level,
+        quality_flags: quality.flags,
+        quality_scored_at: scoredAt,
+      };
+    });
+
+    // Upserting only the quality columns leaves the rest of each followers row as synced
+    // (Supabase limits batches to 1000 rows per request)
+    const BATCH_SIZE = 1000;
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const { error } = await this.supabase
+        .from('followers')
+        .upsert(rows.slice(i, i + BATCH_SIZE), { onConflict: 'profile_id,follower_ig_id' });
+
+      if (error) {
+        throw new AppError(
+          ErrorCodes.DATABASE_ERROR,
+          `Failed to save follower quality scores: ${error.message}`,
+          500,
+          { details: error }
+        );
+      }
+    }
+
+    // Re-running on the same day replaces that day's snapshot
+    const { error: snapshotError } = await this.supabase
+      .from('follower_quality_snapshots')
+      .upsert({
+        profile_id: profileId,
+        user_id: userId,
+        date,
+        method: FOLLOWER_QUALITY_METHOD,
+        scored_followers: followers.length,
+        low_quality_count: lowQualityCount,
+        ghost_count: ghostCount,
+        avg_score: totalScore / followers.length,
+        flag_counts: flagCounts,
+      }, { onConflict: 'profile_id,date' });
+
+    if (snapshotError) {
+      throw new AppError(
+        ErrorCodes.DATABASE_ERROR,
+        `Failed to save follower quality snapshot: ${snapshotError.message}`,
+        500,
+        { details: snapshotError }
+      );
+    }
+
+    logger.info(`[SupabaseService] ✅ Follower quality scored for ${followers.length} followers (${ghostCount} likely ghosts, ${lowQualityCount} low quality)`);
+  }
 }
@@ -1,6 +1,14 @@
 import 'dotenv/config';
+import { hostname } from 'os';
+import * as path from 'path';
+import { createClient } from '@supabase/supabase-js';
 import { SupabaseService } from './SupabaseService';
 import { InstagramClient } from './InstagramClient';
+import { InstagramDataSource } from './InstagramDataSource';
+import { FixtureDataSource } from './FixtureDataSource';
+import { InstagramGraphClient } from './InstagramGraphClient';
+import { JobProcessor } from './JobProcessor';
+import { RateLimitGovernor } from './RateLimitGovernor';
 import { AppError, ErrorCodes, SyncJob, createLogger, sleep } from '@ig-analytics/shared';
 
 const logger = createLogger('Worker');
@@ -10,227 +18,104 @@ const SUPABASE_URL = process.env.WORKER_SUPABASE_URL;
 const SERVICE_ROLE_KEY = process.env.WORKER_SUPABASE_SERVICE_ROLE;
 const ENCRYPTION_KEY = process.env.WORKER_ENCRYPTION_KEY;
 
+// Each worker process claims jobs under its own id, so several instances can share the queue
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`;
+const JOB_LEASE_SECONDS = parseInt(process.env.WORKER_JOB_LEASE_SECONDS || '900', 10);
+const REAP_INTERVAL_MS = 60000;
+// How often the scheduler looks for due sync schedules
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.WORKER_SCHEDULER_INTERVAL_SECONDS || '60', 10) * 1000;
+// 'playwright' scrapes Instagram; 'fixture' replays the recorded accounts in WORKER_FIXTURES_DIR (CI, local runs)
+const IG_DATA_SOURCE = process.env.WORKER_IG_DATA_SOURCE || 'playwright';
+const FIXTURES_DIR = process.env.WORKER_FIXTURES_DIR || path.resolve(__dirname, '../fixtures');
+// Instagram app credentials for the Graph API connector (OAuth code exchange); optional
+const IG_APP_ID = process.env.WORKER_IG_APP_ID;
+const IG_APP_SECRET = process.env.WORKER_IG_APP_SECRET;
+// Likers and commenters are collected for this many of the newest posts on every SYNC_INTERACTIONS
+const INTERACTION_POSTS = parseInt(process.env.WORKER_INTERACTION_POSTS || '12', 10);
+
 if (!SUPABASE_URL || !SERVICE_ROLE_KEY || !ENCRYPTION_KEY) {
   logger.error('Missing required environment variables. Check .env.example.');
   process.exit(1);
 }
 
-const supabaseService = new SupabaseService(SUPABASE_URL, SERVICE_ROLE_KEY, ENCRYPTION_KEY);
+if (IG_DATA_SOURCE !== 'playwright' && IG_DATA_SOURCE !== 'fixture') {
+  logger.error(`Unknown WORKER_IG_DATA_SOURCE "${IG_DATA_SOURCE}"; expected "playwright" or "fixture".`);
+  process.exit(1);
+}
+
+const supabaseService = new SupabaseService(
+  createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  }),
+  ENCRYPTION_KEY
+);
 
 /**
- * Main job processing function.
- * @param job The SyncJob to process.
+ * Creates the Instagram data source a job runs against: the Graph API for profiles on
+ * the GRAPH_API connector, the Playwright scraper otherwise.
  */
-async function processJob(job: SyncJob): Promise<void> {
-  logger.info(`Processing job: ${job.job_type} for profile ${job.profile_id}`);
-  let client: InstagramClient | null = null;
-  let processedItems = 0;
-  let errorMessage: string | null = null;
-  let jobStatus: 'COMPLETED' | 'FAILED' = 'COMPLETED';
-
-  try {
-    client = new InstagramClient();
-
-    switch (job.job_type) {
-      case 'LOGIN':
-        {
-          const { username, password, two_fa_code } = job.metadata as any;
-          if (!username || !password) {
-            throw new AppError(ErrorCodes.INVALID_INPUT, 'Missing username or password in job metadata.', 400);
-          }
-
-          const sessionPayload = await client.login(username, password, two_fa_code);
-          await supabaseService.saveEncryptedSession(job.profile_id, job.user_id, sessionPayload, 'VALID');
-          await supabaseService.updateProfileState(job.profile_id, 'CONNECTED');
-          logger.info('LOGIN job completed successfully. Session saved.');
-          
-          // Automatically create sync jobs after successful login
-          logger.info('[Worker] Creating automatic sync jobs after login...');
-          
-          const syncJobs = [
-            { job_type: 'SYNC_PROFILE', priority: 1 },
-            { job_type: 'SYNC_FOLLOWERS', priority: 2 },
-            { job_type: 'SYNC_MEDIA', priority: 3 },
-            { job_type: 'DERIVE_METRICS', priority: 4 },
-          ];
-
-          for (const syncJob of syncJobs) {
-            await supabaseService.supabase.from('sync_jobs').insert({
-              profile_id: job.profile_id,
-              user_id: job.user_id,
-              job_type: syncJob.job_type as any,
-              status: 'PENDING',
-              metadata: {},
-            });
-          }
-          
-          logger.info('[Worker] Automatic sync jobs created successfully');
-        }
-        break;
-
-      case 'RECONNECT':
-        {
-          // TODO: Implement RECONNECT logic (e.g., try to re-login with saved credentials if possible)
-          // For now, we'll just try to check the session.
-          const sessionPayload = await supabaseService.getDecryptedSession(job.profile_id);
-          if (!sessionPayload) {
-            throw new AppError(ErrorCodes.SESSION_EXPIRED, 'No valid session found for reconnection.', 401);
-          }
-          const isValid = await client.checkSession(sessionPayload);
-          if (!isValid) {
-            await supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
-            throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Session check failed. Session is expired.', 401);
-          }
-          logger.info('RECONNECT job completed successfully. Session is still valid.');
-        }
-        break;
-
-      case 'SYNC_PROFILE':
-        {
-          const profile = await supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
-          if (profile.error || !profile.data) {
-            throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
-          }
-
-          const sessionPayload = await supabaseService.getDecryptedSession(job.profile_id);
-          if (!sessionPayload) {
-            await supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
-            throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Session expired. Cannot sync profile.', 401);
-          }
-          await client.initBrowser(sessionPayload, false); // headless mode for scraping
-
-          const profileData = await client.scrapeProfile(profile.data.ig_username);
-          
-          logger.info(`[Worker] Scraped profile data:`, {
-            username: profileData.username,
-            followers: profileData.followers_count,
-            following: profileData.following_count,
-            posts: profileData.media_count,
-          });
-          
-          // Update profile with scraped data
-          const { error: updateError } = await supabaseService.supabase
-            .from('profiles')
-            .update({
-              ig_user_id: profileData.username, // Use username as fallback for ID
-              followers_count: profileData.followers_count,
-              following_count: profileData.following_count,
-              bio: profileData.bio,
-              profile_pic_url: profileData.profile_pic_url,
-              is_verified: profileData.is_verified,
-              last_sync_at: new Date().toISOString(),
-            })
-            .eq('id', job.profile_id);
-
-          if (updateError) {
-            logger.error('[Worker] Failed to update profile data', updateError);
-            throw new AppError(ErrorCodes.DATABASE_ERROR, 'Failed to save profile data', 500);
-          }
-
-          processedItems = 1;
-          logger.info(`[Worker] ✅ Profile ${profile.data.ig_username} synced: ${profileData.followers_count} followers, ${profileData.following_count} following, ${profileData.media_count} posts`);
-        }
-        break;
-
-      case 'SYNC_FOLLOWERS':
-        {
-          const profile = await supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
-          if (profile.error || !profile.data) {
-            throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
-          }
-
-          const sessionPayload = await supabaseService.getDecryptedSession(job.profile_id);
-          if (!sessionPayload) {
-            await supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
-            throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Session expired. Cannot sync followers.', 401);
-          }
-          await client.initBrowser(sessionPayload, false); // headless mode for scraping
-
-          const { followers, following } = await client.scrapeFollowers(profile.data.ig_username);
-          processedItems = await supabaseService.syncFollowers(job.profile_id, job.user_id, followers, following);
-        }
-        break;
-
-      case 'SYNC_MEDIA':
-        {
-          const profile = await supabaseService.supabase.from('profiles').select('ig_username').eq('id', job.profile_id).single();
-          if (profile.error || !profile.data) {
-            throw new AppError(ErrorCodes.NOT_FOUND, 'Profile not found.', 404);
-          }
-
-          const sessionPayload = await supabaseService.getDecryptedSession(job.profile_id);
-          if (!sessionPayload) {
-            await supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
-            throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Session expired. Cannot sync media.', 401);
-          }
-          await client.initBrowser(sessionPayload, false); // headless mode for scraping
-
-          const mediaData = await client.scrapeMedia(profile.data.ig_username);
-          processedItems = await supabaseService.syncMedia(job.profile_id, job.user_id, mediaData);
-        }
-        break;
-
-      case 'DERIVE_METRICS':
-        {
-          await supabaseService.deriveMetrics(job.profile_id, job.user_id);
-          processedItems = 1; // Represents one profile's metrics derived
-        }
-        break;
+async function createDataSource(job: SyncJob): Promise<InstagramDataSource> {
+  if (IG_DATA_SOURCE === 'fixture') {
+    return new FixtureDataSource(FIXTURES_DIR);
+  }
 
-      default:
-        throw new AppError(ErrorCodes.INVALID_INPUT, `Unknown job type: ${job.job_type}`, 400);
+  // LOGIN jobs connect a profile (see JobProcessor.connectGraphApi for OAuth), so they never need a token
+  if (job.job_type !== 'LOGIN' && await supabaseService.getProfileConnector(job.profile_id) === 'GRAPH_API') {
+    let token = await supabaseService.getGraphToken(job.profile_id);
+    if (!token) {
+      throw new AppError(ErrorCodes.SESSION_EXPIRED, 'Graph API token missing or expired. Please reconnect your account.', 401);
     }
-  } catch (error) {
-    jobStatus = 'FAILED';
-    if (error instanceof AppError) {
-      errorMessage = `${error.code}: ${error.message}`;
-      if (error.code === ErrorCodes.IG_2FA_REQUIRED) {
-        logger.info(`[Worker] Updating profile ${job.profile_id} to NEEDS_2FA state`);
-        await supabaseService.updateProfileState(job.profile_id, 'NEEDS_2FA');
-        logger.info(`[Worker] Profile ${job.profile_id} updated to NEEDS_2FA - browser will REMAIN OPEN`);
-        // CRITICAL: Do NOT close browser when 2FA is pending - user needs to complete it manually
-      } else if (error.code === ErrorCodes.SESSION_EXPIRED) {
-        await supabaseService.updateProfileState(job.profile_id, 'EXPIRED');
-      }
-    } else {
-      errorMessage = `Internal Error: ${error instanceof Error ? error.message : String(error)}`;
-    }
-    logger.error(`Job ${job.id} FAILED: ${errorMessage}`, error);
-  } finally {
-    // Only close the browser if it's NOT a LOGIN job that needs 2FA
-    // For 2FA cases, the browser must stay open for manual completion
-    const is2FACase = errorMessage?.includes('IG_2FA_REQUIRED');
-    
-    if (client && !is2FACase) {
-      logger.info('[Worker] Closing browser (job completed or non-2FA error)');
-      await client.close();
-    } else if (is2FACase) {
-      logger.info('[Worker] ⚠️  Browser left OPEN for manual 2FA completion');
-      logger.info('[Worker] ⚠️  Complete the 2FA in the browser, then submit code via frontend');
+    if (InstagramGraphClient.needsRefresh(token)) {
+      token = await new InstagramGraphClient(token).refreshToken();
+      await supabaseService.saveGraphToken(job.profile_id, job.user_id, token);
+      logger.info(`Refreshed Graph API token of profile ${job.profile_id}`);
     }
-    
-    await supabaseService.updateJobStatus(job.id, jobStatus, processedItems, errorMessage);
-    logger.info(`Job ${job.id} finished with status: ${jobStatus}`);
+    return new InstagramGraphClient(token);
   }
+
+  return new InstagramClient(new RateLimitGovernor(supabaseService, job));
 }
 
+const jobProcessor = new JobProcessor(supabaseService, {
+  workerId: WORKER_ID,
+  leaseSeconds: JOB_LEASE_SECONDS,
+  interactionPosts: INTERACTION_POSTS,
+  igAppId: IG_APP_ID,
+  igAppSecret: IG_APP_SECRET,
+  createDataSource,
+});
+
 /**
  * Main worker loop. Polls for new jobs.
  */
 async function workerLoop() {
-  logger.info('Worker started. Polling for jobs...');
+  logger.info(`Worker ${WORKER_ID} started (${IG_DATA_SOURCE} data source). Polling for jobs...`);
   // NOTE: In a production environment, a message queue (e.g., Redis, SQS) or a
   // Supabase Realtime subscription would be used instead of polling.
   const POLLING_INTERVAL_MS = 5000;
+  let lastReapAt = 0;
 
   while (true) {
     try {
+      // Any worker may recover jobs abandoned by a crashed peer; the reap is idempotent
+      if (Date.now() - lastReapAt >= REAP_INTERVAL_MS) {
+        lastReapAt = Date.now();
+        const reaped = await supabaseService.reapExpiredJobs();
+        if (reaped > 0) {
+          logger.warn(`Recovered ${reaped} job(s) with expired leases`);
+        }
+      }
+
       logger.info('Checking for pending jobs...');
-      const job = await supabaseService.getNextPendingJob();
+      const job = await supabaseService.claimNextJob(WORKER_ID, JOB_LEASE_SECONDS);
 
       if (job) {
         logger.info(`Found job: ${job.id} - ${job.job_type}`);
-        await processJob(job);
+        await jobProcessor.process(job);
       } else {
         logger.info('No pending jobs found. Sleeping...');
       }
@@ -244,4 +129,27 @@ async function workerLoop() {
   }
 }
 
+/**
+ * Scheduler loop. Enqueues sync pipelines for profiles whose schedules are due.
+ * Runs alongside the worker loop so long jobs don't delay scheduled syncs; several
+ * workers may run it at once, as the database function skips schedules locked by a peer.
+ */
+async function schedulerLoop() {
+  logger.info(`Scheduler started. Checking schedules every ${SCHEDULER_INTERVAL_MS / 1000}s`);
+
+  while (true) {
+    try {
+      const enqueued = await supabaseService.enqueueDueSchedules();
+      if (enqueued > 0) {
+        logger.info(`Enqueued scheduled sync pipelines for ${enqueued} profile(s)`);
+      }
+    } catch (error) {
+      logger.error('Error in scheduler loop:', error);
+    }
+
+    await sleep(SCHEDULER_INTERVAL_MS);
+  }
+}
+
 workerLoop();
+schedulerLoop();
@@ -0,0 +1,227 @@
+/**
+ * Local stand-in for the Instagram OAuth and Graph API endpoints used by
+ * `InstagramGraphClient`, answering from the recorded fixtures. The OAuth code names the
+ * fixture account to connect; tokens are `mock:<username>` and the account id is the
+ * username. Insights are derived from the recorded likes and comments, so they are
+ * deterministic. Point WORKER_IG_GRAPH_API_URL and WORKER_IG_OAUTH_URL (and the web's
+ * VITE_IG_AUTHORIZE_URL, to skip the Instagram consent page) at this server.
+ */
+import 'dotenv/config';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createLogger } from '@ig-analytics/shared';
+import type { AccountFixture } from './FixtureDataSource';
+
+const logger = createLogger('MockGraphApi');
+
+const PORT = parseInt(process.env.MOCK_GRAPH_API_PORT || '4010', 10);
+const FIXTURES_DIR = process.env.WORKER_FIXTURES_DIR || path.resolve(__dirname, '../fixtures');
+// Account the mock authorize page "logs in" as
+const MOCK_ACCOUNT = process.env.MOCK_GRAPH_API_ACCOUNT || 'demo_account';
+const TOKEN_TTL_SECONDS = 60 * 24 * 60 * 60;
+
+class GraphError extends Error {
+  constructor(public readonly status: number, public readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+async function loadFixture(username: string): Promise<AccountFixture> {
+  try {
+    const raw = await fs.readFile(path.join(FIXTURES_DIR, `${path.basename(username)}.json`), 'utf8');
+    return JSON.parse(raw) as AccountFixture;
+  } catch {
+    throw new GraphError(400, 100, `No fixture recorded for ${username}`);
+  }
+}
+
+async function authenticate(params: URLSearchParams): Promise<{ username: string; fixture: AccountFixture }> {
+  const token = params.get('access_token') || '';
+  if (!token.startsWith('mock:')) {
+    throw new GraphError(400, 190, 'Invalid OAuth access token');
+  }
+  const username = token.slice('mock:'.length);
+  return { username, fixture: await loadFixture(username) };
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return new URLSearchParams(body);
+}
+
+function mediaInsights(fixture: AccountFixture, mediaId: string) {
+  const story = fixture.stories?.find((s) => s.story_id === mediaId);
+  if (story) {
+    return [{ name: 'reach', values: [{ value: story.viewer_count ?? 0 }] }];
+  }
+
+  const media = fixture.media.find((m) => m.media_id === mediaId);
+  if (!media) throw new GraphError(400, 100, `Unknown media ${mediaId}`);
+
+  const reach = media.likes_count * 8 + media.comments_count * 20;
+  return [
+    { name: 'reach', values: [{ value: reach }] },
+    { name: 'views', values: [{ value: Math.round(reach * 1.4) }] },
+    { name: 'saved', values: [{ value: Math.round(media.likes_count * 0.1) }] },
+    { name: 'shares', values: [{ value: Math.round(media.likes_count * 0.05) }] },
+  ];
+}
+
+function demographics(fixture: AccountFixture, breakdown: string) {
+  const followers = fixture.profile.followers_count;
+  const shares: Record<string, [string, number][]> = {
+    age: [['18-24', 0.3], ['25-34', 0.4], ['35-44', 0.2], ['45-54', 0.1]],
+    gender: [['F', 0.55], ['M', 0.4], ['U', 0.05]],
+    city: [['São Paulo, São Paulo', 0.35], ['Rio de Janeiro, Rio de Janeiro', 0.2], ['Lisbon, Lisbon', 0.1]],
+    country: [['BR', 0.7], ['PT', 0.15], ['US', 0.15]],
+  };
+  if (!shares[breakdown]) throw new GraphError(400, 100, `Unsupported breakdown ${breakdown}`);
+
+  const results = shares[breakdown].map(([dimension, share]) => ({
+    dimension_values: [dimension],
+    value: Math.round(followers * share),
+  }));
+  return [{ name: 'follower_demographics', total_value: { breakdowns: [{ results }] } }];
+}
+
+async function route(req: IncomingMessage, url: URL, res: ServerResponse): Promise<unknown> {
+  // Graph API paths carry a version prefix (e.g. /v21.0/me); the OAuth ones don't
+  const segments = url.pathname.split('/').filter(Boolean);
+  if (/^v\d+\.\d+$/.test(segments[0] || '')) segments.shift();
+  const params = url.searchParams;
+
+  if (segments.join('/') === 'oauth/authorize') {
+    // Consent is implied: straight back to the app with a code naming the mock account
+    const redirect = new URL(params.get('redirect_uri') || '');
+    redirect.searchParams.set('code', MOCK_ACCOUNT);
+    redirect.searchParams.set('state', params.get('state') || '');
+    res.writeHead(302, { Location: redirect.toString() });
+    return null;
+  }
+  if (segments.join('/') === 'oauth/access_token' && req.method === 'POST') {
+    const form = await readForm(req);
+    const username = form.get('code') || '';
+    await loadFixture(username);
+    return { access_token: `mock:${username}`, user_id: username };
+  }
+  if (segments[0] === 'access_token' || segments[0] === 'refresh_access_token') {
+    await authenticate(params);
+    return { access_token: params.get('access_token'), token_type: 'bearer', expires_in: TOKEN_TTL_SECONDS };
+  }
+
+  const { username, fixture } = await authenticate(params);
+  const [node, edge] = segments;
+
+  if (node === 'me' || (node === username && !edge)) {
+    const profile = fixture.profile;
+    return {
+      id: username,
+      user_id: username,
+      username: profile.username,
+      name: profile.full_name,
+      biography: profile.bio,
+      website: profile.external_url,
+      profile_picture_url: profile.profile_pic_url,
+      followers_count: profile.followers_count,
+      follows_count: profile.following_count,
+      media_count: profile.media_count,
+      account_type: profile.is_business ? 'BUSINESS' : 'PERSONAL',
+    };
+  }
+
+  if (node === username && edge === 'media') {
+    const limit = parseInt(params.get('limit') || '25', 10);
+    const offset = parseInt(params.get('after') || '0', 10);
+    const page = fixture.media.slice(offset, offset + limit);
+    const data = page.map((m) => ({
+      id: m.media_id,
+      caption: m.caption_text,
+      media_type: m.media_type === 'CAROUSEL' ? 'CAROUSEL_ALBUM' : m.media_type,
+      media_url: m.media_url,
+      permalink: `https://www.instagram.com/p/${m.shortcode}/`,
+      shortcode: m.shortcode,
+      timestamp: m.timestamp,
+      like_count: m.likes_count,
+      comments_count: m.comments_count,
+    }));
+
+    const nextOffset = offset + page.length;
+    if (nextOffset >= fixture.media.length) return { data, paging: {} };
+    const next = new URL(url.toString());
+    next.searchParams.set('after', String(nextOffset));
+    return { data, paging: { next: next.toString() } };
+  }
+
+  if (node === username && edge === 'stories') {
+    const data = (fixture.stories || []).map((s) => ({
+      id: s.story_id,
+      media_type: s.media_type,
+      media_url: s.media_url,
+      timestamp: s.taken_at,
+    }));
+    return { data, paging: {} };
+  }
+
+  if (node === username && edge === 'insights') {
+    if (params.get('metric') === 'follower_demographics') {
+      return { data: demographics(fixture, params.get('breakdown') || '') };
+    }
+    const reach = fixture.media.reduce((sum, m) => sum + m.likes_count * 8 + m.comments_count * 20, 0);
+    return {
+      data: [
+        { name: 'reach', total_value: { value: reach } },
+        { name: 'views', total_value: { value: Math.round(reach * 1.4) } },
+      ],
+    };
+  }
+
+  if (node && edge === 'insights') {
+    return { data: mediaInsights(fixture, node) };
+  }
+
+  if (node && edge === 'comments') {
+    const recorded = fixture.interactions?.find((item) => item.media_id === node);
+    const data = (recorded?.comments || []).map((c) => ({
+      id: c.comment_id,
+      text: c.text,
+      timestamp: c.timestamp,
+      username: c.author.username,
+      from: { id: c.author.ig_id, username: c.author.username },
+    }));
+    return { data, paging: {} };
+  }
+
+  throw new GraphError(400, 100, `Unsupported request ${req.method} ${url.pathname}`);
+}
+
+/**
+ * Creates the mock server without listening, so tests can bind it to a free port.
+ */
+export function createMockGraphApiServer(): Server {
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    // Paging links point back at the host the request was sent to
+    const url = new URL(req.url || '/', `http://${req.headers.host || `localhost:${PORT}`}`);
+    let status = 200;
+    let body: unknown;
+
+    try {
+      body = await route(req, url, res);
+    } catch (error) {
+      const graphError = error instanceof GraphError ? error : new GraphError(500, 1, String(error));
+      status = graphError.status;
+      body = { error: { message: graphError.message, type: 'OAuthException', code: graphError.code } };
+    }
+
+    logger.info(`${req.method} ${url.pathname} -> ${res.headersSent ? res.statusCode : status}`);
+    if (!res.headersSent) res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+}
+
+if (require.main === module) {
+  createMockGraphApiServer().listen(PORT, () => {
+    logger.info(`Mock Instagram Graph API listening on http://localhost:${PORT} (fixtures: ${FIXTURES_DIR})`);
+  });
+}
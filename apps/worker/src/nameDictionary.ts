@@ -0,0 +1,45 @@
+/**
+ * Offline first-name dictionary used to estimate follower gender. Names are lowercase and
+ * without accents (see `normalizeName` in DemographicsEstimator); names commonly given to
+ * both genders are left out so they count as unknown.
+ */
+
+const FEMALE_NAMES = [
+  // Portuguese / Spanish
+  'ana', 'adriana', 'alessandra', 'alice', 'aline', 'amanda', 'andreia', 'angela', 'barbara',
+  'beatriz', 'bianca', 'bruna', 'camila', 'carla', 'carolina', 'catarina', 'cecilia', 'claudia', 'cristina',
+  'daniela', 'debora', 'elisa', 'eliane', 'fabiana', 'fernanda', 'flavia', 'gabriela', 'giovanna', 'helena',
+  'ines', 'isabel', 'isabela', 'isabella', 'jessica', 'joana', 'julia', 'juliana', 'larissa', 'laura',
+  'leticia', 'livia', 'lucia', 'luana', 'luisa', 'luiza', 'manuela', 'mariana', 'maria', 'marta',
+  'natalia', 'patricia', 'paula', 'priscila', 'raquel', 'renata', 'rita', 'sabrina', 'sara', 'sofia',
+  'tatiana', 'teresa', 'valentina', 'vanessa', 'vitoria', 'yasmin', 'carmen', 'lorena', 'noelia', 'ximena',
+  'rosa', 'pilar', 'marina', 'silvia', 'monica', 'veronica', 'elena', 'irene', 'nuria', 'rocio',
+  // English / other European
+  'emily', 'emma', 'olivia', 'ava', 'mia', 'charlotte', 'amelia', 'abigail', 'elizabeth',
+  'sarah', 'hannah', 'grace', 'chloe', 'lily', 'ella', 'madison', 'jennifer', 'linda', 'susan',
+  'karen', 'nancy', 'lisa', 'betty', 'ashley', 'kimberly', 'michelle', 'amy', 'rachel', 'megan',
+  'lauren', 'anna', 'giulia', 'francesca', 'chiara', 'marie', 'camille', 'clara', 'lea', 'manon',
+  'sophie', 'katarzyna', 'olga', 'natasha', 'svetlana', 'anastasia', 'ingrid', 'astrid', 'freya', 'aisha',
+];
+
+const MALE_NAMES = [
+  // Portuguese / Spanish
+  'antonio', 'andre', 'arthur', 'bernardo', 'bruno', 'caio', 'carlos', 'daniel', 'davi', 'david',
+  'diego', 'diogo', 'eduardo', 'enzo', 'felipe', 'fernando', 'filipe', 'francisco', 'gabriel', 'guilherme',
+  'gustavo', 'heitor', 'henrique', 'hugo', 'igor', 'joao', 'jorge', 'jose', 'leonardo', 'lucas',
+  'luis', 'luiz', 'marcelo', 'marco', 'marcos', 'mateus', 'matheus', 'miguel', 'murilo', 'nuno',
+  'paulo', 'pedro', 'rafael', 'renato', 'ricardo', 'roberto', 'rodrigo', 'rui', 'samuel', 'sergio',
+  'thiago', 'tiago', 'vinicius', 'vitor', 'victor', 'alejandro', 'javier', 'juan', 'manuel', 'pablo',
+  'alvaro', 'fabio', 'gonzalo', 'ignacio', 'martin', 'raul', 'santiago', 'sebastian', 'tomas', 'emilio',
+  // English / other European
+  'james', 'john', 'robert', 'michael', 'william', 'richard', 'joseph', 'thomas', 'charles', 'christopher',
+  'matthew', 'anthony', 'mark', 'steven', 'paul', 'andrew', 'joshua', 'kevin', 'brian', 'george',
+  'edward', 'ryan', 'jacob', 'ethan', 'noah', 'liam', 'oliver', 'henry', 'jack', 'luke',
+  'giuseppe', 'giovanni', 'alessandro', 'matteo', 'lorenzo', 'pierre', 'louis', 'jean', 'nicolas', 'antoine',
+  'hans', 'klaus', 'stefan', 'lars', 'piotr', 'ivan', 'dmitry', 'sergey', 'mohammed', 'ahmed',
+];
+
+export const FIRST_NAME_GENDERS: ReadonlyMap<string, 'M' | 'F'> = new Map([
+  ...FEMALE_NAMES.map((name) => [name, 'F'] as const),
+  ...MALE_NAMES.map((name) => [name, 'M'] as const),
+]);
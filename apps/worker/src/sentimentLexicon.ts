@@ -0,0 +1,139 @@
+import { CommentTopic } from '@ig-analytics/shared';
+
+/**
+ * Offline sentiment lexicon for Instagram comments, in Portuguese and English. Words are
+ * lowercase and without accents (see `normalizeName` in DemographicsEstimator); each has a
+ * polarity from -3 (strongly negative) to 3 (strongly positive). Emoji are listed as
+ * written, without variation selectors.
+ */
+
+const STRONG_POSITIVE: Record<'pt' | 'en', string[]> = {
+  pt: [
+    'incrivel', 'maravilhoso', 'maravilhosa', 'perfeito', 'perfeita', 'sensacional', 'espetacular', 'fantastico',
+    'fantastica', 'apaixonado', 'apaixonada', 'amei', 'amo', 'divino', 'divina', 'magnifico', 'magnifica',
+    'deslumbrante', 'extraordinario', 'brilhante', 'excelente', 'top', 'demais', 'arrasou', 'arrasando',
+  ],
+  en: [
+    'amazing', 'awesome', 'incredible', 'perfect', 'stunning', 'gorgeous', 'fantastic', 'brilliant',
+    'excellent', 'outstanding', 'love', 'loved', 'loving', 'wonderful', 'breathtaking', 'masterpiece', 'superb',
+  ],
+};
+
+const POSITIVE: Record<'pt' | 'en', string[]> = {
+  pt: [
+    'lindo', 'linda', 'lindos', 'lindas', 'bonito', 'bonita', 'belo', 'bela', 'otimo', 'otima', 'bom', 'boa',
+    'legal', 'gostei', 'adorei', 'adoro', 'parabens', 'sucesso', 'feliz', 'obrigado', 'obrigada', 'massa',
+    'show', 'fofo', 'fofa', 'inspirador', 'inspiradora', 'talento', 'talentoso', 'talentosa', 'uau', 'nossa',
+    'maravilha', 'lindeza', 'orgulho', 'cheiroso', 'delicia', 'gostoso', 'gostosa', 'recomendo',
+  ],
+  en: [
+    'beautiful', 'pretty', 'great', 'good', 'nice', 'cool', 'cute', 'lovely', 'liked', 'congrats',
+    'congratulations', 'happy', 'thanks', 'thank', 'inspiring', 'talented', 'wow', 'best', 'fun', 'glad',
+    'delicious', 'yummy', 'recommend', 'favorite', 'favourite', 'proud', 'fire', 'beauty', 'enjoy', 'enjoyed',
+  ],
+};
+
+const NEGATIVE: Record<'pt' | 'en', string[]> = {
+  pt: [
+    'ruim', 'feio', 'feia', 'chato', 'chata', 'triste', 'fraco', 'fraca', 'caro', 'decepcao',
+    'decepcionado', 'decepcionada', 'problema', 'demora', 'atrasado', 'atrasou', 'errado', 'errada', 'pior',
+    'mal', 'falso', 'falsa', 'golpe', 'reclamacao', 'desisti', 'cansado', 'cansativo', 'estranho', 'escuro',
+    'escura', 'quebrado', 'quebrou', 'defeito', 'lento', 'bagunca',
+  ],
+  en: [
+    'bad', 'ugly', 'boring', 'sad', 'weak', 'expensive', 'disappointed', 'disappointing', 'problem', 'late',
+    'wrong', 'worse', 'fake', 'scam', 'complaint', 'annoying', 'broken', 'slow', 'dark', 'overrated', 'meh',
+    'unfollow', 'waste', 'poor', 'rude', 'dislike', 'sucks',
+  ],
+};
+
+const STRONG_NEGATIVE: Record<'pt' | 'en', string[]> = {
+  pt: [
+    'horrivel', 'pessimo', 'pessima', 'odeio', 'odiei', 'nojento', 'nojenta', 'lixo', 'ridiculo', 'ridicula',
+    'vergonha', 'absurdo', 'terrivel', 'porcaria', 'fraude', 'enganacao', 'detestei',
+  ],
+  en: [
+    'horrible', 'terrible', 'awful', 'hate', 'hated', 'disgusting', 'trash', 'garbage', 'ridiculous',
+    'shame', 'worst', 'pathetic', 'fraud', 'useless',
+  ],
+};
+
+const EMOJI_POLARITIES: Array<[string, number]> = [
+  ['❤', 3], ['😍', 3], ['🥰', 3], ['😻', 3], ['💖', 3], ['💕', 2], ['💗', 2], ['💯', 2], ['🔥', 2], ['👏', 2],
+  ['🙌', 2], ['😊', 2], ['😁', 2], ['😀', 1], ['😄', 2], ['🤩', 3], ['✨', 1], ['👍', 2], ['💪', 1], ['🥹', 2],
+  ['😂', 1], ['🤣', 1], ['🙏', 1], ['💙', 2], ['💚', 2], ['💜', 2], ['🧡', 2], ['💛', 2], ['🤍', 2], ['😘', 2],
+  ['😢', -2], ['😭', -1], ['😞', -2], ['😔', -2], ['😡', -3], ['😠', -3], ['🤬', -3], ['👎', -2], ['💔', -2],
+  ['🤮', -3], ['🤢', -2], ['😒', -2], ['🙄', -2], ['😤', -2], ['😩', -2],
+];
+
+const WORD_POLARITIES: Array<[Record<'pt' | 'en', string[]>, number]> = [
+  [STRONG_POSITIVE, 3],
+  [POSITIVE, 2],
+  [NEGATIVE, -2],
+  [STRONG_NEGATIVE, -3],
+];
+
+export const SENTIMENT_LEXICON: ReadonlyMap<string, number> = new Map([
+  ...WORD_POLARITIES.flatMap(([words, polarity]) =>
+    [...words.pt, ...words.en].map((word): [string, number] => [word, polarity])
+  ),
+  ...EMOJI_POLARITIES,
+]);
+
+// Language of each lexicon word, which settles short comments like "Que linda!"
+export const LEXICON_LANGUAGES: ReadonlyMap<string, 'pt' | 'en'> = new Map(
+  WORD_POLARITIES.flatMap(([words]) => [
+    ...words.pt.map((word): [string, 'pt' | 'en'] => [word, 'pt']),
+    ...words.en.map((word): [string, 'pt' | 'en'] => [word, 'en']),
+  ])
+);
+
+// Flip the polarity of the next few words ("não gostei", "not good")
+export const NEGATIONS: ReadonlySet<string> = new Set([
+  'nao', 'nunca', 'nem', 'jamais', 'nada', 'sem',
+  'not', 'no', 'never', 'nothing', 'without', 'dont', 'didnt', 'isnt', 'wasnt', 'cant', 'wont', 'doesnt',
+]);
+
+// Multiply the polarity of the next word ("muito lindo", "so good")
+export const INTENSIFIERS: ReadonlyMap<string, number> = new Map([
+  ['muito', 1.5], ['muita', 1.5], ['super', 1.5], ['mega', 1.5], ['tao', 1.5], ['bem', 1.25], ['extremamente', 2],
+  ['very', 1.5], ['so', 1.5], ['really', 1.5], ['extremely', 2], ['totally', 1.5], ['too', 1.25],
+  ['pouco', 0.5], ['meio', 0.5], ['slightly', 0.5], ['kinda', 0.5], ['bit', 0.5],
+]);
+
+// Frequent words of each language, used to tell which one a comment is written in and
+// dropped from its keywords
+export const PORTUGUESE_STOPWORDS: ReadonlySet<string> = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'no', 'na', 'nos', 'nas', 'que',
+  'com', 'por', 'para', 'pra', 'pro', 'se', 'eu', 'voce', 'vc', 'ele', 'ela', 'isso', 'isto', 'esse', 'essa',
+  'este', 'esta', 'foi', 'ser', 'ta', 'tem', 'ter', 'mais', 'mas', 'muito', 'muita', 'meu', 'minha', 'seu', 'sua',
+  'ao', 'aos', 'como', 'onde', 'quando', 'qual', 'quanto', 'ja', 'tambem', 'so', 'ai', 'aqui', 'la', 'tao',
+  'nao', 'sim', 'vai', 'vou', 'estou', 'esta', 'sao', 'era', 'eh', 'me', 'te', 'lhe', 'ne', 'kkk',
+]);
+
+export const ENGLISH_STOPWORDS: ReadonlySet<string> = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'is', 'are', 'was', 'were', 'be',
+  'it', 'its', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'we', 'they', 'my', 'your', 'our',
+  'me', 'so', 'very', 'really', 'just', 'what', 'where', 'when', 'how', 'who', 'which', 'do', 'does', 'did',
+  'have', 'has', 'had', 'not', 'no', 'yes', 'can', 'will', 'would', 'there', 'here', 'too', 'all', 'from',
+  'im', 'u', 'ur', 'lol', 'omg', 'oh',
+]);
+
+// Words that put a comment under a topic; QUESTION is also set by a question mark.
+// COMPLAINT is about the product or service, not just a negative reaction
+export const TOPIC_KEYWORDS: Record<CommentTopic, string[]> = {
+  QUESTION: ['como', 'quanto', 'qual', 'quais', 'quando', 'how', 'what', 'when', 'which', 'why', 'porque'],
+  PURCHASE_INTENT: [
+    'preco', 'valor', 'custa', 'comprar', 'compro', 'vende', 'vendem', 'loja', 'frete', 'encomenda', 'encomendar',
+    'disponivel', 'link', 'direct', 'dm', 'inbox', 'price', 'buy', 'cost', 'shop', 'order', 'shipping', 'available',
+  ],
+  LOCATION: ['onde', 'lugar', 'local', 'endereco', 'cidade', 'where', 'place', 'location', 'address', 'city'],
+  REQUEST: [
+    'tutorial', 'receita', 'ensina', 'ensinar', 'parte', 'faz', 'faca', 'quero', 'queremos', 'favor', 'pfv',
+    'recipe', 'part', 'next', 'please', 'pls', 'teach', 'share',
+  ],
+  COMPLAINT: [
+    'reclamacao', 'problema', 'defeito', 'atrasado', 'atrasou', 'golpe', 'reembolso', 'devolucao',
+    'quebrado', 'quebrou', 'fraude', 'complaint', 'problem', 'broken', 'scam', 'refund', 'late', 'fraud',
+  ],
+};
@@ -0,0 +1,189 @@
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import * as path from 'path';
+import { AppError, ErrorCodes, SyncJob } from '@ig-analytics/shared';
+import type { AccountFixture } from '../src/FixtureDataSource';
+import type { GraphToken, InstagramGraphClient as GraphClient } from '../src/InstagramGraphClient';
+import type { JobProcessor as Processor } from '../src/JobProcessor';
+import { createMockGraphApiServer } from '../src/mockGraphApiServer';
+import { SupabaseService } from '../src/SupabaseService';
+import { FakeSupabase } from './fakeSupabase';
+
+const fixture: AccountFixture = require('../fixtures/demo_account.json');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROFILE_ID = 'profile-1';
+const USER_ID = 'user-1';
+
+// The Graph API URLs are read when the client module loads, so it is imported once the mock listens
+let InstagramGraphClient: typeof GraphClient;
+let JobProcessor: typeof Processor;
+let server: Server;
+
+before(async () => {
+  server = createMockGraphApiServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.WORKER_IG_GRAPH_API_URL = `http://127.0.0.1:${port}/v21.0`;
+  process.env.WORKER_IG_OAUTH_URL = `http://127.0.0.1:${port}`;
+
+  ({ InstagramGraphClient } = await import('../src/InstagramGraphClient'));
+  ({ JobProcessor } = await import('../src/JobProcessor'));
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const token = (expiresAt: number | null = Date.now() + 60 * DAY_MS): GraphToken => ({
+  access_token: 'mock:demo_account',
+  user_id: 'demo_account',
+  expires_at: expiresAt,
+});
+
+const isAppError = (code: string) => (error: unknown) => error instanceof AppError && error.code === code;
+
+describe('InstagramGraphClient error mapping', () => {
+  afterEach(() => mock.restoreAll());
+
+  const respondWith = (status: number, body: unknown) => {
+    mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify(body), { status }));
+  };
+
+  test('maps an invalid token (190) to SESSION_EXPIRED', async () => {
+    respondWith(400, { error: { code: 190, message: 'Error validating access token' } });
+    await assert.rejects(new InstagramGraphClient(token()).getAccount(), isAppError(ErrorCodes.SESSION_EXPIRED));
+  });
+
+  for (const code of [4, 17, 32, 613]) {
+    test(`maps Graph error ${code} to IG_RATE_LIMITED`, async () => {
+      respondWith(400, { error: { code, message: 'Application request limit reached' } });
+      await assert.rejects(new InstagramGraphClient(token()).getAccount(), isAppError(ErrorCodes.IG_RATE_LIMITED));
+    });
+  }
+
+  test('maps HTTP 429 to IG_RATE_LIMITED', async () => {
+    respondWith(429, {});
+    await assert.rejects(new InstagramGraphClient(token()).getAccount(), isAppError(ErrorCodes.IG_RATE_LIMITED));
+  });
+
+  test('maps other errors to IG_SCRAPE_FAILED', async () => {
+    respondWith(400, { error: { code: 100, message: 'Unsupported get request' } });
+    await assert.rejects(new InstagramGraphClient(token()).getAccount(), isAppError(ErrorCodes.IG_SCRAPE_FAILED));
+  });
+
+  test('maps network failures to SERVICE_UNAVAILABLE', async () => {
+    mock.method(globalThis, 'fetch', async () => {
+      throw new TypeError('fetch failed');
+    });
+    await assert.rejects(new InstagramGraphClient(token()).getAccount(), isAppError(ErrorCodes.SERVICE_UNAVAILABLE));
+  });
+
+  test('reports an invalid token as an expired session', async () => {
+    respondWith(400, { error: { code: 190, message: 'Error validating access token' } });
+    assert.equal(await new InstagramGraphClient(token()).checkSession(), false);
+  });
+});
+
+describe('InstagramGraphClient.needsRefresh', () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  test('refreshes tokens with less than a week left', () => {
+    assert.equal(InstagramGraphClient.needsRefresh(token(now + 6 * DAY_MS), now), true);
+    assert.equal(InstagramGraphClient.needsRefresh(token(now - DAY_MS), now), true);
+  });
+
+  test('keeps tokens with a week or more left', () => {
+    assert.equal(InstagramGraphClient.needsRefresh(token(now + 8 * DAY_MS), now), false);
+    assert.equal(InstagramGraphClient.needsRefresh(token(now + 7 * DAY_MS), now), false);
+  });
+
+  test('keeps tokens without an expiry', () => {
+    assert.equal(InstagramGraphClient.needsRefresh(token(null), now), false);
+  });
+});
+
+describe('InstagramGraphClient against the mock Graph API', () => {
+  let db: FakeSupabase;
+  let supabaseService: SupabaseService;
+
+  const runJob = async (jobType: SyncJob['job_type']) => {
+    const job = db.insertRow('sync_jobs', {
+      profile_id: PROFILE_ID,
+      user_id: USER_ID,
+      job_type: jobType,
+      status: 'RUNNING',
+      metadata: {},
+      worker_id: 'test-worker',
+      attempts: 1,
+      cancel_requested_at: null,
+    });
+    await new JobProcessor(supabaseService, {
+      workerId: 'test-worker',
+      leaseSeconds: 900,
+      interactionPosts: 12,
+      createDataSource: async () => new InstagramGraphClient(token()),
+    }).process({ ...job } as SyncJob);
+    return job;
+  };
+
+  beforeEach(() => {
+    db = new FakeSupabase();
+    supabaseService = new SupabaseService(db.client, 'ab'.repeat(32));
+    db.insertRow('profiles', {
+      id: PROFILE_ID,
+      user_id: USER_ID,
+      ig_username: 'demo_account',
+      connector: 'GRAPH_API',
+      followers_count: fixture.profile.followers_count,
+    });
+  });
+
+  test('refreshes the token for another 60 days', async () => {
+    const refreshed = await new InstagramGraphClient(token(Date.now() + DAY_MS)).refreshToken();
+    assert.equal(refreshed.access_token, 'mock:demo_account');
+    assert.ok(Math.abs((refreshed.expires_at as number) - (Date.now() + 60 * DAY_MS)) < 60000);
+  });
+
+  test('SYNC_PROFILE saves the account insights and demographics', async () => {
+    const job = await runJob('SYNC_PROFILE');
+    assert.equal(job.status, 'COMPLETED');
+
+    const reach = fixture.media.reduce((sum, m) => sum + m.likes_count * 8 + m.comments_count * 20, 0);
+    const [daily] = db.table('profile_insights_daily');
+    assert.equal(daily.reach, reach);
+    assert.equal(daily.impressions, Math.round(reach * 1.4));
+    assert.equal(daily.followers_count, fixture.profile.followers_count);
+
+    const demographics = db.table('audience_demographics');
+    assert.equal(demographics.length, 13);
+    assert.ok(demographics.every((row) => row.source === 'GRAPH_API' && row.date === daily.date));
+    const women = demographics.find((row) => row.breakdown === 'gender' && row.dimension === 'F');
+    assert.equal(women?.value, Math.round(fixture.profile.followers_count * 0.55));
+  });
+
+  test('SYNC_MEDIA saves the media insights on the metrics snapshots', async () => {
+    const job = await runJob('SYNC_MEDIA');
+    assert.equal(job.status, 'COMPLETED');
+    assert.equal(job.processed_items, fixture.media.length);
+
+    const media = db.table('media');
+    const metrics = db.table('media_metrics');
+    assert.equal(metrics.length, fixture.media.length);
+
+    for (const recorded of fixture.media) {
+      const post = media.find((row) => row.ig_media_id === recorded.media_id);
+      const metric = metrics.find((row) => row.media_id === post?.id);
+      const reach = recorded.likes_count * 8 + recorded.comments_count * 20;
+      const saves = Math.round(recorded.likes_count * 0.1);
+      const shares = Math.round(recorded.likes_count * 0.05);
+
+      assert.equal(metric?.reach, reach);
+      assert.equal(metric?.impressions, Math.round(reach * 1.4));
+      assert.equal(metric?.saves, saves);
+      assert.equal(metric?.shares, shares);
+      // Engagement is relative to reach when the Graph API reports it
+      const interactions = recorded.likes_count + recorded.comments_count + saves + shares;
+      assert.equal(metric?.engagement_rate, reach > 0 ? (interactions / reach) * 100 : 0);
+    }
+  });
+});
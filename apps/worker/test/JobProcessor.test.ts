@@ -0,0 +1,281 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { JOB_RETRY_POLICIES, JobProgressUpdate, SyncJob } from '@ig-analytics/shared';
+import { FixtureDataSource } from '../src/FixtureDataSource';
+import { ProgressCallback, ScrapedUser, UserListCheckpoint } from '../src/InstagramDataSource';
+import { JobProcessor } from '../src/JobProcessor';
+import { SupabaseService } from '../src/SupabaseService';
+import { FakeSupabase, Row } from './fakeSupabase';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures');
+const WORKER_ID = 'test-worker';
+const PROFILE_ID = 'profile-1';
+const USER_ID = 'user-1';
+
+/**
+ * Fixture source whose connection drops right after the first follower page was saved.
+ */
+class DroppingFixtureDataSource extends FixtureDataSource {
+  public async scrapeFollowers(
+    igUsername: string,
+    maxCount?: number,
+    onProgress?: ProgressCallback,
+    checkpoint?: UserListCheckpoint,
+    signal?: AbortSignal
+  ): Promise<{ followers: ScrapedUser[]; following: ScrapedUser[] }> {
+    return super.scrapeFollowers(igUsername, maxCount, async (update) => {
+      await onProgress?.(update);
+      throw new Error('socket hang up');
+    }, checkpoint, signal);
+  }
+}
+
+describe('JobProcessor with the demo_account fixture', () => {
+  let db: FakeSupabase;
+  let supabaseService: SupabaseService;
+  let progress: JobProgressUpdate[];
+
+  const createProcessor = (createSource: () => FixtureDataSource = () => new FixtureDataSource(FIXTURES_DIR)) =>
+    new JobProcessor(supabaseService, {
+      workerId: WORKER_ID,
+      leaseSeconds: 900,
+      interactionPosts: 12,
+      createDataSource: async () => createSource(),
+    });
+
+  /** Queues a job as claimed by this worker, like claim_next_sync_job does. */
+  const claimJob = (jobType: SyncJob['job_type']): SyncJob => {
+    const row = db.insertRow('sync_jobs', {
+      profile_id: PROFILE_ID,
+      user_id: USER_ID,
+      job_type: jobType,
+      status: 'RUNNING',
+      metadata: {},
+      worker_id: WORKER_ID,
+      attempts: 1,
+      cancel_requested_at: null,
+    });
+    return { ...row } as SyncJob;
+  };
+
+  const reclaimJob = (jobId: string): SyncJob => {
+    const row = db.table('sync_jobs').find((job) => job.id === jobId) as Row;
+    Object.assign(row, { status: 'RUNNING', worker_id: WORKER_ID, attempts: row.attempts + 1 });
+    return { ...row } as SyncJob;
+  };
+
+  const getJob = (jobId: string): Row => db.table('sync_jobs').find((job) => job.id === jobId) as Row;
+
+  beforeEach(async () => {
+    db = new FakeSupabase();
+    supabaseService = new SupabaseService(db.client, 'ab'.repeat(32));
+
+    progress = [];
+    const updateJobProgress = supabaseService.updateJobProgress.bind(supabaseService);
+    supabaseService.updateJobProgress = async (jobId, workerId, update) => {
+      progress.push(update);
+      await updateJobProgress(jobId, workerId, update);
+    };
+
+    db.insertRow('profiles', { id: PROFILE_ID, user_id: USER_ID, ig_username: 'demo_account', connector: 'SCRAPER' });
+    const session = await new FixtureDataSource(FIXTURES_DIR).login('demo_account', 'fixture-password');
+    await supabaseService.saveEncryptedSession(PROFILE_ID, USER_ID, session, 'VALID');
+  });
+
+  test('SYNC_PROFILE saves the scraped profile', async () => {
+    const job = claimJob('SYNC_PROFILE');
+    await createProcessor().process(job);
+
+    assert.equal(getJob(job.id).status, 'COMPLETED');
+    const profile = db.table('profiles')[0];
+    assert.equal(profile.followers_count, 72);
+    assert.equal(profile.following_count, 57);
+    assert.equal(profile.bio, 'Recorded fixture account for worker runs without Instagram.');
+    assert.ok(profile.last_sync_at);
+  });
+
+  test('SYNC_FOLLOWERS saves both lists and records the changes', async () => {
+    const job = claimJob('SYNC_FOLLOWERS');
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'COMPLETED');
+    const followers = db.table('followers');
+    assert.equal(followers.filter((f) => f.is_follower).length, 72);
+    assert.equal(followers.filter((f) => f.is_following).length, 57);
+    assert.equal(row.processed_items, followers.length);
+    assert.equal(db.table('follower_changes').filter((c) => c.change_type === 'NEW_FOLLOWER').length, 72);
+    assert.equal(db.table('followers_snapshots').length, 1);
+
+    // The checkpoint is cleared once the lists are committed
+    assert.equal(db.table('followers_staging').length, 0);
+    assert.equal(row.metadata.followers_checkpoint, undefined);
+  });
+
+  test('SYNC_FOLLOWERS records no changes when the lists did not change', async () => {
+    await createProcessor().process(claimJob('SYNC_FOLLOWERS'));
+    const changes = db.table('follower_changes').length;
+
+    const job = claimJob('SYNC_FOLLOWERS');
+    await createProcessor().process(job);
+
+    assert.equal(getJob(job.id).status, 'COMPLETED');
+    assert.equal(db.table('follower_changes').length, changes);
+    const latest = db.table('followers_snapshots').slice(-1)[0];
+    assert.equal(latest.new_followers, 0);
+    assert.equal(latest.lost_followers, 0);
+  });
+
+  test('SYNC_FOLLOWERS resumes from the checkpoint of an interrupted attempt', async () => {
+    const job = claimJob('SYNC_FOLLOWERS');
+    await createProcessor(() => new DroppingFixtureDataSource(FIXTURES_DIR)).process(job);
+
+    // The first page (50 followers) is staged and the job waits for its retry
+    const interrupted = getJob(job.id);
+    assert.equal(interrupted.status, 'PENDING');
+    assert.match(interrupted.error_message, /socket hang up/);
+    assert.deepEqual(interrupted.metadata.followers_checkpoint, { followers: { cursor: '50', complete: false } });
+    assert.equal(db.table('followers_staging').length, 50);
+    assert.equal(db.table('followers').length, 0);
+
+    progress = [];
+    await createProcessor().process(reclaimJob(job.id));
+
+    // Only the remaining page was scraped: the first followers update already counts 72
+    const followerPages = progress.filter((update) => update.phase === 'followers');
+    assert.deepEqual(followerPages.map((update) => update.processed_items), [72]);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'COMPLETED');
+    assert.equal(db.table('followers').filter((f) => f.is_follower).length, 72);
+    assert.equal(db.table('followers_staging').length, 0);
+    assert.equal(row.metadata.followers_checkpoint, undefined);
+  });
+
+  test('SYNC_FOLLOWERS drops its checkpoint when the last attempt fails', async () => {
+    const job = claimJob('SYNC_FOLLOWERS');
+    getJob(job.id).attempts = job.attempts = JOB_RETRY_POLICIES.SYNC_FOLLOWERS.maxAttempts;
+    await createProcessor(() => new DroppingFixtureDataSource(FIXTURES_DIR)).process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'DEAD');
+    assert.equal(db.table('followers_staging').length, 0);
+    assert.equal(row.metadata.followers_checkpoint, undefined);
+  });
+
+  test('SYNC_MEDIA saves the posts with a metrics snapshot each', async () => {
+    const job = claimJob('SYNC_MEDIA');
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'COMPLETED');
+    assert.equal(row.processed_items, 6);
+    const media = db.table('media');
+    assert.equal(media.length, 6);
+    assert.ok(media.every((post) => post.profile_id === PROFILE_ID));
+
+    const metrics = db.table('media_metrics');
+    assert.deepEqual(
+      metrics.map((metric) => metric.media_id).sort(),
+      media.map((post) => post.id).sort()
+    );
+  });
+
+  test('SYNC_INTERACTIONS saves the likers and comments of the recent posts', async () => {
+    await createProcessor().process(claimJob('SYNC_MEDIA'));
+    const job = claimJob('SYNC_INTERACTIONS');
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'COMPLETED');
+    const interactions = db.table('media_interactions');
+    assert.equal(row.processed_items, interactions.length);
+    assert.equal(interactions.filter((interaction) => interaction.interaction_type === 'LIKE').length, 4 * 14);
+    assert.ok(interactions.some((interaction) => interaction.interaction_type === 'COMMENT'));
+    assert.equal(db.table('comments').length, 4 * 4);
+    assert.ok(db.table('comments').every((comment) => comment.sentiment));
+
+    // The fixture has interactions for the 4 most recent of the 6 posts
+    const synced = db.table('media').filter((post) => post.interactions_synced_at);
+    assert.deepEqual(
+      synced.map((post) => post.ig_media_id).sort(),
+      ['3300000000000000002', '3300000000000000003', '3300000000000000004', '3300000000000000005']
+    );
+  });
+
+  test('SYNC_STORIES saves the live stories and their viewers', async () => {
+    const job = claimJob('SYNC_STORIES');
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'COMPLETED');
+    assert.equal(row.processed_items, 3);
+    const stories = db.table('media').filter((post) => post.media_type === 'STORY');
+    assert.equal(stories.length, 3);
+    assert.deepEqual(stories.map((story) => story.viewer_count), [5, 3, 0]);
+    assert.equal(db.table('story_viewers').length, 5 + 3);
+  });
+
+  test('DERIVE_METRICS saves daily insights and hashtag metrics from the posts only', async () => {
+    await createProcessor().process(claimJob('SYNC_PROFILE'));
+    await createProcessor().process(claimJob('SYNC_MEDIA'));
+    await createProcessor().process(claimJob('SYNC_STORIES'));
+    const job = claimJob('DERIVE_METRICS');
+    await createProcessor().process(job);
+
+    assert.equal(getJob(job.id).status, 'COMPLETED');
+    const posts = db.table('media').filter((post) => post.media_type !== 'STORY');
+    const engagement = posts.reduce((sum, post) => sum + post.likes_count + post.comments_count, 0);
+
+    const insights = db.table('profile_insights_daily');
+    assert.equal(insights.length, 1);
+    assert.equal(insights[0].followers_count, 72);
+    assert.ok(Math.abs(insights[0].engagement_rate - (engagement / posts.length / 72) * 100) < 1e-9);
+
+    // Story hashtags (#sunset is also on a story) don't count
+    const hashtags = new Map(db.table('hashtags_metrics').map((metric) => [metric.hashtag, metric]));
+    assert.equal(hashtags.get('#travel')?.usage_count, 2);
+    assert.equal(hashtags.get('#sunset')?.usage_count, 1);
+    assert.equal(hashtags.size, new Set(posts.flatMap((post) => post.hashtags)).size);
+  });
+
+  test('LOGIN rejects an OAuth code without its redirect URI', async () => {
+    const job = claimJob('LOGIN');
+    getJob(job.id).metadata = job.metadata = { connector: 'GRAPH_API', oauth_code: 'code' };
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'FAILED');
+    assert.match(row.error_message, /^INVALID_INPUT: Missing redirect_uri/);
+  });
+
+  test('RECONNECT completes while the stored session is valid', async () => {
+    const job = claimJob('RECONNECT');
+    await createProcessor().process(job);
+
+    assert.equal(getJob(job.id).status, 'COMPLETED');
+  });
+
+  test('RECONNECT rejects a 2FA code', async () => {
+    const job = claimJob('RECONNECT');
+    getJob(job.id).metadata = job.metadata = { two_fa_code: '123456' };
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'FAILED');
+    assert.match(row.error_message, /^INVALID_INPUT: RECONNECT jobs cannot complete a login/);
+  });
+
+  test('jobs fail with SESSION_EXPIRED when the profile has no session', async () => {
+    db.tables.ig_sessions = [];
+    const job = claimJob('SYNC_MEDIA');
+    await createProcessor().process(job);
+
+    const row = getJob(job.id);
+    assert.equal(row.status, 'FAILED');
+    assert.match(row.error_message, /^SESSION_EXPIRED/);
+    assert.equal(db.table('profiles')[0].connection_state, 'EXPIRED');
+    assert.equal(db.table('media').length, 0);
+  });
+});
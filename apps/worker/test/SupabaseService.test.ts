@@ -0,0 +1,32 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JOB_RETRY_POLICIES } from '@ig-analytics/shared';
+import { SupabaseService } from '../src/SupabaseService';
+import { FakeSupabase } from './fakeSupabase';
+
+describe('SupabaseService.reapExpiredJobs', () => {
+  test("passes each job type's attempts and backoff delays to the reaper", async () => {
+    const db = new FakeSupabase();
+    const calls: Array<{ name: string; args: any }> = [];
+    db.rpc = async (name: string, args?: any) => {
+      calls.push({ name, args });
+      return { data: 2, error: null };
+    };
+
+    const reaped = await new SupabaseService(db.client, 'ab'.repeat(32)).reapExpiredJobs();
+
+    assert.equal(reaped, 2);
+    assert.equal(calls[0].name, 'reap_expired_sync_jobs');
+    const policies = calls[0].args.p_retry_policies;
+    for (const [jobType, policy] of Object.entries(JOB_RETRY_POLICIES)) {
+      assert.equal(policies[jobType].max_attempts, policy.maxAttempts);
+      // One delay for each attempt that can still be followed by a retry
+      const delays: number[] = policies[jobType].retry_delays_ms;
+      assert.equal(delays.length, policy.maxAttempts - 1);
+      delays.forEach((delay, attempt) => {
+        const base = Math.min(policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt), policy.maxDelayMs);
+        assert.ok(delay >= base - 1 && delay <= Math.min(base * 1.1, policy.maxDelayMs) + 1, `${jobType} attempt ${attempt + 1}`);
+      });
+    }
+  });
+});
@@ -0,0 +1,256 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, any>;
+
+interface QueryResult {
+  data: any;
+  error: { message: string; code?: string } | null;
+}
+
+type Filter = (row: Row) => boolean;
+
+/**
+ * In-memory stand-in for the PostgREST part of a Supabase client: tables are arrays of
+ * rows, and the query builder supports the filters, ordering, paging and upsert
+ * conflict handling the worker uses. Every row gets an `id` and a `created_at` that
+ * increases in insertion order.
+ */
+export class FakeSupabase {
+  public readonly tables: Record<string, Row[]> = {};
+  private sequence = 0;
+
+  public get client(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+
+  public table(name: string): Row[] {
+    return (this.tables[name] ??= []);
+  }
+
+  public from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  public async rpc(name: string): Promise<QueryResult> {
+    return { data: null, error: { message: `rpc ${name} is not available in tests` } };
+  }
+
+  /** Inserts a row as is, adding the generated columns it lacks. */
+  public insertRow(table: string, row: Row): Row {
+    this.sequence++;
+    const stored = {
+      id: `${table}-${this.sequence}`,
+      created_at: new Date(Date.UTC(2026, 0, 1) + this.sequence).toISOString(),
+      ...row,
+    };
+    this.table(table).push(stored);
+    return stored;
+  }
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private columns: string[] | null = null;
+  private returning = false;
+  private values: Row[] = [];
+  private onConflict: string[] = ['id'];
+  private ignoreDuplicates = false;
+  private readonly filters: Filter[] = [];
+  private readonly orders: Array<{ column: string; ascending: boolean }> = [];
+  private offset = 0;
+  private limitCount: number | null = null;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: FakeSupabase, private readonly tableName: string) {}
+
+  public select(columns = '*'): this {
+    if (this.operation === 'select') {
+      this.columns = parseColumns(columns);
+    } else {
+      this.returning = true;
+      this.columns = parseColumns(columns);
+    }
+    return this;
+  }
+
+  public insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  public upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = options.onConflict ? options.onConflict.split(',').map((c) => c.trim()) : ['id'];
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  public update(values: Row): this {
+    this.operation = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  public delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  public eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  public neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  public in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  public is(column: string, value: null): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  public lt(column: string, value: any): this {
+    this.filters.push((row) => row[column] < value);
+    return this;
+  }
+
+  public lte(column: string, value: any): this {
+    this.filters.push((row) => row[column] <= value);
+    return this;
+  }
+
+  public gt(column: string, value: any): this {
+    this.filters.push((row) => row[column] > value);
+    return this;
+  }
+
+  public gte(column: string, value: any): this {
+    this.filters.push((row) => row[column] >= value);
+    return this;
+  }
+
+  public order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  public limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  public range(from: number, to: number): this {
+    this.offset = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  public single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  public maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  public then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const rows = this.run();
+    const projected = rows.map((row) => this.project(row));
+
+    if (this.cardinality === 'many') {
+      return { data: this.operation === 'select' || this.returning ? projected : null, error: null };
+    }
+    if (projected.length === 1) {
+      return { data: projected[0], error: null };
+    }
+    if (projected.length === 0 && this.cardinality === 'maybeSingle') {
+      return { data: null, error: null };
+    }
+    return {
+      data: null,
+      error: { code: 'PGRST116', message: `JSON object requested, ${projected.length} rows returned` },
+    };
+  }
+
+  private run(): Row[] {
+    const table = this.db.table(this.tableName);
+    const matches = (row: Row) => this.filters.every((filter) => filter(row));
+
+    switch (this.operation) {
+      case 'select': {
+        const rows = table.filter(matches);
+        for (const { column, ascending } of [...this.orders].reverse()) {
+          rows.sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+        }
+        return rows.slice(this.offset, this.limitCount === null ? undefined : this.offset + this.limitCount);
+      }
+
+      case 'insert':
+        return this.values.map((row) => this.db.insertRow(this.tableName, row));
+
+      case 'upsert': {
+        const affected: Row[] = [];
+        for (const row of this.values) {
+          const existing = table.find((stored) => this.onConflict.every((column) => stored[column] === row[column]));
+          if (!existing) {
+            affected.push(this.db.insertRow(this.tableName, row));
+          } else if (!this.ignoreDuplicates) {
+            Object.assign(existing, row);
+            affected.push(existing);
+          }
+        }
+        return affected;
+      }
+
+      case 'update': {
+        const rows = table.filter(matches);
+        rows.forEach((row) => Object.assign(row, this.values[0]));
+        return rows;
+      }
+
+      case 'delete': {
+        const rows = table.filter(matches);
+        this.db.tables[this.tableName] = table.filter((row) => !matches(row));
+        return rows;
+      }
+    }
+  }
+
+  private project(row: Row): Row {
+    if (!this.columns || this.columns.includes('*')) {
+      return { ...row };
+    }
+    return Object.fromEntries(this.columns.map((column) => [column, row[column] ?? null]));
+  }
+}
+
+function parseColumns(columns: string): string[] {
+  return columns.split(',').map((column) => column.trim()).filter(Boolean);
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+}
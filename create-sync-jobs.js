@@ -19,30 +19,19 @@ const supabase = createClient(
   
   console.log('Profile found:', JSON.stringify(data, null, 2));
   
-  // Create sync jobs
-  const jobs = [
-    { job_type: 'SYNC_PROFILE' },
-    { job_type: 'SYNC_FOLLOWERS' },
-    { job_type: 'SYNC_MEDIA' },
-    { job_type: 'DERIVE_METRICS' },
-  ];
+  // Create a sync pipeline (SYNC_PROFILE -> SYNC_FOLLOWERS, SYNC_MEDIA -> DERIVE_METRICS)
+  const { data: pipelineId, error: pipelineError } = await supabase.rpc('enqueue_sync_pipeline', {
+    p_profile_id: data.id,
+    p_user_id: data.user_id,
+    p_triggered_by: 'MANUAL',
+  });
   
-  for (const job of jobs) {
-    const { error: jobError } = await supabase.from('sync_jobs').insert({
-      profile_id: data.id,
-      user_id: data.user_id,
-      job_type: job.job_type,
-      status: 'PENDING',
-      metadata: {},
-    });
-    
-    if (jobError) {
-      console.error('Error creating job:', job.job_type, jobError);
-    } else {
-      console.log('✓ Created job:', job.job_type);
-    }
+  if (pipelineError) {
+    console.error('Error creating sync pipeline:', pipelineError);
+    process.exit(1);
   }
   
+  console.log('✓ Created sync pipeline:', pipelineId);
   console.log('\n✅ All sync jobs created! Worker will process them automatically.');
   process.exit(0);
 })();
@@ -18,11 +18,20 @@ export interface Profile {
   profile_pic_url: string;
   is_verified: boolean;
   connection_state: 'CONNECTED' | 'EXPIRED' | 'NEEDS_2FA' | 'DISCONNECTED';
+  connector: IgConnector;
+  account_type: 'PERSONAL' | 'BUSINESS' | 'CREATOR' | null;
+  timezone: string;
   last_sync_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * How the worker reads a profile's data: SCRAPER drives a logged-in browser session,
+ * GRAPH_API uses the official API with an OAuth token (Business/Creator accounts only).
+ */
+export type IgConnector = 'SCRAPER' | 'GRAPH_API';
+
 export interface IGSession {
   id: string;
   user_id: string;
@@ -34,6 +43,18 @@ export interface IGSession {
   updated_at: string;
 }
 
+export interface IGGraphToken {
+  id: string;
+  user_id: string;
+  profile_id: string;
+  ig_account_id: string;
+  access_token_encrypted: string;
+  token_expires_at: string | null;
+  state: 'VALID' | 'EXPIRED' | 'REVOKED';
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Follower {
   id: string;
   profile_id: string;
@@ -42,10 +63,43 @@ export interface Follower {
   follower_name: string;
   follower_pic_url: string;
   is_following_back: boolean;
+  follower_following_count: number | null; // Accounts the follower follows, when the source reports it
+  quality_score: number | null; // 0-100, higher is more likely a ghost or bot; null until scored
+  quality_level: FollowerQualityLevel | null;
+  quality_flags: FollowerQualityFlag[];
+  quality_scored_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Signals behind a follower's quality score.
+ */
+export type FollowerQualityFlag =
+  | 'NO_PROFILE_PIC'
+  | 'DIGIT_HEAVY_USERNAME'
+  | 'NO_DISPLAY_NAME'
+  | 'PRIVATE_MASS_FOLLOWING'
+  | 'NO_INTERACTIONS';
+
+export type FollowerQualityLevel = 'OK' | 'LOW_QUALITY' | 'GHOST';
+
+/**
+ * Audience quality of one day's scoring, kept so it can be followed over time.
+ */
+export interface FollowerQualitySnapshot {
+  id: string;
+  profile_id: string;
+  date: string;
+  method: string;
+  scored_followers: number;
+  low_quality_count: number;
+  ghost_count: number;
+  avg_score: number;
+  flag_counts: Partial<Record<FollowerQualityFlag, number>>;
+  created_at: string;
+}
+
 export interface FollowerSnapshot {
   id: string;
   profile_id: string;
@@ -57,6 +111,29 @@ export interface FollowerSnapshot {
   created_at: string;
 }
 
+/**
+ * A follower as of a past snapshot (followers_at function).
+ */
+export interface HistoricalFollower {
+  snapshot_captured_at: string;
+  follower_ig_id: string;
+  follower_username: string;
+  follower_name: string | null; // Only known for accounts still in followers
+  follower_pic_url: string | null;
+  is_following: boolean; // Followed back by the profile in that snapshot
+}
+
+/**
+ * An account that changed between two snapshots (followers_diff function).
+ */
+export interface FollowerSetChange {
+  change_type: 'NEW_FOLLOWER' | 'UNFOLLOWED' | 'STARTED_FOLLOWING' | 'STOPPED_FOLLOWING';
+  follower_ig_id: string;
+  follower_username: string;
+  from_captured_at: string;
+  to_captured_at: string;
+}
+
 export interface Media {
   id: string;
   profile_id: string;
@@ -66,16 +143,91 @@ export interface Media {
   media_url: string;
   permalink: string;
   timestamp: string;
+  /** Stories only: when the story expires on Instagram. */
+  expires_at: string | null;
+  /** Stories only: viewers at the last capture. */
+  viewer_count: number | null;
+  /** Stories only: path of the asset copy in the 'stories' storage bucket. */
+  storage_path: string | null;
+  /** Posts only: when likers and commenters were last collected into media_interactions. */
+  interactions_synced_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StoryViewer {
+  id: string;
+  media_id: string;
+  profile_id: string;
+  viewer_ig_id: string;
+  viewer_username: string;
+  viewer_full_name: string | null;
+  first_seen_at: string;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * An account that liked or commented on one of the profile's posts.
+ */
+export interface MediaInteraction {
+  id: string;
+  media_id: string;
+  profile_id: string;
+  account_ig_id: string;
+  account_username: string;
+  account_full_name: string | null;
+  interaction_type: 'LIKE' | 'COMMENT';
+  interaction_count: number; // Comments by the account on the post; 1 for a like
+  last_interaction_at: string | null; // Latest comment; Instagram doesn't date likes
+  first_seen_at: string;
+  updated_at: string;
+}
+
+/**
+ * Interactions of one account across the profile's tracked posts (account_engagement view).
+ */
+export interface AccountEngagement {
+  profile_id: string;
+  account_ig_id: string;
+  account_username: string;
+  likes: number;
+  comments: number;
+  posts_engaged: number;
+  last_interaction_at: string | null;
+  is_follower: boolean;
+}
+
+export type CommentSentiment = 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE';
+
+export type CommentTopic = 'QUESTION' | 'PURCHASE_INTENT' | 'LOCATION' | 'REQUEST' | 'COMPLAINT';
+
+export interface Comment {
+  id: string;
+  media_id: string;
+  profile_id: string;
+  ig_comment_id: string;
+  author_ig_id: string;
+  author_username: string;
+  text: string;
+  commented_at: string;
+  language: 'pt' | 'en' | null; // null when neither lexicon recognises the text
+  sentiment: CommentSentiment;
+  sentiment_score: number; // -1 (most negative) to 1 (most positive)
+  sentiment_method: string;
+  topics: CommentTopic[];
+  keywords: string[]; // Normalised content words, stopwords removed
+  first_seen_at: string;
+  updated_at: string;
+}
+
 export interface MediaMetrics {
   id: string;
   media_id: string;
   profile_id: string;
   likes: number;
   comments: number;
+  video_views: number | null;
   saves: number;
   shares: number;
   reach: number;
@@ -98,13 +250,42 @@ export interface ProfileInsightsDaily {
   created_at: string;
 }
 
+export interface AudienceDemographic {
+  id: string;
+  profile_id: string;
+  date: string;
+  breakdown: 'age' | 'gender' | 'city' | 'country' | 'language';
+  dimension: string;
+  value: number;
+  source: 'GRAPH_API' | 'ESTIMATED';
+  sample_size: number | null; // ESTIMATED only: followers the estimate was made from
+  method: string | null; // ESTIMATED only: see DemographicsEstimate.method
+  created_at: string;
+}
+
+export interface HourlyEngagementMetric {
+  id: string;
+  profile_id: string;
+  day_of_week: number; // 0-6 (Monday-Sunday), in the profile's timezone
+  hour_of_day: number; // 0-23
+  post_count: number;
+  engagement_count: number;
+  avg_engagement: number;
+  timezone: string;
+  updated_at: string;
+}
+
 export interface HashtagMetrics {
   id: string;
   profile_id: string;
+  user_id: string;
   hashtag: string;
+  derived_on: string; // Date of the derivation; one row per hashtag and day
   usage_count: number;
   total_engagement: number;
-  avg_engagement_per_post: number;
+  avg_engagement: number; // total_engagement / usage_count
+  first_used: string | null;
+  last_used: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -113,13 +294,61 @@ export interface SyncJob {
   id: string;
   profile_id: string;
   user_id: string;
-  job_type: 'LOGIN' | 'RECONNECT' | 'SYNC_PROFILE' | 'SYNC_FOLLOWERS' | 'SYNC_MEDIA' | 'SYNC_STORIES' | 'DERIVE_METRICS';
-  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  job_type: 'LOGIN' | 'RECONNECT' | 'SYNC_PROFILE' | 'SYNC_FOLLOWERS' | 'SYNC_MEDIA' | 'SYNC_INTERACTIONS' | 'SYNC_STORIES' | 'DERIVE_METRICS';
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'DEAD' | 'SKIPPED' | 'CANCELLED';
   started_at: string | null;
   finished_at: string | null;
   processed_items: number;
   error_message: string | null;
   metadata: Record<string, unknown>;
+  worker_id: string | null;
+  lease_expires_at: string | null;
+  heartbeat_at: string | null;
+  attempts: number;
+  next_run_at: string;
+  pipeline_id: string | null;
+  depends_on: string[];
+  cancel_requested_at: string | null;
+  progress: JobProgress | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Incremental progress of a running job, published by the worker while it scrapes.
+ */
+export interface JobProgress {
+  phase: string; // e.g. 'followers', 'following', 'media', 'saving'
+  processed_items: number;
+  total_items: number | null; // Estimate; null when Instagram doesn't report a count
+  cursor: string | null; // Pagination cursor of the last page fetched
+  updated_at: string;
+}
+
+export type JobProgressUpdate = Omit<JobProgress, 'updated_at'>;
+
+export interface SyncPipeline {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'PARTIAL' | 'FAILED';
+  triggered_by: 'MANUAL' | 'LOGIN' | 'SCHEDULE';
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SyncSchedule {
+  id: string;
+  profile_id: string;
+  user_id: string;
+  job_type: 'SYNC_FOLLOWERS' | 'SYNC_MEDIA' | 'SYNC_INTERACTIONS' | 'SYNC_STORIES' | 'DERIVE_METRICS';
+  interval_hours: number;
+  run_at_local_time: string | null;
+  enabled: boolean;
+  last_enqueued_at: string | null;
+  next_run_at: string;
   created_at: string;
   updated_at: string;
 }
@@ -154,10 +383,71 @@ export interface LoginJobPayload extends JobPayload {
   two_fa_code?: string;
 }
 
+/**
+ * Metadata of a LOGIN job: the credentials entered for the scraper, or the OAuth code
+ * of a Business/Creator account connecting through the Graph API.
+ */
+export interface LoginJobMetadata {
+  username?: string;
+  password?: string;
+  two_fa_code?: string | null;
+  connector?: 'GRAPH_API';
+  oauth_code?: string;
+  /** The redirect URI the OAuth code was issued for; the code exchange must repeat it. */
+  redirect_uri?: string;
+}
+
 export interface SyncJobPayload extends JobPayload {
-  job_type: 'SYNC_PROFILE' | 'SYNC_FOLLOWERS' | 'SYNC_MEDIA' | 'SYNC_STORIES' | 'DERIVE_METRICS';
+  job_type: 'SYNC_PROFILE' | 'SYNC_FOLLOWERS' | 'SYNC_MEDIA' | 'SYNC_INTERACTIONS' | 'SYNC_STORIES' | 'DERIVE_METRICS';
+}
+
+/**
+ * How often a failed job is retried before it is marked DEAD.
+ * Delays follow the same exponential backoff as `retryWithBackoff`.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+}
+
+export const JOB_RETRY_POLICIES: Record<SyncJob['job_type'], RetryPolicy> = {
+  // A failed login needs new input from the user (password, 2FA code); never retry it
+  LOGIN: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, backoffMultiplier: 1 },
+  RECONNECT: { maxAttempts: 2, initialDelayMs: 60000, maxDelayMs: 60000, backoffMultiplier: 1 },
+  SYNC_PROFILE: { maxAttempts: 3, initialDelayMs: 60000, maxDelayMs: 900000, backoffMultiplier: 3 },
+  // Follower pagination is what trips Instagram's rate limits most; back off further
+  SYNC_FOLLOWERS: { maxAttempts: 5, initialDelayMs: 300000, maxDelayMs: 7200000, backoffMultiplier: 3 },
+  SYNC_MEDIA: { maxAttempts: 4, initialDelayMs: 120000, maxDelayMs: 3600000, backoffMultiplier: 3 },
+  SYNC_INTERACTIONS: { maxAttempts: 4, initialDelayMs: 120000, maxDelayMs: 3600000, backoffMultiplier: 3 },
+  SYNC_STORIES: { maxAttempts: 3, initialDelayMs: 120000, maxDelayMs: 1800000, backoffMultiplier: 3 },
+  DERIVE_METRICS: { maxAttempts: 3, initialDelayMs: 30000, maxDelayMs: 600000, backoffMultiplier: 2 },
+};
+
+/**
+ * Instagram requests are budgeted per account and per class of endpoint:
+ * GRAPHQL for the paginated API calls, PAGE_VIEW for full page navigations.
+ */
+export type IgEndpointClass = 'GRAPHQL' | 'PAGE_VIEW';
+
+/**
+ * Token bucket of an endpoint class. `burst` requests can be sent back to back, then the
+ * bucket refills at `perHour`; `perDay` caps the total over a rolling day. After Instagram
+ * answers 429 or "please wait", the class is blocked for `cooldownSeconds`.
+ */
+export interface RateLimitPolicy {
+  burst: number;
+  perHour: number;
+  perDay: number;
+  cooldownSeconds: number;
 }
 
+export const IG_RATE_LIMIT_POLICIES: Record<IgEndpointClass, RateLimitPolicy> = {
+  GRAPHQL: { burst: 10, perHour: 200, perDay: 2000, cooldownSeconds: 1800 },
+  PAGE_VIEW: { burst: 5, perHour: 120, perDay: 1000, cooldownSeconds: 900 },
+};
+
 // ============================================
 // API Response Types
 // ============================================
@@ -196,24 +486,25 @@ export interface EngagementHeatmapData {
   engagement: number;
 }
 
+/**
+ * Audience composition estimated from the followers list (names and usernames), for
+ * accounts without Graph API demographics. Counts are numbers of followers.
+ */
 export interface DemographicsEstimate {
+  method: string;
+  sample_size: number;
   gender: {
     male: number;
     female: number;
     unknown: number;
   };
-  age_groups: {
-    '13-17': number;
-    '18-24': number;
-    '25-34': number;
-    '35-44': number;
-    '45-54': number;
-    '55-64': number;
-    '65+': number;
-  };
+  languages: Array<{
+    language: string; // ISO 639-1 code, or 'unknown'
+    count: number;
+  }>;
   top_locations: Array<{
-    location: string;
-    percentage: number;
+    location: string; // ISO 3166-1 alpha-2 country code, or 'unknown'
+    count: number;
   }>;
 }
 
@@ -276,6 +567,12 @@ export const ErrorCodes = {
   IG_RATE_LIMITED: 'IG_RATE_LIMITED',
   IG_SCRAPE_FAILED: 'IG_SCRAPE_FAILED',
 
+  // Job queue errors
+  JOB_LEASE_EXPIRED: 'JOB_LEASE_EXPIRED',
+  JOB_DEPENDENCY_FAILED: 'JOB_DEPENDENCY_FAILED',
+  JOB_CANCELLED: 'JOB_CANCELLED',
+  JOB_DEFERRED: 'JOB_DEFERRED',
+
   // Database errors
   DATABASE_ERROR: 'DATABASE_ERROR',
   NOT_FOUND: 'NOT_FOUND',
@@ -287,3 +584,14 @@ export const ErrorCodes = {
 } as const;
 
 export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+/**
+ * Error codes caused by transient conditions; jobs failing with these are retried.
+ * Errors that are not an AppError (network failures, browser crashes) are retried as well.
+ */
+export const RETRYABLE_ERROR_CODES: string[] = [
+  ErrorCodes.IG_RATE_LIMITED,
+  ErrorCodes.IG_SCRAPE_FAILED,
+  ErrorCodes.DATABASE_ERROR,
+  ErrorCodes.SERVICE_UNAVAILABLE,
+];
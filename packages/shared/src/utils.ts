@@ -9,27 +9,38 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+export interface BackoffOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+}
+
 /**
- * Retry a function with exponential backoff
+ * Calculate the delay before retry number `attempt` (0-based) with exponential backoff
+ * and 10% jitter. Used by retryWithBackoff and by the worker to reschedule failed jobs.
  */
-export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  options: {
-    maxRetries?: number;
-    initialDelayMs?: number;
-    maxDelayMs?: number;
-    backoffMultiplier?: number;
-  } = {}
-): Promise<T> {
+export function getBackoffDelayMs(attempt: number, options: BackoffOptions = {}): number {
   const {
-    maxRetries = 3,
     initialDelayMs = 1000,
     maxDelayMs = 30000,
     backoffMultiplier = 2,
   } = options;
 
+  const delayMs = Math.min(initialDelayMs * Math.pow(backoffMultiplier, attempt), maxDelayMs);
+  const jitter = Math.random() * 0.1 * delayMs; // 10% jitter
+  return Math.min(delayMs + jitter, maxDelayMs);
+}
+
+/**
+ * Retry a function with exponential backoff
+ */
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  options: BackoffOptions & { maxRetries?: number } = {}
+): Promise<T> {
+  const { maxRetries = 3 } = options;
+
   let lastError: Error | undefined;
-  let delayMs = initialDelayMs;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
@@ -41,12 +52,7 @@ export async function retryWithBackoff<T>(
         break;
       }
 
-      // Calculate delay with exponential backoff
-      const jitter = Math.random() * 0.1 * delayMs; // 10% jitter
-      const waitTime = Math.min(delayMs + jitter, maxDelayMs);
-
-      await sleep(waitTime);
-      delayMs = Math.min(delayMs * backoffMultiplier, maxDelayMs);
+      await sleep(getBackoffDelayMs(attempt, options));
     }
   }
 
@@ -6,16 +6,31 @@
 -- Ensure the 'public' schema is used
 SET search_path = public;
 
--- Drop existing tables if they exist (in reverse dependency order)
+-- Drop existing views and tables if they exist (in reverse dependency order)
+DROP VIEW IF EXISTS account_engagement;
+DROP VIEW IF EXISTS post_lifecycle_observations;
+DROP VIEW IF EXISTS hashtags_metrics_latest;
 DROP TABLE IF EXISTS alerts CASCADE;
+DROP TABLE IF EXISTS ig_rate_limit_events CASCADE;
+DROP TABLE IF EXISTS ig_rate_limit_buckets CASCADE;
+DROP TABLE IF EXISTS followers_staging CASCADE;
+DROP TABLE IF EXISTS sync_schedules CASCADE;
 DROP TABLE IF EXISTS sync_jobs CASCADE;
+DROP TABLE IF EXISTS sync_pipelines CASCADE;
 DROP TABLE IF EXISTS hashtags_metrics CASCADE;
+DROP TABLE IF EXISTS hourly_engagement_metrics CASCADE;
+DROP TABLE IF EXISTS audience_demographics CASCADE;
 DROP TABLE IF EXISTS profile_insights_daily CASCADE;
 DROP TABLE IF EXISTS media_metrics CASCADE;
+DROP TABLE IF EXISTS comments CASCADE;
+DROP TABLE IF EXISTS media_interactions CASCADE;
+DROP TABLE IF EXISTS story_viewers CASCADE;
 DROP TABLE IF EXISTS media CASCADE;
+DROP TABLE IF EXISTS follower_quality_snapshots CASCADE;
 DROP TABLE IF EXISTS follower_changes CASCADE;
 DROP TABLE IF EXISTS followers_snapshots CASCADE;
 DROP TABLE IF EXISTS followers CASCADE;
+DROP TABLE IF EXISTS ig_graph_tokens CASCADE;
 DROP TABLE IF EXISTS ig_sessions CASCADE;
 DROP TABLE IF EXISTS profiles CASCADE;
 
@@ -32,6 +47,9 @@ CREATE TABLE profiles (
     profile_pic_url text,
     is_verified boolean DEFAULT FALSE NOT NULL,
     connection_state text DEFAULT 'DISCONNECTED' NOT NULL, -- VALID, EXPIRED, NEEDS_2FA, DISCONNECTED
+    connector text DEFAULT 'SCRAPER' NOT NULL, -- SCRAPER (browser session), GRAPH_API (OAuth token)
+    account_type text, -- PERSONAL, BUSINESS, CREATOR; known once connected through the Graph API
+    timezone text DEFAULT 'UTC' NOT NULL, -- IANA time zone name, used for scheduled syncs
     last_sync_at timestamp with time zone,
     created_at timestamp with time zone DEFAULT now() NOT NULL,
     updated_at timestamp with time zone DEFAULT now() NOT NULL,
@@ -108,6 +126,41 @@ TO authenticated
 USING (auth.uid() = user_id);
 
 
+-- 2b. Table: ig_graph_tokens
+-- Stores encrypted Instagram Graph API tokens of Business/Creator profiles (GRAPH_API connector)
+CREATE TABLE ig_graph_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    ig_account_id text NOT NULL, -- Instagram professional account id used in Graph API calls
+    access_token_encrypted text NOT NULL, -- Encrypted JSON of the long-lived access token
+    token_expires_at timestamp with time zone,
+    state text DEFAULT 'VALID' NOT NULL, -- VALID, EXPIRED, REVOKED
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (profile_id)
+);
+
+-- RLS: Users can see and remove their own tokens; only the worker stores them
+ALTER TABLE ig_graph_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON ig_graph_tokens FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow delete for authenticated users based on user_id"
+ON ig_graph_tokens FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON ig_graph_tokens FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+
 -- 3. Table: followers
 -- Stores the current list of followers and following
 CREATE TABLE followers (
@@ -123,6 +176,11 @@ CREATE TABLE followers (
     is_follower boolean DEFAULT FALSE NOT NULL, -- True if this user follows the profile
     is_following boolean DEFAULT FALSE NOT NULL, -- True if the profile is following this user
     is_following_back boolean DEFAULT FALSE NOT NULL, -- True if both follow each other
+    follower_following_count integer, -- Accounts this user follows, when the source reports it
+    quality_score smallint CHECK (quality_score BETWEEN 0 AND 100), -- Ghost/bot likelihood, set by DERIVE_METRICS
+    quality_level text, -- OK, LOW_QUALITY, GHOST
+    quality_flags text[] DEFAULT '{}' NOT NULL, -- Signals behind quality_score, e.g. NO_PROFILE_PIC
+    quality_scored_at timestamp with time zone,
     created_at timestamp with time zone DEFAULT now() NOT NULL,
     updated_at timestamp with time zone DEFAULT now() NOT NULL,
     UNIQUE (profile_id, follower_ig_id)
@@ -168,7 +226,7 @@ CREATE TABLE followers_snapshots (
     new_followers integer DEFAULT 0 NOT NULL,
     lost_followers integer DEFAULT 0 NOT NULL,
     non_followers integer DEFAULT 0 NOT NULL, -- Following but not following back
-    snapshot_data jsonb, -- Store the list of follower IDs for diffing
+    snapshot_data jsonb, -- {follower_ids, following_ids} at capture; read by followers_at and followers_diff
     created_at timestamp with time zone DEFAULT now() NOT NULL
 );
 
@@ -227,6 +285,38 @@ ON follower_changes FOR DELETE
 TO service_role
 USING (TRUE);
 
+-- 4c. Table: follower_quality_snapshots
+-- Audience quality per DERIVE_METRICS day: how many followers were scored as low quality
+-- or ghosts, and which signals fired, so quality can be audited over time
+CREATE TABLE follower_quality_snapshots (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    date date NOT NULL,
+    method text NOT NULL, -- Scoring heuristics version, e.g. QUALITY_HEURISTICS_V1
+    scored_followers integer NOT NULL,
+    low_quality_count integer NOT NULL,
+    ghost_count integer NOT NULL,
+    avg_score numeric NOT NULL,
+    flag_counts jsonb DEFAULT '{}' NOT NULL, -- Followers per flag, e.g. {"NO_PROFILE_PIC": 120}
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (profile_id, date)
+);
+
+-- RLS: Users can only see their own quality snapshots
+ALTER TABLE follower_quality_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON follower_quality_snapshots FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON follower_quality_snapshots FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
 
 -- 5. Table: media
 -- Stores posts, reels, and stories metadata
@@ -246,6 +336,10 @@ CREATE TABLE media (
     comments_count integer DEFAULT 0 NOT NULL,
     video_views integer,
     timestamp timestamp with time zone NOT NULL,
+    expires_at timestamp with time zone, -- Stories only: when the story leaves Instagram (24h after posting)
+    viewer_count integer, -- Stories only: viewers at the last capture
+    storage_path text, -- Stories only: copy of the asset in the 'stories' storage bucket
+    interactions_synced_at timestamp with time zone, -- Posts only: last collection of likers and commenters
     created_at timestamp with time zone DEFAULT now() NOT NULL,
     updated_at timestamp with time zone DEFAULT now() NOT NULL
 );
@@ -278,8 +372,147 @@ TO service_role
 USING (TRUE);
 
 
+-- 5b. Table: story_viewers
+-- Viewers of the profile's own stories, as listed by Instagram while the story is live
+CREATE TABLE story_viewers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_id uuid REFERENCES media(id) ON DELETE CASCADE NOT NULL,
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    viewer_ig_id text NOT NULL,
+    viewer_username text NOT NULL,
+    viewer_full_name text,
+    first_seen_at timestamp with time zone DEFAULT now() NOT NULL, -- First capture listing this viewer
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (media_id, viewer_ig_id)
+);
+
+-- Index for viewer lookups across stories
+CREATE INDEX idx_story_viewers_profile_viewer ON story_viewers (profile_id, viewer_ig_id);
+
+-- RLS: Users can only see the viewers of their own stories
+ALTER TABLE story_viewers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON story_viewers FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON story_viewers FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+-- Story assets live in the private 'stories' bucket under <user_id>/<profile_id>/;
+-- users may read (and sign URLs for) the objects in their own folder
+DROP POLICY IF EXISTS "Allow select of own story assets" ON storage.objects;
+CREATE POLICY "Allow select of own story assets"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'stories' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+
+-- 5c. Table: media_interactions
+-- Accounts that liked or commented on the profile's recent posts, collected by SYNC_INTERACTIONS
+CREATE TABLE media_interactions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_id uuid REFERENCES media(id) ON DELETE CASCADE NOT NULL,
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    account_ig_id text NOT NULL,
+    account_username text NOT NULL,
+    account_full_name text,
+    interaction_type text NOT NULL, -- LIKE, COMMENT
+    interaction_count integer DEFAULT 1 NOT NULL, -- Comments by the account on the post; 1 for a like
+    last_interaction_at timestamp with time zone, -- Latest comment; Instagram doesn't date likes
+    first_seen_at timestamp with time zone DEFAULT now() NOT NULL, -- First collection listing this interaction
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (media_id, account_ig_id, interaction_type)
+);
+
+-- Index for per-account aggregation across posts
+CREATE INDEX idx_media_interactions_profile_account ON media_interactions (profile_id, account_ig_id);
+
+-- RLS: Users can only see the interactions on their own posts
+ALTER TABLE media_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON media_interactions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON media_interactions FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+-- 5d. View: account_engagement
+-- Likes and comments of each account across the profile's tracked posts, joined with
+-- whether it follows the profile, for the Followers page's fan and prospect rankings.
+-- security_invoker applies the RLS of media_interactions and followers to the querying user.
+CREATE VIEW account_engagement WITH (security_invoker = true) AS
+SELECT
+    interactions.profile_id,
+    interactions.account_ig_id,
+    (array_agg(interactions.account_username ORDER BY interactions.updated_at DESC))[1] AS account_username,
+    count(*) FILTER (WHERE interactions.interaction_type = 'LIKE') AS likes,
+    coalesce(sum(interactions.interaction_count) FILTER (WHERE interactions.interaction_type = 'COMMENT'), 0) AS comments,
+    count(DISTINCT interactions.media_id) AS posts_engaged,
+    max(interactions.last_interaction_at) AS last_interaction_at,
+    coalesce(bool_or(followers.is_follower), FALSE) AS is_follower
+FROM media_interactions interactions
+LEFT JOIN followers
+    ON followers.profile_id = interactions.profile_id
+    AND followers.follower_ig_id = interactions.account_ig_id
+GROUP BY interactions.profile_id, interactions.account_ig_id;
+
+-- 5e. Table: comments
+-- Text of the comments collected by SYNC_INTERACTIONS on the profile's recent posts, classified
+-- offline (lexicon-based, Portuguese and English) when saved
+CREATE TABLE comments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_id uuid REFERENCES media(id) ON DELETE CASCADE NOT NULL,
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    ig_comment_id text NOT NULL,
+    author_ig_id text NOT NULL,
+    author_username text NOT NULL,
+    text text NOT NULL,
+    commented_at timestamp with time zone NOT NULL,
+    language text, -- pt, en; NULL when neither lexicon recognises the text
+    sentiment text NOT NULL, -- POSITIVE, NEUTRAL, NEGATIVE
+    sentiment_score numeric(4, 3) NOT NULL, -- -1 (most negative) to 1 (most positive)
+    sentiment_method text NOT NULL, -- Classifier version, e.g. LEXICON_PT_EN_V1
+    topics text[] DEFAULT '{}' NOT NULL, -- QUESTION, PURCHASE_INTENT, LOCATION, REQUEST, COMPLAINT
+    keywords text[] DEFAULT '{}' NOT NULL, -- Normalised content words, stopwords removed
+    first_seen_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (media_id, ig_comment_id)
+);
+
+-- Index for per-period sentiment summaries
+CREATE INDEX idx_comments_profile_commented_at ON comments (profile_id, commented_at DESC);
+
+-- RLS: Users can only see the comments on their own posts
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON comments FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON comments FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+
 -- 6. Table: media_metrics
--- Stores performance metrics for media (can be updated over time)
+-- Time series of media performance: every media sync appends one snapshot per post
 CREATE TABLE media_metrics (
     id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
     media_id uuid REFERENCES media(id) ON DELETE CASCADE NOT NULL,
@@ -287,6 +520,7 @@ CREATE TABLE media_metrics (
     user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
     likes integer DEFAULT 0 NOT NULL,
     comments integer DEFAULT 0 NOT NULL,
+    video_views integer, -- Videos and reels only
     saves integer DEFAULT 0 NOT NULL,
     shares integer DEFAULT 0 NOT NULL,
     reach integer DEFAULT 0 NOT NULL,
@@ -327,6 +561,25 @@ TO service_role
 USING (TRUE);
 
 
+-- 6b. View: post_lifecycle_observations
+-- media_metrics snapshots of posts with their age, for the Content page's lifecycle curves.
+-- security_invoker applies the RLS of media and media_metrics to the querying user.
+CREATE VIEW post_lifecycle_observations WITH (security_invoker = true) AS
+SELECT
+    metrics.media_id,
+    metrics.profile_id,
+    media.media_type,
+    media.timestamp AS published_at,
+    metrics.captured_at,
+    extract(epoch FROM metrics.captured_at - media.timestamp) / 3600.0 AS hours_since_publish,
+    metrics.likes,
+    metrics.comments,
+    metrics.video_views
+FROM media_metrics metrics
+JOIN media ON media.id = metrics.media_id
+WHERE media.media_type <> 'STORY';
+
+
 -- 7. Table: profile_insights_daily
 -- Stores aggregated daily KPIs (materialized view candidate)
 CREATE TABLE profile_insights_daily (
@@ -372,13 +625,82 @@ TO service_role
 USING (TRUE);
 
 
+-- 7b. Table: audience_demographics
+-- Follower demographics, one row per breakdown value, day and source: reported by the Graph
+-- API (age, gender, city, country), or estimated by DERIVE_METRICS from follower names and
+-- usernames (gender, language, country)
+CREATE TABLE audience_demographics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    date date NOT NULL,
+    breakdown text NOT NULL, -- age, gender, city, country, language
+    dimension text NOT NULL, -- e.g. '25-34', 'F', 'Lisbon, Portugal', 'PT', 'pt'; 'unknown' in estimates
+    value integer NOT NULL, -- Number of followers
+    source text DEFAULT 'GRAPH_API' NOT NULL, -- GRAPH_API, ESTIMATED
+    sample_size integer, -- ESTIMATED only: followers the estimate was made from
+    method text, -- ESTIMATED only: heuristics version, e.g. 'NAME_HEURISTICS_V1'
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (profile_id, date, source, breakdown, dimension)
+);
+
+-- Index for the latest demographics of a profile
+CREATE INDEX idx_audience_demographics_profile_date ON audience_demographics (profile_id, date DESC);
+
+-- RLS: Users can only see their own demographics
+ALTER TABLE audience_demographics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON audience_demographics FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON audience_demographics FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+
+-- 7c. Table: hourly_engagement_metrics
+-- Average engagement (likes + comments) of the profile's posts by the day of week and hour
+-- they were published, in the profile's timezone. Rebuilt by DERIVE_METRICS.
+CREATE TABLE hourly_engagement_metrics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    day_of_week smallint NOT NULL CHECK (day_of_week BETWEEN 0 AND 6), -- 0 = Monday ... 6 = Sunday
+    hour_of_day smallint NOT NULL CHECK (hour_of_day BETWEEN 0 AND 23),
+    post_count integer NOT NULL, -- Sample size: posts published in this slot
+    engagement_count integer NOT NULL, -- Total likes + comments of those posts
+    avg_engagement numeric NOT NULL, -- engagement_count / post_count
+    timezone text NOT NULL, -- Timezone the slots were computed in
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (profile_id, day_of_week, hour_of_day)
+);
+
+-- RLS: Users can only see their own hourly metrics
+ALTER TABLE hourly_engagement_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON hourly_engagement_metrics FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON hourly_engagement_metrics FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
 -- 7. Table: hashtags_metrics
--- Stores derived metrics per hashtag
+-- Stores derived metrics per hashtag, one version per DERIVE_METRICS day so trends can be charted
 CREATE TABLE hashtags_metrics (
     id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
     profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
     user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
     hashtag text NOT NULL,
+    derived_on date DEFAULT CURRENT_DATE NOT NULL, -- Day of the derivation this version belongs to
     usage_count integer DEFAULT 0 NOT NULL,
     total_engagement integer DEFAULT 0 NOT NULL,
     avg_engagement numeric DEFAULT 0.0 NOT NULL,
@@ -386,11 +708,11 @@ CREATE TABLE hashtags_metrics (
     last_used timestamp with time zone,
     created_at timestamp with time zone DEFAULT now() NOT NULL,
     updated_at timestamp with time zone DEFAULT now() NOT NULL,
-    UNIQUE (profile_id, hashtag)
+    UNIQUE (profile_id, hashtag, derived_on)
 );
 
--- Index for fast lookups by profile_id and hashtag
-CREATE INDEX idx_hashtags_metrics_profile_hashtag ON hashtags_metrics (profile_id, hashtag);
+-- Index for a hashtag's history (the unique constraint covers lookups by profile_id and hashtag)
+CREATE INDEX idx_hashtags_metrics_profile_derived_on ON hashtags_metrics (profile_id, derived_on DESC);
 
 -- RLS: Users can only see their own hashtag metrics
 ALTER TABLE hashtags_metrics ENABLE ROW LEVEL SECURITY;
@@ -417,6 +739,66 @@ TO service_role
 USING (TRUE);
 
 
+-- 7d. View: hashtags_metrics_latest
+-- Each profile's hashtags_metrics from its latest derivation (the current ranking).
+-- security_invoker applies the RLS of hashtags_metrics to the querying user.
+CREATE VIEW hashtags_metrics_latest WITH (security_invoker = true) AS
+SELECT metrics.*
+FROM hashtags_metrics metrics
+WHERE metrics.derived_on = (
+    SELECT max(latest.derived_on)
+    FROM hashtags_metrics latest
+    WHERE latest.profile_id = metrics.profile_id
+);
+
+
+-- 8. Table: sync_pipelines
+-- A sync run for one profile; its steps are the sync_jobs rows that reference it
+CREATE TABLE sync_pipelines (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    status text DEFAULT 'PENDING' NOT NULL, -- PENDING, RUNNING, COMPLETED, PARTIAL (some steps failed), FAILED
+    triggered_by text DEFAULT 'MANUAL' NOT NULL, -- MANUAL, LOGIN, SCHEDULE
+    started_at timestamp with time zone,
+    finished_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Index for looking up the active pipeline of a profile
+CREATE INDEX idx_sync_pipelines_profile_status ON sync_pipelines (profile_id, status);
+
+-- RLS: Users can only see their own pipelines
+ALTER TABLE sync_pipelines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON sync_pipelines FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow insert for authenticated users"
+ON sync_pipelines FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Allow insert for service role"
+ON sync_pipelines FOR INSERT
+TO service_role
+WITH CHECK (TRUE);
+
+CREATE POLICY "Allow update for service role only"
+ON sync_pipelines FOR UPDATE
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+CREATE POLICY "Allow delete for service role only"
+ON sync_pipelines FOR DELETE
+TO service_role
+USING (TRUE);
+
+
 -- 9. Table: sync_jobs
 -- Stores orchestration and logging for worker jobs
 CREATE TABLE sync_jobs (
@@ -424,12 +806,21 @@ CREATE TABLE sync_jobs (
     profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
     user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
     job_type text NOT NULL, -- LOGIN, RECONNECT, SYNC_FOLLOWERS, SYNC_MEDIA, etc.
-    status text DEFAULT 'PENDING' NOT NULL, -- PENDING, RUNNING, COMPLETED, FAILED
+    status text DEFAULT 'PENDING' NOT NULL, -- PENDING, RUNNING, COMPLETED, FAILED, DEAD (retries exhausted), SKIPPED (a dependency did not complete), CANCELLED
     started_at timestamp with time zone,
     finished_at timestamp with time zone,
     processed_items integer DEFAULT 0 NOT NULL,
     error_message text,
     metadata jsonb, -- For job-specific data (e.g., 2FA code, media IDs)
+    worker_id text, -- Identifier of the worker process that claimed the job
+    lease_expires_at timestamp with time zone, -- The claim is considered abandoned after this time
+    heartbeat_at timestamp with time zone, -- Last time the claiming worker renewed the lease
+    attempts integer DEFAULT 0 NOT NULL, -- Number of times the job has been claimed
+    next_run_at timestamp with time zone DEFAULT now() NOT NULL, -- PENDING jobs are not claimed before this time (retry backoff)
+    pipeline_id uuid REFERENCES sync_pipelines(id) ON DELETE CASCADE, -- NULL for standalone jobs (LOGIN, RECONNECT, ...)
+    depends_on uuid[] DEFAULT '{}' NOT NULL, -- Jobs that must be COMPLETED before this one can be claimed
+    cancel_requested_at timestamp with time zone, -- Set by the user; a RUNNING job stops at its next checkpoint
+    progress jsonb, -- Live progress published by the worker: phase, processed_items, total_items, cursor, updated_at
     created_at timestamp with time zone DEFAULT now() NOT NULL,
     updated_at timestamp with time zone DEFAULT now() NOT NULL
 );
@@ -437,6 +828,15 @@ CREATE TABLE sync_jobs (
 -- Index for job status and profile
 CREATE INDEX idx_sync_jobs_profile_status ON sync_jobs (profile_id, status);
 
+-- Index for the worker claim query (PENDING jobs that are due)
+CREATE INDEX idx_sync_jobs_status_next_run ON sync_jobs (status, next_run_at);
+
+-- Index for resolving the steps of a pipeline
+CREATE INDEX idx_sync_jobs_pipeline ON sync_jobs (pipeline_id);
+
+-- At most one RUNNING job per profile, so two workers never drive the same Instagram session
+CREATE UNIQUE INDEX idx_sync_jobs_one_running_per_profile ON sync_jobs (profile_id) WHERE status = 'RUNNING';
+
 -- RLS: Users can only see their own job logs
 ALTER TABLE sync_jobs ENABLE ROW LEVEL SECURITY;
 
@@ -467,6 +867,149 @@ TO service_role
 USING (TRUE);
 
 
+-- 9b. Table: sync_schedules
+-- Recurring syncs per profile; the worker's scheduler enqueues a pipeline when a schedule is due
+CREATE TABLE sync_schedules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_type text NOT NULL, -- SYNC_FOLLOWERS, SYNC_MEDIA, SYNC_INTERACTIONS, SYNC_STORIES, DERIVE_METRICS
+    interval_hours integer NOT NULL CHECK (interval_hours > 0),
+    run_at_local_time time, -- Aligns runs to this time of day in the profile's timezone; NULL runs every interval_hours from the last run
+    enabled boolean DEFAULT TRUE NOT NULL,
+    last_enqueued_at timestamp with time zone,
+    next_run_at timestamp with time zone DEFAULT now() NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    UNIQUE (profile_id, job_type)
+);
+
+-- Index for the scheduler query (enabled schedules that are due)
+CREATE INDEX idx_sync_schedules_enabled_next_run ON sync_schedules (enabled, next_run_at);
+
+-- RLS: Users can only see and modify their own schedules
+ALTER TABLE sync_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow select for authenticated users based on user_id"
+ON sync_schedules FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow insert for authenticated users"
+ON sync_schedules FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Allow insert for service role"
+ON sync_schedules FOR INSERT
+TO service_role
+WITH CHECK (TRUE);
+
+CREATE POLICY "Allow update for authenticated users based on user_id"
+ON sync_schedules FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Allow update for service role"
+ON sync_schedules FOR UPDATE
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+CREATE POLICY "Allow delete for authenticated users based on user_id"
+ON sync_schedules FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+
+-- 9c. Table: followers_staging
+-- Pages of a SYNC_FOLLOWERS job saved as they are scraped, so a retried job resumes
+-- instead of starting over. The job's metadata holds the cursor of the next page; the
+-- followers table is only updated once both lists are complete. The rows are removed when
+-- the job ends, whatever its status (see clear_followers_checkpoint_on_job_end).
+CREATE TABLE followers_staging (
+    job_id uuid REFERENCES sync_jobs(id) ON DELETE CASCADE NOT NULL,
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    list_type text NOT NULL, -- followers, following
+    ig_id text NOT NULL,
+    username text NOT NULL,
+    full_name text,
+    is_private boolean DEFAULT FALSE NOT NULL,
+    is_verified boolean DEFAULT FALSE NOT NULL,
+    profile_pic_url text,
+    following_count integer,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    PRIMARY KEY (job_id, list_type, ig_id)
+);
+
+-- RLS: Only the worker works with staged pages
+ALTER TABLE followers_staging ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role only"
+ON followers_staging FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+
+-- 9d. Table: ig_rate_limit_buckets
+-- Token buckets budgeting the Instagram requests of each account, per endpoint class
+-- (GRAPHQL, PAGE_VIEW). Shared by all worker processes through acquire_ig_request_token.
+CREATE TABLE ig_rate_limit_buckets (
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    endpoint_class text NOT NULL, -- GRAPHQL, PAGE_VIEW
+    tokens double precision NOT NULL, -- hourly bucket, refilled continuously
+    daily_tokens double precision NOT NULL, -- daily bucket, refilled continuously
+    refilled_at timestamp with time zone DEFAULT now() NOT NULL,
+    blocked_until timestamp with time zone, -- set when Instagram answered 429 / "please wait"
+    rate_limited_count integer DEFAULT 0 NOT NULL,
+    last_rate_limited_at timestamp with time zone,
+    PRIMARY KEY (profile_id, endpoint_class)
+);
+
+-- RLS: Only the worker spends tokens
+ALTER TABLE ig_rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for service role only"
+ON ig_rate_limit_buckets FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+
+-- 9e. Table: ig_rate_limit_events
+-- Every 429 or "please wait" response Instagram returned to the worker
+CREATE TABLE ig_rate_limit_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_id uuid REFERENCES sync_jobs(id) ON DELETE SET NULL,
+    endpoint_class text NOT NULL, -- GRAPHQL, PAGE_VIEW
+    status_code integer, -- HTTP status, NULL when only the response body asked to wait
+    detail text,
+    blocked_until timestamp with time zone NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+-- Index for time-series queries
+CREATE INDEX idx_ig_rate_limit_events_profile_created ON ig_rate_limit_events (profile_id, created_at DESC);
+
+-- RLS: Users can only see their own rate limit events
+ALTER TABLE ig_rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own rate limit events."
+ON ig_rate_limit_events FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Allow all for service role"
+ON ig_rate_limit_events FOR ALL
+TO service_role
+USING (TRUE)
+WITH CHECK (TRUE);
+
+
 -- 10. Table: alerts
 -- Stores internal alerts for anomalies
 CREATE TABLE alerts (
@@ -539,6 +1082,632 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Function to atomically claim the next PENDING job for a worker.
+-- FOR UPDATE SKIP LOCKED lets several workers poll concurrently: a row locked by
+-- another worker's claim is skipped instead of being handed out twice. Profiles that
+-- already have a RUNNING job are skipped as well; the partial unique index above
+-- catches the remaining race between two workers claiming jobs of the same profile.
+-- Pipeline steps are only handed out once every job in depends_on has COMPLETED.
+CREATE OR REPLACE FUNCTION claim_next_sync_job(p_worker_id text, p_lease_seconds integer DEFAULT 900)
+RETURNS SETOF sync_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE sync_jobs
+    SET status = 'RUNNING',
+        worker_id = p_worker_id,
+        started_at = now(),
+        heartbeat_at = now(),
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        progress = NULL
+    WHERE id = (
+        SELECT candidate.id
+        FROM sync_jobs candidate
+        WHERE candidate.status = 'PENDING'
+          AND candidate.next_run_at <= now()
+          AND NOT EXISTS (
+              SELECT 1 FROM sync_jobs running
+              WHERE running.profile_id = candidate.profile_id
+                AND running.status = 'RUNNING'
+          )
+          AND NOT EXISTS (
+              SELECT 1 FROM sync_jobs dependency
+              WHERE dependency.id = ANY(candidate.depends_on)
+                AND dependency.status <> 'COMPLETED'
+          )
+        ORDER BY candidate.next_run_at, candidate.created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+EXCEPTION
+    WHEN unique_violation THEN
+        -- Another worker started a job for the same profile first; retry on the next poll
+        RETURN;
+END;
+$$ language 'plpgsql';
+
+-- Function to extend the lease of a RUNNING job (worker heartbeat).
+-- Returns FALSE when the job is no longer owned by the worker, e.g. after it was reaped.
+CREATE OR REPLACE FUNCTION renew_sync_job_lease(p_job_id uuid, p_worker_id text, p_lease_seconds integer DEFAULT 900)
+RETURNS boolean AS $$
+BEGIN
+    UPDATE sync_jobs
+    SET heartbeat_at = now(),
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+    WHERE id = p_job_id
+      AND worker_id = p_worker_id
+      AND status = 'RUNNING';
+    RETURN FOUND;
+END;
+$$ language 'plpgsql';
+
+-- Function to recover RUNNING jobs whose worker stopped heartbeating (crash, deploy, OOM).
+-- Jobs go back to PENDING after their retry delay, or to DEAD once they have been attempted
+-- as often as their type allows. p_retry_policies maps each job type to
+-- {"max_attempts": n, "retry_delays_ms": [delay after attempt 1, after attempt 2, ...]},
+-- built by the worker from JOB_RETRY_POLICIES; types missing from it get 3 attempts.
+-- Jobs the user asked to cancel are marked CANCELLED instead of being run again.
+CREATE OR REPLACE FUNCTION reap_expired_sync_jobs(p_retry_policies jsonb DEFAULT '{}')
+RETURNS integer AS $$
+DECLARE
+    reaped integer;
+BEGIN
+    WITH expired AS (
+        SELECT
+            id,
+            COALESCE((p_retry_policies -> job_type ->> 'max_attempts')::integer, 3) AS max_attempts,
+            COALESCE((p_retry_policies -> job_type -> 'retry_delays_ms' ->> (attempts - 1))::bigint, 0) AS retry_delay_ms
+        FROM sync_jobs
+        WHERE status = 'RUNNING'
+          AND lease_expires_at < now()
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE sync_jobs job
+    SET status = CASE
+            WHEN job.cancel_requested_at IS NOT NULL THEN 'CANCELLED'
+            WHEN job.attempts >= expired.max_attempts THEN 'DEAD'
+            ELSE 'PENDING'
+        END,
+        finished_at = CASE
+            WHEN job.cancel_requested_at IS NOT NULL OR job.attempts >= expired.max_attempts THEN now()
+            ELSE NULL
+        END,
+        error_message = CASE
+            WHEN job.cancel_requested_at IS NOT NULL THEN 'JOB_CANCELLED: Cancelled by user.'
+            WHEN job.attempts >= expired.max_attempts THEN format(
+                'JOB_LEASE_EXPIRED: Worker %s stopped responding (attempt %s of %s).',
+                job.worker_id, job.attempts, expired.max_attempts
+            )
+            ELSE job.error_message
+        END,
+        next_run_at = now() + expired.retry_delay_ms * interval '1 millisecond',
+        worker_id = NULL,
+        lease_expires_at = NULL
+    FROM expired
+    WHERE job.id = expired.id;
+
+    GET DIAGNOSTICS reaped = ROW_COUNT;
+    RETURN reaped;
+END;
+$$ language 'plpgsql';
+
+-- Function spending one request token of an account's endpoint class.
+-- Both buckets refill continuously since refilled_at: the hourly one up to p_burst at
+-- p_per_hour, the daily one up to p_per_day at p_per_day per 24h. Returns 0 when a token
+-- was taken, otherwise the seconds to wait before asking again (nothing is spent).
+-- The row lock serializes workers drawing from the same account.
+CREATE OR REPLACE FUNCTION acquire_ig_request_token(
+    p_profile_id uuid,
+    p_endpoint_class text,
+    p_burst integer,
+    p_per_hour integer,
+    p_per_day integer
+)
+RETURNS double precision AS $$
+DECLARE
+    bucket ig_rate_limit_buckets%ROWTYPE;
+    elapsed double precision;
+    hourly double precision;
+    daily double precision;
+BEGIN
+    INSERT INTO ig_rate_limit_buckets (profile_id, endpoint_class, tokens, daily_tokens)
+    VALUES (p_profile_id, p_endpoint_class, p_burst, p_per_day)
+    ON CONFLICT (profile_id, endpoint_class) DO NOTHING;
+
+    SELECT * INTO bucket
+    FROM ig_rate_limit_buckets
+    WHERE profile_id = p_profile_id
+      AND endpoint_class = p_endpoint_class
+    FOR UPDATE;
+
+    IF bucket.blocked_until > now() THEN
+        RETURN extract(epoch FROM bucket.blocked_until - now());
+    END IF;
+
+    elapsed := greatest(0, extract(epoch FROM now() - bucket.refilled_at));
+    hourly := least(p_burst, bucket.tokens + elapsed * p_per_hour / 3600.0);
+    daily := least(p_per_day, bucket.daily_tokens + elapsed * p_per_day / 86400.0);
+
+    UPDATE ig_rate_limit_buckets
+    SET tokens = CASE WHEN hourly >= 1 AND daily >= 1 THEN hourly - 1 ELSE hourly END,
+        daily_tokens = CASE WHEN hourly >= 1 AND daily >= 1 THEN daily - 1 ELSE daily END,
+        refilled_at = now()
+    WHERE profile_id = p_profile_id
+      AND endpoint_class = p_endpoint_class;
+
+    IF hourly >= 1 AND daily >= 1 THEN
+        RETURN 0;
+    END IF;
+
+    RETURN greatest(
+        CASE WHEN hourly < 1 THEN (1 - hourly) * 3600.0 / p_per_hour ELSE 0 END,
+        CASE WHEN daily < 1 THEN (1 - daily) * 86400.0 / p_per_day ELSE 0 END
+    );
+END;
+$$ language 'plpgsql';
+
+-- Function recording a 429 / "please wait" response: empties the endpoint class's hourly
+-- bucket, blocks it for p_cooldown_seconds and logs the event.
+-- Returns when the block ends.
+CREATE OR REPLACE FUNCTION record_ig_rate_limit(
+    p_profile_id uuid,
+    p_endpoint_class text,
+    p_cooldown_seconds integer,
+    p_status_code integer DEFAULT NULL,
+    p_detail text DEFAULT NULL,
+    p_job_id uuid DEFAULT NULL
+)
+RETURNS timestamp with time zone AS $$
+DECLARE
+    v_blocked_until timestamp with time zone := now() + make_interval(secs => p_cooldown_seconds);
+BEGIN
+    INSERT INTO ig_rate_limit_buckets (profile_id, endpoint_class, tokens, daily_tokens, blocked_until,
+                                       rate_limited_count, last_rate_limited_at)
+    VALUES (p_profile_id, p_endpoint_class, 0, 0, v_blocked_until, 1, now())
+    ON CONFLICT (profile_id, endpoint_class) DO UPDATE
+    SET tokens = 0,
+        refilled_at = now(),
+        blocked_until = greatest(ig_rate_limit_buckets.blocked_until, EXCLUDED.blocked_until),
+        rate_limited_count = ig_rate_limit_buckets.rate_limited_count + 1,
+        last_rate_limited_at = now();
+
+    INSERT INTO ig_rate_limit_events (profile_id, user_id, job_id, endpoint_class, status_code, detail, blocked_until)
+    SELECT p_profile_id, profile.user_id, p_job_id, p_endpoint_class, p_status_code, p_detail, v_blocked_until
+    FROM profiles profile
+    WHERE profile.id = p_profile_id;
+
+    RETURN v_blocked_until;
+END;
+$$ language 'plpgsql';
+
+-- Function letting a user cancel one of their jobs. A PENDING job is cancelled right away;
+-- a RUNNING job is flagged and the worker stops it between pages.
+-- Returns the job's resulting status, or NULL when it was not found or already finished.
+CREATE OR REPLACE FUNCTION cancel_sync_job(p_job_id uuid)
+RETURNS text AS $$
+DECLARE
+    v_status text;
+BEGIN
+    UPDATE sync_jobs
+    SET status = CASE WHEN status = 'PENDING' THEN 'CANCELLED' ELSE status END,
+        finished_at = CASE WHEN status = 'PENDING' THEN now() ELSE finished_at END,
+        error_message = CASE WHEN status = 'PENDING' THEN 'JOB_CANCELLED: Cancelled by user.' ELSE error_message END,
+        cancel_requested_at = now()
+    WHERE id = p_job_id
+      AND user_id = auth.uid()
+      AND status IN ('PENDING', 'RUNNING')
+    RETURNING status INTO v_status;
+
+    RETURN v_status;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- Function to enqueue a sync of a profile as a pipeline of dependent jobs:
+--   SYNC_PROFILE -> SYNC_FOLLOWERS, SYNC_MEDIA -> DERIVE_METRICS
+--   SYNC_MEDIA (or SYNC_PROFILE without it) -> SYNC_INTERACTIONS -> DERIVE_METRICS
+--   SYNC_PROFILE -> SYNC_STORIES (nothing depends on it)
+-- p_job_types selects the steps after SYNC_PROFILE (which always runs first to validate
+-- the session); NULL runs all of them.
+-- If the profile already has a PENDING or RUNNING pipeline, its id is returned instead.
+CREATE OR REPLACE FUNCTION enqueue_sync_pipeline(
+    p_profile_id uuid,
+    p_user_id uuid,
+    p_triggered_by text DEFAULT 'MANUAL',
+    p_job_types text[] DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+    v_steps text[] := COALESCE(p_job_types, ARRAY['SYNC_FOLLOWERS', 'SYNC_MEDIA', 'SYNC_INTERACTIONS', 'SYNC_STORIES', 'DERIVE_METRICS']);
+    v_pipeline_id uuid;
+    v_job_id uuid;
+    v_media_job_id uuid;
+    v_derive_depends_on uuid[];
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM unnest(v_steps) step
+        WHERE step NOT IN ('SYNC_FOLLOWERS', 'SYNC_MEDIA', 'SYNC_INTERACTIONS', 'SYNC_STORIES', 'DERIVE_METRICS')
+    ) THEN
+        RAISE EXCEPTION 'Unsupported sync pipeline steps: %', v_steps;
+    END IF;
+
+    SELECT id INTO v_pipeline_id
+    FROM sync_pipelines
+    WHERE profile_id = p_profile_id
+      AND status IN ('PENDING', 'RUNNING')
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_pipeline_id IS NOT NULL THEN
+        RETURN v_pipeline_id;
+    END IF;
+
+    INSERT INTO sync_pipelines (profile_id, user_id, triggered_by)
+    VALUES (p_profile_id, p_user_id, p_triggered_by)
+    RETURNING id INTO v_pipeline_id;
+
+    INSERT INTO sync_jobs (profile_id, user_id, pipeline_id, job_type, metadata)
+    VALUES (p_profile_id, p_user_id, v_pipeline_id, 'SYNC_PROFILE', '{}')
+    RETURNING id INTO v_job_id;
+    v_derive_depends_on := ARRAY[v_job_id];
+
+    IF 'SYNC_FOLLOWERS' = ANY(v_steps) THEN
+        INSERT INTO sync_jobs (profile_id, user_id, pipeline_id, job_type, depends_on, metadata)
+        VALUES (p_profile_id, p_user_id, v_pipeline_id, 'SYNC_FOLLOWERS', v_derive_depends_on[1:1], '{}')
+        RETURNING id INTO v_job_id;
+        v_derive_depends_on := v_derive_depends_on || v_job_id;
+    END IF;
+
+    IF 'SYNC_MEDIA' = ANY(v_steps) THEN
+        INSERT INTO sync_jobs (profile_id, user_id, pipeline_id, job_type, depends_on, metadata)
+        VALUES (p_profile_id, p_user_id, v_pipeline_id, 'SYNC_MEDIA', v_derive_depends_on[1:1], '{}')
+        RETURNING id INTO v_media_job_id;
+        v_derive_depends_on := v_derive_depends_on || v_media_job_id;
+    END IF;
+
+    -- Interactions are collected on the newest saved posts, so they wait for SYNC_MEDIA
+    -- when it is part of the pipeline. A separate step keeps a failed interaction scrape
+    -- from retrying the media sync (and adding another media_metrics snapshot).
+    IF 'SYNC_INTERACTIONS' = ANY(v_steps) THEN
+        INSERT INTO sync_jobs (profile_id, user_id, pipeline_id, job_type, depends_on, metadata)
+        VALUES (p_profile_id, p_user_id, v_pipeline_id, 'SYNC_INTERACTIONS',
+                ARRAY[coalesce(v_media_job_id, v_derive_depends_on[1])], '{}')
+        RETURNING id INTO v_job_id;
+        v_derive_depends_on := v_derive_depends_on || v_job_id;
+    END IF;
+
+    -- Stories don't feed the derived metrics, so DERIVE_METRICS doesn't wait for them
+    IF 'SYNC_STORIES' = ANY(v_steps) THEN
+        INSERT INTO sync_jobs (profile_id, user_id, pipeline_id, job_type, depends_on, metadata)
+        VALUES (p_profile_id, p_user_id, v_pipeline_id, 'SYNC_STORIES', v_derive_depends_on[1:1], '{}');
+    END IF;
+
+    IF 'DERIVE_METRICS' = ANY(v_steps) THEN
+        INSERT INTO sync_jobs (profile_id, user_id, pipeline_id, job_type, depends_on, metadata)
+        VALUES (p_profile_id, p_user_id, v_pipeline_id, 'DERIVE_METRICS', v_derive_depends_on, '{}');
+    END IF;
+
+    RETURN v_pipeline_id;
+END;
+$$ language 'plpgsql';
+
+-- Trigger function keeping a pipeline consistent with its steps.
+-- A step that ends without completing SKIPs the PENDING steps depending on it (which
+-- cascades through this same trigger), and the pipeline status is recomputed: RUNNING
+-- while any step is unfinished, then COMPLETED, PARTIAL or FAILED.
+CREATE OR REPLACE FUNCTION sync_pipeline_on_job_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.pipeline_id IS NULL OR NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IN ('FAILED', 'DEAD', 'SKIPPED', 'CANCELLED') THEN
+        UPDATE sync_jobs
+        SET status = 'SKIPPED',
+            finished_at = now(),
+            error_message = format('JOB_DEPENDENCY_FAILED: %s did not complete.', NEW.job_type)
+        WHERE pipeline_id = NEW.pipeline_id
+          AND status = 'PENDING'
+          AND NEW.id = ANY(depends_on);
+    END IF;
+
+    UPDATE sync_pipelines pipeline
+    SET status = CASE
+            WHEN steps.unfinished > 0 THEN 'RUNNING'
+            WHEN steps.completed = steps.total THEN 'COMPLETED'
+            WHEN steps.completed > 0 THEN 'PARTIAL'
+            ELSE 'FAILED'
+        END,
+        started_at = COALESCE(pipeline.started_at, now()),
+        finished_at = CASE WHEN steps.unfinished > 0 THEN NULL ELSE now() END
+    FROM (
+        SELECT count(*) AS total,
+               count(*) FILTER (WHERE status = 'COMPLETED') AS completed,
+               count(*) FILTER (WHERE status IN ('PENDING', 'RUNNING')) AS unfinished
+        FROM sync_jobs
+        WHERE pipeline_id = NEW.pipeline_id
+    ) steps
+    WHERE pipeline.id = NEW.pipeline_id;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE TRIGGER sync_pipeline_on_job_status_change
+AFTER UPDATE OF status ON sync_jobs
+FOR EACH ROW
+EXECUTE FUNCTION sync_pipeline_on_job_status_change();
+
+-- Trigger function dropping the follower scrape checkpoint of a job that has finished.
+-- Covers every way a job ends (the worker, the reaper, a cancelled PENDING job): once the
+-- job won't run again, its staged pages and the cursor in its metadata are not needed.
+CREATE OR REPLACE FUNCTION clear_followers_checkpoint_on_job_end()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status NOT IN ('COMPLETED', 'FAILED', 'DEAD', 'CANCELLED', 'SKIPPED') OR NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    DELETE FROM followers_staging WHERE job_id = NEW.id;
+    NEW.metadata = NEW.metadata - 'followers_checkpoint';
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE TRIGGER clear_followers_checkpoint_on_job_end
+BEFORE UPDATE OF status ON sync_jobs
+FOR EACH ROW
+EXECUTE FUNCTION clear_followers_checkpoint_on_job_end();
+
+-- Function computing when a schedule is next due after p_after.
+-- With a run_at_local_time, runs fall on that wall-clock time plus multiples of
+-- p_interval_hours in p_timezone (so "daily at 03:00" survives DST changes).
+CREATE OR REPLACE FUNCTION next_sync_schedule_run(
+    p_after timestamp with time zone,
+    p_interval_hours integer,
+    p_run_at_local_time time,
+    p_timezone text
+)
+RETURNS timestamp with time zone AS $$
+DECLARE
+    v_local timestamp;
+BEGIN
+    IF p_run_at_local_time IS NULL THEN
+        RETURN p_after + make_interval(hours => p_interval_hours);
+    END IF;
+
+    -- Start from yesterday's anchor so intervals shorter than a day find today's earlier slots
+    v_local := date_trunc('day', p_after AT TIME ZONE p_timezone) - interval '1 day' + p_run_at_local_time;
+    WHILE (v_local AT TIME ZONE p_timezone) <= p_after LOOP
+        v_local := v_local + make_interval(hours => p_interval_hours);
+    END LOOP;
+
+    RETURN v_local AT TIME ZONE p_timezone;
+END;
+$$ language 'plpgsql';
+
+-- Function called by the worker's scheduler: enqueues one pipeline per CONNECTED profile
+-- with the steps of all its due schedules, then advances those schedules.
+-- Profiles with a pipeline still in progress are left due and picked up on a later call.
+CREATE OR REPLACE FUNCTION enqueue_due_sync_schedules()
+RETURNS integer AS $$
+DECLARE
+    due record;
+    enqueued integer := 0;
+BEGIN
+    FOR due IN
+        WITH locked AS (
+            SELECT schedule.id, schedule.profile_id, schedule.user_id, schedule.job_type
+            FROM sync_schedules schedule
+            JOIN profiles profile ON profile.id = schedule.profile_id
+            WHERE schedule.enabled
+              AND schedule.next_run_at <= now()
+              AND profile.connection_state = 'CONNECTED'
+              AND NOT EXISTS (
+                  SELECT 1 FROM sync_pipelines pipeline
+                  WHERE pipeline.profile_id = schedule.profile_id
+                    AND pipeline.status IN ('PENDING', 'RUNNING')
+              )
+            FOR UPDATE OF schedule SKIP LOCKED
+        )
+        SELECT profile_id, user_id, array_agg(id) AS schedule_ids, array_agg(job_type) AS job_types
+        FROM locked
+        GROUP BY profile_id, user_id
+    LOOP
+        PERFORM enqueue_sync_pipeline(due.profile_id, due.user_id, 'SCHEDULE', due.job_types);
+
+        UPDATE sync_schedules schedule
+        SET last_enqueued_at = now(),
+            next_run_at = next_sync_schedule_run(now(), schedule.interval_hours, schedule.run_at_local_time, profile.timezone)
+        FROM profiles profile
+        WHERE profile.id = schedule.profile_id
+          AND schedule.id = ANY(due.schedule_ids);
+
+        enqueued := enqueued + 1;
+    END LOOP;
+
+    RETURN enqueued;
+END;
+$$ language 'plpgsql';
+
+-- Trigger function giving every new profile the default sync schedule:
+-- followers every 6 hours, stories and media every 4 hours (so each 24h story is captured
+-- several times before it expires, and recent posts get a lifecycle curve), likers and
+-- commenters every 12 hours and metrics nightly at 03:00 (profile time)
+CREATE OR REPLACE FUNCTION create_default_sync_schedules()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO sync_schedules (profile_id, user_id, job_type, interval_hours, run_at_local_time, next_run_at)
+    SELECT NEW.id, NEW.user_id, defaults.job_type, defaults.interval_hours, defaults.run_at_local_time,
+           next_sync_schedule_run(now(), defaults.interval_hours, defaults.run_at_local_time, NEW.timezone)
+    FROM (VALUES
+        ('SYNC_FOLLOWERS', 6, NULL::time),
+        ('SYNC_STORIES', 4, NULL::time),
+        ('SYNC_MEDIA', 4, NULL::time),
+        ('SYNC_INTERACTIONS', 12, NULL::time),
+        ('DERIVE_METRICS', 24, '03:00'::time)
+    ) AS defaults (job_type, interval_hours, run_at_local_time);
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE TRIGGER create_default_sync_schedules
+AFTER INSERT ON profiles
+FOR EACH ROW
+EXECUTE FUNCTION create_default_sync_schedules();
+
+-- Function resolving the username of an account by its Instagram id: the current followers
+-- row, else the latest follower_changes event naming it (accounts dropped from followers),
+-- else the id itself.
+CREATE OR REPLACE FUNCTION follower_username_of(p_profile_id uuid, p_ig_id text)
+RETURNS text AS $$
+    SELECT coalesce(
+        (SELECT follower_username FROM followers
+         WHERE profile_id = p_profile_id AND follower_ig_id = p_ig_id),
+        (SELECT follower_username FROM follower_changes
+         WHERE profile_id = p_profile_id AND follower_ig_id = p_ig_id
+         ORDER BY detected_at DESC LIMIT 1),
+        p_ig_id
+    );
+$$ language 'sql' STABLE;
+
+-- Function answering "who followed the profile at p_at": the follower ids of the latest
+-- followers_snapshots row captured at or before p_at, with whether the profile followed
+-- each back in that snapshot. No rows when the profile had no snapshot yet.
+-- Runs with the caller's rights, so RLS limits it to the caller's own profiles.
+CREATE OR REPLACE FUNCTION followers_at(p_profile_id uuid, p_at timestamp with time zone)
+RETURNS TABLE (
+    snapshot_captured_at timestamp with time zone,
+    follower_ig_id text,
+    follower_username text,
+    follower_name text,
+    follower_pic_url text,
+    is_following boolean
+) AS $$
+    WITH snapshot AS (
+        SELECT captured_at, snapshot_data
+        FROM followers_snapshots
+        WHERE profile_id = p_profile_id
+          AND captured_at <= p_at
+          AND snapshot_data ? 'follower_ids'
+        ORDER BY captured_at DESC
+        LIMIT 1
+    ),
+    followed AS (
+        SELECT jsonb_array_elements_text(snapshot_data->'following_ids') AS ig_id FROM snapshot
+    )
+    SELECT
+        snapshot.captured_at,
+        ids.ig_id,
+        coalesce(followers.follower_username, follower_username_of(p_profile_id, ids.ig_id)),
+        followers.follower_name,
+        followers.follower_pic_url,
+        followed.ig_id IS NOT NULL
+    FROM snapshot
+    CROSS JOIN LATERAL jsonb_array_elements_text(snapshot.snapshot_data->'follower_ids') AS ids (ig_id)
+    LEFT JOIN followed ON followed.ig_id = ids.ig_id
+    LEFT JOIN followers ON followers.profile_id = p_profile_id AND followers.follower_ig_id = ids.ig_id;
+$$ language 'sql' STABLE;
+
+-- Function answering "what changed between p_from and p_to": accounts gained and lost as
+-- followers, and started and stopped being followed, between the latest snapshots at or
+-- before each date. Change types match follower_changes. No rows unless both dates have
+-- a snapshot; both captured_at are returned so callers can tell which syncs were compared.
+-- Runs with the caller's rights, so RLS limits it to the caller's own profiles.
+CREATE OR REPLACE FUNCTION followers_diff(
+    p_profile_id uuid,
+    p_from timestamp with time zone,
+    p_to timestamp with time zone
+)
+RETURNS TABLE (
+    change_type text,
+    follower_ig_id text,
+    follower_username text,
+    from_captured_at timestamp with time zone,
+    to_captured_at timestamp with time zone
+) AS $$
+    WITH from_snapshot AS (
+        SELECT captured_at, snapshot_data
+        FROM followers_snapshots
+        WHERE profile_id = p_profile_id
+          AND captured_at <= p_from
+          AND snapshot_data ? 'follower_ids'
+        ORDER BY captured_at DESC
+        LIMIT 1
+    ),
+    to_snapshot AS (
+        SELECT captured_at, snapshot_data
+        FROM followers_snapshots
+        WHERE profile_id = p_profile_id
+          AND captured_at <= p_to
+          AND snapshot_data ? 'follower_ids'
+        ORDER BY captured_at DESC
+        LIMIT 1
+    ),
+    changes AS (
+        (SELECT 'NEW_FOLLOWER' AS change_type, jsonb_array_elements_text(snapshot_data->'follower_ids') AS ig_id FROM to_snapshot
+         EXCEPT
+         SELECT 'NEW_FOLLOWER', jsonb_array_elements_text(snapshot_data->'follower_ids') FROM from_snapshot)
+        UNION ALL
+        (SELECT 'UNFOLLOWED', jsonb_array_elements_text(snapshot_data->'follower_ids') FROM from_snapshot
+         EXCEPT
+         SELECT 'UNFOLLOWED', jsonb_array_elements_text(snapshot_data->'follower_ids') FROM to_snapshot)
+        UNION ALL
+        (SELECT 'STARTED_FOLLOWING', jsonb_array_elements_text(snapshot_data->'following_ids') FROM to_snapshot
+         EXCEPT
+         SELECT 'STARTED_FOLLOWING', jsonb_array_elements_text(snapshot_data->'following_ids') FROM from_snapshot)
+        UNION ALL
+        (SELECT 'STOPPED_FOLLOWING', jsonb_array_elements_text(snapshot_data->'following_ids') FROM from_snapshot
+         EXCEPT
+         SELECT 'STOPPED_FOLLOWING', jsonb_array_elements_text(snapshot_data->'following_ids') FROM to_snapshot)
+    )
+    SELECT
+        changes.change_type,
+        changes.ig_id,
+        follower_username_of(p_profile_id, changes.ig_id),
+        from_snapshot.captured_at,
+        to_snapshot.captured_at
+    FROM changes
+    CROSS JOIN from_snapshot
+    CROSS JOIN to_snapshot;
+$$ language 'sql' STABLE;
+
+-- Only the worker (service role) may claim, renew and reap jobs and spend request tokens
+REVOKE EXECUTE ON FUNCTION claim_next_sync_job(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION renew_sync_job_lease(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reap_expired_sync_jobs(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_sync_job(text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION renew_sync_job_lease(uuid, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION reap_expired_sync_jobs(jsonb) TO service_role;
+REVOKE EXECUTE ON FUNCTION enqueue_due_sync_schedules() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_due_sync_schedules() TO service_role;
+REVOKE EXECUTE ON FUNCTION acquire_ig_request_token(uuid, text, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_ig_rate_limit(uuid, text, integer, integer, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION acquire_ig_request_token(uuid, text, integer, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION record_ig_rate_limit(uuid, text, integer, integer, text, uuid) TO service_role;
+
+-- Users may cancel their own jobs; cancel_sync_job checks ownership itself since it bypasses RLS
+REVOKE EXECUTE ON FUNCTION cancel_sync_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_sync_job(uuid) TO authenticated;
+
+-- Users may start a sync of their own profiles; RLS on the inserted rows enforces ownership
+REVOKE EXECUTE ON FUNCTION enqueue_sync_pipeline(uuid, uuid, text, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_sync_pipeline(uuid, uuid, text, text[]) TO authenticated, service_role;
+
+-- Users may browse the follower history of their own profiles; RLS on the snapshots enforces ownership
+REVOKE EXECUTE ON FUNCTION follower_username_of(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION followers_at(uuid, timestamp with time zone) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION followers_diff(uuid, timestamp with time zone, timestamp with time zone) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION follower_username_of(uuid, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION followers_at(uuid, timestamp with time zone) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION followers_diff(uuid, timestamp with time zone, timestamp with time zone) TO authenticated, service_role;
+
+-- Stream sync_jobs changes to the web client (live job progress). Realtime applies the
+-- table's RLS policies, so users only receive changes to their own jobs.
+ALTER PUBLICATION supabase_realtime ADD TABLE sync_jobs;
+
 -- Final note: The user will need to run this script in their Supabase SQL editor.
 -- The RLS policies for service_role are set to TRUE for simplicity, as the worker
 -- will use the service role key and is trusted to handle data for all users.